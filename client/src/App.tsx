@@ -11,11 +11,14 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import BrowsePage from "@/pages/browse-page";
+import ItemDetailsPage from "@/pages/item-details-page";
 import SellItemPage from "@/pages/sell-item-page";
 import WishlistPage from "@/pages/wishlist-page";
 import ProfilePage from "@/pages/profile-page";
 import MyItemsPage from "@/pages/my-items-page";
 import AdminPage from "@/pages/admin-page";
+import StorefrontPage from "@/pages/storefront-page";
+import WantedPage from "@/pages/wanted-page";
 import { LostFoundPage } from "@/pages/lost-found-page";
 import { MessagesPage } from "@/pages/messages-page";
 import { pageTransition } from "@/lib/motion";
@@ -35,10 +38,13 @@ function Router() {
         <Switch location={location}>
           <ProtectedRoute path="/" component={HomePage} />
           <ProtectedRoute path="/browse" component={BrowsePage} />
+          <ProtectedRoute path="/items/:id" component={ItemDetailsPage} />
           <ProtectedRoute path="/sell" component={SellItemPage} />
           <ProtectedRoute path="/wishlist" component={WishlistPage} />
           <ProtectedRoute path="/profile" component={ProfilePage} />
+          <ProtectedRoute path="/users/:id" component={StorefrontPage} />
           <ProtectedRoute path="/my-items" component={MyItemsPage} />
+          <ProtectedRoute path="/wanted" component={WantedPage} />
           <ProtectedRoute path="/lost-found" component={LostFoundPage} />
           <ProtectedRoute path="/messages" component={MessagesPage} />
           <ProtectedRoute path="/admin" component={AdminPage} />
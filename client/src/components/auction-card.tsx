@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Gavel } from "lucide-react";
+import type { AuctionState, Item } from "@shared/schema";
+
+const BID_REFRESH_MS = 15 * 1000;
+
+interface AuctionCardProps {
+  item: Item;
+  isOwner: boolean;
+  currentUserId?: string;
+}
+
+function formatEndTime(date: Date | string | null) {
+  return date ? new Date(date).toLocaleString(undefined, { weekday: "short", day: "numeric", month: "short", hour: "numeric", minute: "2-digit" }) : "";
+}
+
+// Live bidding for an auction listing; closing it is left to the background sweep
+export function AuctionCard({ item, isOwner, currentUserId }: AuctionCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/items/${item.id}/bids`];
+  const [amount, setAmount] = useState("");
+
+  const { data: auction } = useQuery<AuctionState>({
+    queryKey,
+    refetchOnMount: "always",
+    // Keep the highest bid current while others are bidding
+    refetchInterval: (query) => (query.state.data?.isOpen ? BID_REFRESH_MS : false),
+  });
+
+  // Suggest the lowest bid that will be accepted
+  useEffect(() => {
+    if (auction) setAmount(String(auction.nextMinimumBid));
+  }, [auction?.nextMinimumBid]);
+
+  const bidMutation = useMutation({
+    mutationFn: async (bid: number) => {
+      await apiRequest("POST", `/api/items/${item.id}/bids`, { amount: bid });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Bid placed",
+        description: "We'll notify you if someone outbids you.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Failed to place bid",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!auction) return null;
+
+  const isLeading = !!currentUserId && auction.bids[0]?.bidderId === currentUserId;
+
+  const handleBid = (e: React.FormEvent) => {
+    e.preventDefault();
+    const bid = parseInt(amount, 10);
+    if (isNaN(bid) || bid < auction.nextMinimumBid) {
+      toast({
+        title: "Bid too low",
+        description: `Bid at least ₹${auction.nextMinimumBid.toLocaleString()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    bidMutation.mutate(bid);
+  };
+
+  return (
+    <Card className="border-amber-300" data-testid="card-auction">
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 font-semibold">
+            <Gavel className="h-5 w-5" />
+            {auction.isOpen ? "Auction" : "Auction ended"}
+          </div>
+          <span className="text-sm text-muted-foreground" data-testid="text-auction-bid-count">
+            {auction.bidCount} bid{auction.bidCount !== 1 ? "s" : ""}
+          </span>
+        </div>
+
+        <div>
+          <p className="text-sm text-muted-foreground">{auction.highestBid !== null ? "Current bid" : "Starting price"}</p>
+          <p className="text-2xl font-bold" data-testid="text-auction-current-bid">
+            ₹{(auction.highestBid ?? item.price ?? 0).toLocaleString()}
+          </p>
+          {auction.endsAt && (
+            <p className="text-sm text-muted-foreground" data-testid="text-auction-ends-at">
+              {auction.isOpen ? "Ends" : "Ended"} {formatEndTime(auction.endsAt)}
+            </p>
+          )}
+        </div>
+
+        {auction.isOpen && !isOwner && (
+          isLeading ? (
+            <p className="text-sm font-medium" data-testid="text-auction-leading">
+              You're the highest bidder.
+            </p>
+          ) : (
+            <form onSubmit={handleBid} className="flex gap-2">
+              <Input
+                type="number"
+                min={auction.nextMinimumBid}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-bid-amount"
+              />
+              <Button type="submit" disabled={bidMutation.isPending} data-testid="button-place-bid">
+                {bidMutation.isPending ? "Bidding..." : "Place Bid"}
+              </Button>
+            </form>
+          )
+        )}
+        {auction.isOpen && isOwner && (
+          <p className="text-sm text-muted-foreground">
+            The highest bidder gets the item reserved for them when the auction ends.
+          </p>
+        )}
+
+        {auction.bids.length > 0 && (
+          <div className="space-y-1 pt-2 border-t">
+            {auction.bids.map((bid) => (
+              <div key={bid.id} className="flex items-center justify-between text-sm" data-testid={`auction-bid-${bid.id}`}>
+                <span>
+                  {bid.bidder.firstName} {bid.bidder.lastName}
+                  {bid.bidderId === currentUserId && " (you)"}
+                </span>
+                <span className="font-medium">₹{bid.amount.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { X } from "lucide-react";
+import { COURSE_CODE_PATTERN, MAX_COURSE_CODES, normalizeIsbn, type TextbookMetadata } from "@shared/schema";
+
+export interface BookDetails {
+  isbn: string;
+  author: string;
+  edition: string;
+  courseCodes: string[];
+}
+
+interface BookDetailsFieldsProps {
+  details: BookDetails;
+  title: string;
+  onChange: (changes: Partial<BookDetails & { title: string }>) => void;
+}
+
+export function BookDetailsFields({ details, title, onChange }: BookDetailsFieldsProps) {
+  const [courseCodeInput, setCourseCodeInput] = useState("");
+  const { toast } = useToast();
+
+  const isbnInvalid = details.isbn.trim() !== "" && !normalizeIsbn(details.isbn);
+
+  const lookupMutation = useMutation({
+    mutationFn: async (isbn: string): Promise<TextbookMetadata> => {
+      const res = await apiRequest("GET", `/api/books/isbn/${isbn}`);
+      return res.json();
+    },
+    onSuccess: (book) => {
+      onChange({
+        isbn: book.isbn,
+        author: book.author,
+        edition: book.edition ?? details.edition,
+        courseCodes: Array.from(new Set([...details.courseCodes, ...book.courseCodes])).slice(0, MAX_COURSE_CODES),
+        // Don't overwrite a title the seller already typed
+        ...(!title.trim() && { title: book.title }),
+      });
+      toast({
+        title: "Book details filled in",
+        description: `${book.title}${book.edition ? `, ${book.edition} edition` : ""}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Book not found",
+        description: "We don't have this ISBN yet - fill in the details yourself.",
+      });
+    },
+  });
+
+  // Look the book up as soon as a complete, valid ISBN has been typed
+  const handleIsbnChange = (value: string) => {
+    onChange({ isbn: value });
+    const isbn = normalizeIsbn(value);
+    if (isbn && isbn !== normalizeIsbn(details.isbn)) {
+      lookupMutation.mutate(isbn);
+    }
+  };
+
+  const addCourseCode = () => {
+    const code = courseCodeInput.trim().toUpperCase();
+    if (!code) return;
+    if (!COURSE_CODE_PATTERN.test(code)) {
+      toast({
+        title: "Invalid course code",
+        description: "Course codes look like MAT1011",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!details.courseCodes.includes(code)) {
+      onChange({ courseCodes: [...details.courseCodes, code] });
+    }
+    setCourseCodeInput("");
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <Label className="text-base font-medium">Book Details</Label>
+
+      <div>
+        <Label htmlFor="isbn">ISBN</Label>
+        <Input
+          id="isbn"
+          placeholder="e.g., 978-0134438986"
+          value={details.isbn}
+          onChange={(e) => handleIsbnChange(e.target.value)}
+          data-testid="input-isbn"
+        />
+        {lookupMutation.isPending ? (
+          <p className="text-xs text-muted-foreground mt-1">Looking up book...</p>
+        ) : isbnInvalid ? (
+          <p className="text-xs text-destructive mt-1" data-testid="text-isbn-invalid">
+            That doesn't look like a valid ISBN - check the digits on the back cover
+          </p>
+        ) : null}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="author">Author</Label>
+          <Input
+            id="author"
+            maxLength={100}
+            value={details.author}
+            onChange={(e) => onChange({ author: e.target.value })}
+            data-testid="input-author"
+          />
+        </div>
+        <div>
+          <Label htmlFor="edition">Edition</Label>
+          <Input
+            id="edition"
+            placeholder="e.g., 14th"
+            maxLength={50}
+            value={details.edition}
+            onChange={(e) => onChange({ edition: e.target.value })}
+            data-testid="input-edition"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="course-code">Course Codes</Label>
+        <div className="flex gap-2">
+          <Input
+            id="course-code"
+            placeholder="e.g., MAT1011"
+            value={courseCodeInput}
+            onChange={(e) => setCourseCodeInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addCourseCode();
+              }
+            }}
+            disabled={details.courseCodes.length >= MAX_COURSE_CODES}
+            data-testid="input-course-code"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={addCourseCode}
+            disabled={details.courseCodes.length >= MAX_COURSE_CODES}
+            data-testid="button-add-course-code"
+          >
+            Add
+          </Button>
+        </div>
+        {details.courseCodes.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {details.courseCodes.map((code) => (
+              <Badge key={code} variant="secondary" className="gap-1" data-testid={`badge-course-code-${code}`}>
+                {code}
+                <button
+                  type="button"
+                  onClick={() => onChange({ courseCodes: details.courseCodes.filter((c) => c !== code) })}
+                  aria-label={`Remove ${code}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
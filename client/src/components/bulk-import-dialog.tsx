@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, CheckCircle, Download, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { BulkImportResult, PublishDraftsResult } from "@shared/schema";
+
+const TEMPLATE_CSV = [
+  "title,description,category,condition,price,location,exchangeable,photos,isbn,author,edition,course_codes,brand,model,warranty,size,uniform_type,sport",
+  '"Thomas\' Calculus","Barely used, no markings",books,excellent,350,a-block,no,maths-front.jpg;maths-back.jpg,978-0134438986,"Joel Hass, Christopher Heil, Maurice D. Weir",14th,MAT1011,,,,,,',
+  '"Casio fx-991ES","Works perfectly",gadgets,good,600,c-block,yes,,,,,,Casio,fx-991ES,none,,,',
+  '"Lab coat","Washed, no stains",uniforms,good,250,b-block,no,,,,,,,,,M,Lab coat,',
+].join("\n");
+
+interface BulkImportDialogProps {
+  children?: React.ReactNode;
+}
+
+export function BulkImportDialog({ children }: BulkImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [result, setResult] = useState<BulkImportResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reset = () => {
+    setCsvFile(null);
+    setZipFile(null);
+    setResult(null);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<BulkImportResult> => {
+      const formData = new FormData();
+      formData.append("csv", csvFile!);
+      if (zipFile) formData.append("photos", zipFile);
+
+      const response = await fetch("/api/items/import", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to import listings");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      toast({
+        title: `${data.created.length} draft${data.created.length !== 1 ? "s" : ""} created`,
+        description: data.errors.length > 0 ? `${data.errors.length} row${data.errors.length !== 1 ? "s" : ""} need fixing` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (itemIds: string[]): Promise<PublishDraftsResult> => {
+      const res = await apiRequest("POST", "/api/items/publish", { itemIds });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      toast({
+        title: `${data.published.length} listing${data.published.length !== 1 ? "s" : ""} published`,
+      });
+      reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to publish drafts",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([TEMPLATE_CSV], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "swaphands-import-template.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const trigger = children || (
+    <Button variant="outline" data-testid="button-bulk-import">
+      <Upload className="h-4 w-4 mr-2" />
+      Import CSV
+    </Button>
+  );
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Listings</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with one listing per row. Valid rows are saved as drafts so you can check them before publishing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                Columns: <span className="font-mono">title, description, category, condition, price, location</span>,
+                plus optional <span className="font-mono">exchangeable</span> (yes/no) and{" "}
+                <span className="font-mono">photos</span> (file names from the zip, separated by ";"). Books can also
+                have <span className="font-mono">isbn, author, edition</span> and{" "}
+                <span className="font-mono">course_codes</span> (separated by ";"). Gadgets and electronics need a{" "}
+                <span className="font-mono">brand</span> (optionally <span className="font-mono">model, warranty</span>),
+                uniforms a <span className="font-mono">size</span> (optionally <span className="font-mono">uniform_type</span>)
+                and sports gear a <span className="font-mono">sport</span>. The location can be a campus location's
+                name or id.
+              </p>
+              <Button variant="link" className="h-auto p-0" onClick={downloadTemplate} data-testid="button-download-template">
+                <Download className="h-3 w-3 mr-1" />
+                Download template
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="import-csv">CSV file</Label>
+              <Input
+                id="import-csv"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+                data-testid="input-import-csv"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="import-photos">Photos zip (optional)</Label>
+              <Input
+                id="import-photos"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => setZipFile(e.target.files?.[0] ?? null)}
+                data-testid="input-import-photos"
+              />
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-import"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!csvFile || importMutation.isPending}
+                data-testid="button-submit-import"
+              >
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="flex items-center gap-2 text-sm">
+              <CheckCircle className="h-4 w-4 text-accent" />
+              {result.created.length} of {result.created.length + result.errors.length} rows saved as drafts
+            </p>
+
+            {result.errors.length > 0 && (
+              <div className="border rounded-md max-h-64 overflow-y-auto" data-testid="import-errors">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="text-left p-2 font-medium w-16">Row</th>
+                      <th className="text-left p-2 font-medium">Listing</th>
+                      <th className="text-left p-2 font-medium">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.errors.map((rowError) => (
+                      <tr key={rowError.row} className="border-t align-top" data-testid={`import-error-row-${rowError.row}`}>
+                        <td className="p-2">{rowError.row}</td>
+                        <td className="p-2">{rowError.title ?? <span className="text-muted-foreground">Untitled</span>}</td>
+                        <td className="p-2">
+                          <ul className="space-y-1">
+                            {rowError.errors.map((message) => (
+                              <li key={message} className="flex items-start gap-1 text-destructive">
+                                <AlertCircle className="h-3 w-3 mt-1 shrink-0" />
+                                {message}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={reset} data-testid="button-import-another">
+                Import Another File
+              </Button>
+              <Button
+                onClick={() => publishMutation.mutate(result.created.map((item) => item.id))}
+                disabled={result.created.length === 0 || publishMutation.isPending}
+                data-testid="button-publish-imported"
+              >
+                {publishMutation.isPending ? "Publishing..." : `Publish ${result.created.length} Draft${result.created.length !== 1 ? "s" : ""}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
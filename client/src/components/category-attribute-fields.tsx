@@ -0,0 +1,51 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { attributeFieldsFor, type ItemAttributes } from "@shared/schema";
+
+interface CategoryAttributeFieldsProps {
+  category: string;
+  attributes: ItemAttributes;
+  onChange: (attributes: ItemAttributes) => void;
+}
+
+// Renders the extra fields defined for the category in CATEGORY_ATTRIBUTES
+export function CategoryAttributeFields({ category, attributes, onChange }: CategoryAttributeFieldsProps) {
+  const fields = attributeFieldsFor(category);
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: string) => onChange({ ...attributes, [key]: value });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-md border p-4" data-testid="section-category-attributes">
+      {fields.map((field) => (
+        <div key={field.key}>
+          <Label htmlFor={`attribute-${field.key}`}>
+            {field.label}{field.required && " *"}
+          </Label>
+          {field.type === "select" ? (
+            <Select value={attributes[field.key] ?? ""} onValueChange={(value) => setValue(field.key, value)}>
+              <SelectTrigger id={`attribute-${field.key}`} data-testid={`select-attribute-${field.key}`}>
+                <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              id={`attribute-${field.key}`}
+              placeholder={field.placeholder}
+              maxLength={field.maxLength}
+              value={attributes[field.key] ?? ""}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              data-testid={`input-attribute-${field.key}`}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
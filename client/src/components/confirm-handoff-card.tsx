@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { KeyRound } from "lucide-react";
+import type { ReservationWithDetails } from "@shared/schema";
+
+interface ConfirmHandoffCardProps {
+  reservation: ReservationWithDetails;
+}
+
+// Shown to the buyer of a reserved item; entering the seller's code completes the sale
+export function ConfirmHandoffCard({ reservation }: ConfirmHandoffCardProps) {
+  const [code, setCode] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/items/${reservation.itemId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/reservations/${reservation.id}/confirm`, { code });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
+      toast({
+        title: "Handoff confirmed",
+        description: "Enjoy your purchase!",
+      });
+      setCode("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not confirm handoff",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/reservations/${reservation.id}/release`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Reservation cancelled",
+        description: "The item is available to others again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel reservation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    confirmMutation.mutate();
+  };
+
+  return (
+    <Card className="border-amber-300" data-testid="card-confirm-handoff">
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-center gap-2 font-semibold">
+          <KeyRound className="h-5 w-5" />
+          Reserved for you
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Held until {new Date(reservation.expiresAt).toLocaleString()}. When you meet {reservation.seller.firstName},
+          ask for the 6-digit handoff code and enter it here to complete the purchase.
+        </p>
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            inputMode="numeric"
+            maxLength={6}
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            className="font-mono tracking-widest"
+            data-testid="input-handoff-code"
+          />
+          <Button type="submit" disabled={code.length !== 6 || confirmMutation.isPending} data-testid="button-confirm-handoff">
+            {confirmMutation.isPending ? "Confirming..." : "Confirm"}
+          </Button>
+        </form>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive"
+          onClick={() => releaseMutation.mutate()}
+          disabled={releaseMutation.isPending}
+          data-testid="button-cancel-reservation"
+        >
+          Cancel reservation
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
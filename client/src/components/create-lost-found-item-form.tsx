@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Upload, X, ImageIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { LocationOptions } from "@/components/location-options";
 import { insertLostFoundItemSchema } from "@shared/schema";
 import { z } from "zod";
 
@@ -35,6 +36,7 @@ export function CreateLostFoundItemForm({ onSuccess }: CreateLostFoundItemFormPr
       description: "",
       category: undefined, // Let the Select handle its own empty state
       foundLocation: "",
+      foundLocationDetails: "",
     },
   });
 
@@ -45,6 +47,7 @@ export function CreateLostFoundItemForm({ onSuccess }: CreateLostFoundItemFormPr
       formData.append("description", data.description);
       formData.append("category", data.category);
       formData.append("foundLocation", data.foundLocation);
+      if (data.foundLocationDetails) formData.append("foundLocationDetails", data.foundLocationDetails);
       
       selectedFiles.forEach((file) => {
         formData.append("photos", file);
@@ -195,15 +198,36 @@ export function CreateLostFoundItemForm({ onSuccess }: CreateLostFoundItemFormPr
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Found Location</FormLabel>
-                <FormControl>
-                  <Input placeholder="e.g., Library, Cafeteria, A Block" {...field} data-testid="input-location" />
-                </FormControl>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-found-location">
+                      <SelectValue placeholder="Select a location" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <LocationOptions />
+                  </SelectContent>
+                </Select>
                 <FormMessage />
               </FormItem>
             )}
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="foundLocationDetails"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Where Exactly (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., 2nd floor, near the water cooler" {...field} data-testid="input-found-location-details" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Photo Upload */}
         <div>
           <FormLabel>Photos (Optional)</FormLabel>
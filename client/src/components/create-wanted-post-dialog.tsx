@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { LocationOptions } from "@/components/location-options";
+import { Megaphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { z } from "zod";
+
+const wantedPostSchema = z.object({
+  title: z.string().trim().min(1, "Say what you're looking for").max(100, "Title too long"),
+  category: z.string().min(1, "Pick a category"),
+  maxBudget: z.string().regex(/^\d*$/, "Budget must be a whole number"),
+  preferredLocation: z.string(),
+  description: z.string().trim().max(500, "Description too long"),
+});
+
+type WantedPostData = z.infer<typeof wantedPostSchema>;
+
+export function CreateWantedPostDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<WantedPostData>({
+    resolver: zodResolver(wantedPostSchema),
+    defaultValues: {
+      title: "",
+      category: "",
+      maxBudget: "",
+      preferredLocation: "any",
+      description: "",
+    },
+  });
+
+  const createWantedPostMutation = useMutation({
+    mutationFn: async (data: WantedPostData) => {
+      const res = await apiRequest("POST", "/api/wanted", {
+        title: data.title,
+        category: data.category,
+        maxBudget: data.maxBudget ? Number(data.maxBudget) : undefined,
+        preferredLocation: data.preferredLocation !== "any" ? data.preferredLocation : undefined,
+        description: data.description || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wanted"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wanted/mine"] });
+      toast({
+        title: "Wanted post created",
+        description: "We'll let you know when someone lists a match.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create wanted post",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: WantedPostData) => {
+    createWantedPostMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button data-testid="button-create-wanted-post">
+          <Megaphone className="h-4 w-4 mr-2" />
+          Post a Request
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>What are you looking for?</DialogTitle>
+          <DialogDescription>
+            Sellers can link their listings to your post, and you'll be notified when a matching item is listed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Item</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Casio fx-991 calculator" {...field} data-testid="input-wanted-title" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-wanted-category">
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="books">Books</SelectItem>
+                        <SelectItem value="gadgets">Gadgets</SelectItem>
+                        <SelectItem value="uniforms">Uniforms</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxBudget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max budget (₹)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" placeholder="Any" {...field} data-testid="input-wanted-budget" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="preferredLocation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preferred location</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-wanted-location">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="any">Anywhere</SelectItem>
+                      <LocationOptions />
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Details (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Edition, model, colour..." {...field} rows={3} data-testid="input-wanted-description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-wanted-post"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createWantedPostMutation.isPending}
+                data-testid="button-submit-wanted-post"
+              >
+                {createWantedPostMutation.isPending ? "Posting..." : "Post Request"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
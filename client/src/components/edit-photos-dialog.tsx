@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronLeft, ChevronRight, Star, Upload, X } from "lucide-react";
+import { MAX_ITEM_PHOTOS, type Item, type WithPhotoUrls } from "@shared/schema";
+
+interface EditPhotosDialogProps {
+  item: WithPhotoUrls<Item>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Either a photo already on the listing or a file picked in this dialog
+type PhotoEntry = { key: string; preview: string; name?: string; file?: File };
+
+export function EditPhotosDialog({ item, open, onOpenChange }: EditPhotosDialogProps) {
+  const [entries, setEntries] = useState<PhotoEntry[]>(() =>
+    (item.photos ?? []).map((name, index) => ({ key: name, preview: item.photoUrls[index].thumb, name }))
+  );
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Free the previews of picked files when the dialog goes away
+  useEffect(() => {
+    return () => {
+      entries.forEach((entry) => entry.file && URL.revokeObjectURL(entry.preview));
+    };
+  }, []);
+
+  const savePhotosMutation = useMutation({
+    mutationFn: async () => {
+      const data = new FormData();
+      const photoOrder = entries.map((entry) => {
+        if (entry.name) return entry.name;
+        data.append("photos", entry.file!);
+        return `new:${data.getAll("photos").length - 1}`;
+      });
+      data.append("photoOrder", JSON.stringify(photoOrder));
+      const res = await apiRequest("PUT", `/api/items/${item.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      toast({
+        title: "Photos updated",
+        description: "Your listing shows the new photos now.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update photos",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddPhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (entries.length + files.length > MAX_ITEM_PHOTOS) {
+      toast({
+        title: "Too many photos",
+        description: `You can upload maximum ${MAX_ITEM_PHOTOS} photos`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setEntries([
+      ...entries,
+      ...files.map((file) => ({ key: `${file.name}-${file.lastModified}-${Math.random()}`, preview: URL.createObjectURL(file), file })),
+    ]);
+  };
+
+  const removeEntry = (index: number) => {
+    const entry = entries[index];
+    if (entry.file) URL.revokeObjectURL(entry.preview);
+    setEntries(entries.filter((_, i) => i !== index));
+  };
+
+  const moveEntry = (from: number, to: number) => {
+    const next = [...entries];
+    const [entry] = next.splice(from, 1);
+    next.splice(to, 0, entry);
+    setEntries(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Photos</DialogTitle>
+          <DialogDescription>
+            Add, remove or reorder the photos for "{item.title}". The first photo is the cover shown in listings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This listing has no photos.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            {entries.map((entry, index) => (
+              <div key={entry.key} className="relative border rounded-md overflow-hidden" data-testid={`edit-photo-${index}`}>
+                <img src={entry.preview} alt={`Photo ${index + 1}`} className="w-full h-24 object-cover" />
+                {index === 0 && (
+                  <span className="absolute top-1 left-1 text-xs px-1.5 py-0.5 rounded bg-primary text-primary-foreground">
+                    Cover
+                  </span>
+                )}
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  className="absolute top-1 right-1 h-6 w-6 rounded-full p-0"
+                  onClick={() => removeEntry(index)}
+                  data-testid={`button-remove-edit-photo-${index}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+                <div className="flex items-center justify-between p-1 bg-muted">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === 0}
+                    onClick={() => moveEntry(index, index - 1)}
+                    data-testid={`button-move-photo-left-${index}`}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1 text-xs"
+                    disabled={index === 0}
+                    onClick={() => moveEntry(index, 0)}
+                    data-testid={`button-make-cover-${index}`}
+                  >
+                    <Star className="h-3 w-3 mr-1" />
+                    Cover
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === entries.length - 1}
+                    onClick={() => moveEntry(index, index + 1)}
+                    data-testid={`button-move-photo-right-${index}`}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-3">
+          <input
+            type="file"
+            multiple
+            accept="image/*"
+            onChange={handleAddPhotos}
+            className="hidden"
+            id="edit-photo-upload"
+            data-testid="input-edit-photos"
+          />
+          <Button type="button" variant="outline" disabled={entries.length >= MAX_ITEM_PHOTOS} asChild>
+            <label htmlFor="edit-photo-upload" className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Add Photos
+            </label>
+          </Button>
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-cancel-edit-photos"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => savePhotosMutation.mutate()}
+              disabled={savePhotosMutation.isPending}
+              data-testid="button-save-photos"
+            >
+              {savePhotosMutation.isPending ? "Saving..." : "Save Photos"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Gift } from "lucide-react";
+import type { GiveawayQueue, Item } from "@shared/schema";
+
+interface GiveawayQueueCardProps {
+  item: Item;
+  isOwner: boolean;
+}
+
+function formatDeadline(date: Date | string | null) {
+  return date ? new Date(date).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" }) : "";
+}
+
+// Queue for a free item: students join in order, and the giver (or the queue itself) offers it to one of them
+export function GiveawayQueueCard({ item, isOwner }: GiveawayQueueCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/items/${item.id}/giveaway`];
+
+  const { data: giveaway } = useQuery<GiveawayQueue>({
+    queryKey,
+    // Offers move on in the background, so don't trust a cached queue
+    refetchOnMount: "always",
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/items/${item.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/items/${item.id}/giveaway/queue`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "You're in the queue",
+        description: "We'll notify you when it's your turn.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to join queue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/items/${item.id}/giveaway/queue`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "You left the queue" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to leave queue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: async (claimId: string) => {
+      await apiRequest("POST", `/api/giveaway-claims/${claimId}/offer`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Item offered",
+        description: "They've been notified and have a day to accept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to offer item",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ claimId, accept }: { claimId: string; accept: boolean }) => {
+      await apiRequest("POST", `/api/giveaway-claims/${claimId}/${accept ? "accept" : "decline"}`);
+    },
+    onSuccess: (_data, { accept }) => {
+      invalidate();
+      toast({
+        title: accept ? "It's yours!" : "Offer declined",
+        description: accept ? "Meet the giver and enter their handoff code to collect it." : "It will go to someone else in the queue.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to respond",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!giveaway) return null;
+
+  const myClaim = giveaway.myClaim;
+  const isOpen = item.status === "active" || item.status === "reserved";
+  const someoneOffered = giveaway.queue?.some((claim) => claim.status === "offered") ?? false;
+
+  return (
+    <Card className="border-green-300" data-testid="card-giveaway-queue">
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 font-semibold">
+            <Gift className="h-5 w-5" />
+            Free giveaway
+          </div>
+          <span className="text-sm text-muted-foreground" data-testid="text-giveaway-queue-length">
+            {giveaway.queueLength} in queue
+          </span>
+        </div>
+
+        {isOwner ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {item.giveawayAutoOffer
+                ? "The first person in line is offered the item automatically, and it moves on if they don't accept in time."
+                : "Pick who gets it. If they don't accept in time, you can offer it to someone else."}
+            </p>
+            {giveaway.queue && giveaway.queue.length > 0 ? (
+              <div className="space-y-2">
+                {giveaway.queue.map((claim, index) => (
+                  <div key={claim.id} className="flex items-center justify-between text-sm" data-testid={`giveaway-claim-${claim.id}`}>
+                    <span>
+                      {index + 1}. {claim.user.firstName} {claim.user.lastName}
+                    </span>
+                    {claim.status === "offered" ? (
+                      <Badge variant="outline">Offered until {formatDeadline(claim.offerExpiresAt)}</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => offerMutation.mutate(claim.id)}
+                        disabled={item.status !== "active" || someoneOffered || offerMutation.isPending}
+                        data-testid={`button-offer-giveaway-${claim.id}`}
+                      >
+                        Offer
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nobody has joined the queue yet.</p>
+            )}
+          </>
+        ) : !myClaim ? (
+          isOpen ? (
+            <Button
+              className="w-full"
+              onClick={() => joinMutation.mutate()}
+              disabled={joinMutation.isPending}
+              data-testid="button-join-giveaway-queue"
+            >
+              Join the Queue
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">This giveaway has ended.</p>
+          )
+        ) : myClaim.status === "offered" ? (
+          <>
+            <p className="text-sm font-medium" data-testid="text-giveaway-offered">
+              It's your turn! Accept by {formatDeadline(myClaim.offerExpiresAt)} or it goes to the next person.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                onClick={() => respondMutation.mutate({ claimId: myClaim.id, accept: true })}
+                disabled={respondMutation.isPending}
+                data-testid="button-accept-giveaway"
+              >
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => respondMutation.mutate({ claimId: myClaim.id, accept: false })}
+                disabled={respondMutation.isPending}
+                data-testid="button-decline-giveaway"
+              >
+                Decline
+              </Button>
+            </div>
+          </>
+        ) : myClaim.status === "waiting" ? (
+          <>
+            <p className="text-sm" data-testid="text-giveaway-position">
+              You're #{giveaway.myPosition} in line. We'll notify you when it's your turn.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => leaveMutation.mutate()}
+              disabled={leaveMutation.isPending}
+              data-testid="button-leave-giveaway-queue"
+            >
+              Leave Queue
+            </Button>
+          </>
+        ) : myClaim.status === "accepted" ? (
+          <p className="text-sm">You accepted this item. Meet the giver to collect it.</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">You've had your turn for this item.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
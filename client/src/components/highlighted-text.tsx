@@ -0,0 +1,23 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders server search highlights (<mark>...</mark>) without trusting the rest of the string as HTML
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.startsWith("<mark>") && part.endsWith("</mark>") ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
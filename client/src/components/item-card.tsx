@@ -1,22 +1,27 @@
 import { useState } from "react";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
 import { apiRequest } from "@/lib/queryClient";
 import { Heart, Package, User } from "lucide-react";
 import { SendMessageDialog } from "@/components/send-message-dialog";
+import { HighlightedText } from "@/components/highlighted-text";
+import { StarRating } from "@/components/star-rating";
 import { fadeInUp, cardHover } from "@/lib/motion";
-import type { Item, User as UserType } from "@shared/schema";
+import type { ItemSearchResult, User as UserType, WithPhotoUrls } from "@shared/schema";
 
 interface ItemCardProps {
-  item: Item;
+  item: WithPhotoUrls<ItemSearchResult>;
   showSeller?: boolean;
 }
 
 export function ItemCard({ item, showSeller = false }: ItemCardProps) {
   const { toast } = useToast();
+  const { formatLocation } = useLocations();
   const queryClient = useQueryClient();
   const [isWishlisted, setIsWishlisted] = useState(false);
   
@@ -49,13 +54,6 @@ export function ItemCard({ item, showSeller = false }: ItemCardProps) {
     },
   });
 
-  const formatLocation = (location: string | null) => {
-    if (!location) return "";
-    return location.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join('-');
-  };
-
   const formatCategory = (category: string | null) => {
     if (!category) return "";
     return category.charAt(0).toUpperCase() + category.slice(1);
@@ -96,11 +94,11 @@ export function ItemCard({ item, showSeller = false }: ItemCardProps) {
         <Card className="overflow-hidden cursor-pointer border-2 border-transparent hover:border-blue-500/20 transition-colors duration-300 bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800" data-testid={`item-card-${item.id}`}>
           <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-purple-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none" />
           
-          <div className="relative">
-            {item.photos && item.photos.length > 0 ? (
+          <Link href={`/items/${item.id}`} className="block relative" data-testid={`link-item-${item.id}`}>
+            {item.photoUrls.length > 0 ? (
               <div className="relative overflow-hidden">
                 <motion.img
-                  src={`/uploads/${item.photos[0]}`}
+                  src={item.photoUrls[0].thumb}
                   alt={item.title ?? ''}
                   className="w-full h-40 sm:h-48 object-cover"
                   whileHover={{ scale: 1.08 }}
@@ -128,7 +126,7 @@ export function ItemCard({ item, showSeller = false }: ItemCardProps) {
                 </motion.div>
               </div>
             )}
-          </div>
+          </Link>
       
           <CardContent className="p-4 relative">
             <div className="flex items-center justify-between mb-2">
@@ -165,12 +163,22 @@ export function ItemCard({ item, showSeller = false }: ItemCardProps) {
               </motion.div>
             </div>
             
-            <h4 className="font-semibold text-sm mb-1 line-clamp-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors" data-testid={`text-item-title-${item.id}`}>
-              {item.title ?? 'Untitled'}
-            </h4>
+            <Link href={`/items/${item.id}`}>
+              <h4 className="font-semibold text-sm mb-1 line-clamp-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors" data-testid={`text-item-title-${item.id}`}>
+                {item.highlights?.title ? (
+                  <HighlightedText text={item.highlights.title} />
+                ) : (
+                  item.title ?? 'Untitled'
+                )}
+              </h4>
+            </Link>
             
             <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
-              {item.description ?? 'No description available'}
+              {item.highlights?.description ? (
+                <HighlightedText text={item.highlights.description} />
+              ) : (
+                item.description ?? 'No description available'
+              )}
             </p>
             
             <div className="flex items-center justify-between mb-3">
@@ -179,7 +187,7 @@ export function ItemCard({ item, showSeller = false }: ItemCardProps) {
                 className="relative"
               >
                 <span className="text-lg font-bold bg-gradient-to-r from-blue-600 to-purple-600 dark:from-blue-400 dark:to-purple-400 bg-clip-text text-transparent" data-testid={`text-item-price-${item.id}`}>
-                  ₹{item.price !== null ? item.price.toLocaleString() : "N/A"}
+                  {item.isGiveaway ? "Free" : `₹${item.price !== null ? item.price.toLocaleString() : "N/A"}`}
                 </span>
                 <motion.div
                   className="absolute -inset-1 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded blur-sm -z-10"
@@ -192,6 +200,19 @@ export function ItemCard({ item, showSeller = false }: ItemCardProps) {
                 {formatLocation(item.location ?? null)}
               </span>
             </div>
+
+            {item.isAuction && item.auctionEndsAt && (
+              <p className="text-xs text-muted-foreground mb-2" data-testid={`text-item-auction-${item.id}`}>
+                Auction · bidding ends {new Date(item.auctionEndsAt).toLocaleDateString(undefined, { day: "numeric", month: "short" })}
+              </p>
+            )}
+
+            {item.sellerRating && item.sellerRating.count > 0 && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <span>Seller</span>
+                <StarRating rating={item.sellerRating} />
+              </div>
+            )}
             
             <div className="mt-3 pt-3 border-t border-border/50">
               <SendMessageDialog 
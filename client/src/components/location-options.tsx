@@ -0,0 +1,27 @@
+import { SelectGroup, SelectItem, SelectLabel } from "@/components/ui/select";
+import { useLocations } from "@/hooks/use-locations";
+import type { Location } from "@shared/schema";
+
+// Select items for every location that can still be picked, grouped in display order
+export function LocationOptions() {
+  const { locations } = useLocations();
+
+  const groups = new Map<string, Location[]>();
+  for (const location of locations) {
+    if (!location.isActive) continue;
+    groups.set(location.group, [...(groups.get(location.group) ?? []), location]);
+  }
+
+  return (
+    <>
+      {Array.from(groups, ([group, members]) => (
+        <SelectGroup key={group}>
+          <SelectLabel>{group}</SelectLabel>
+          {members.map((location) => (
+            <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+          ))}
+        </SelectGroup>
+      ))}
+    </>
+  );
+}
@@ -7,10 +7,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { MapPin, Calendar, CheckCircle, Clock, User, Phone } from "lucide-react";
 import { ClaimLostFoundItemForm } from "@/components/claim-lost-found-item-form";
 import { ManageClaimsDialog } from "@/components/manage-claims-dialog";
-import type { LostFoundItem, User as UserType, LostFoundClaim } from "@shared/schema";
+import { useLocations } from "@/hooks/use-locations";
+import type { LostFoundItem, User as UserType, LostFoundClaimWithProofUrls, WithPhotoUrls } from "@shared/schema";
 
 interface LostFoundItemDetailsProps {
-  item: LostFoundItem;
+  item: WithPhotoUrls<LostFoundItem>;
   currentUser?: UserType;
 }
 
@@ -18,15 +19,16 @@ export function LostFoundItemDetails({ item, currentUser }: LostFoundItemDetails
   const [showClaimForm, setShowClaimForm] = useState(false);
   const [showManageClaims, setShowManageClaims] = useState(false);
   const queryClient = useQueryClient();
+  const { formatLocation } = useLocations();
 
   // Fix: Explicitly define the return type for claims
-  const { data: claims = [] } = useQuery<LostFoundClaim[]>({
+  const { data: claims = [] } = useQuery<LostFoundClaimWithProofUrls[]>({
     queryKey: ["/api/lost-found-claims", { lostFoundItemId: item.id }],
     enabled: currentUser?.role === "admin",
   });
 
   // Check if current user has already submitted a claim
-  const { data: userClaims = [] } = useQuery<LostFoundClaim[]>({
+  const { data: userClaims = [] } = useQuery<LostFoundClaimWithProofUrls[]>({
     queryKey: ["/api/lost-found-claims", { lostFoundItemId: item.id, claimantId: currentUser?.id }],
     enabled: !!currentUser && currentUser.role === "student",
   });
@@ -64,7 +66,9 @@ export function LostFoundItemDetails({ item, currentUser }: LostFoundItemDetails
             <span data-testid="text-item-category">{item.category}</span>
             <span>•</span>
             <MapPin className="w-4 h-4" />
-            <span data-testid="text-item-location">{item.foundLocation}</span>
+            <span data-testid="text-item-location">
+              {[formatLocation(item.foundLocation), item.foundLocationDetails].filter(Boolean).join(" · ")}
+            </span>
           </div>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Calendar className="w-4 h-4" />
@@ -89,14 +93,14 @@ export function LostFoundItemDetails({ item, currentUser }: LostFoundItemDetails
       </div>
 
       {/* Photos */}
-      {item.photos && item.photos.length > 0 && (
+      {item.photoUrls.length > 0 && (
         <div className="space-y-3">
           <h3 className="font-semibold">Photos</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {item.photos.map((photo, index) => (
+            {item.photoUrls.map((photo, index) => (
               <img
                 key={index}
-                src={`/uploads/${photo}`}
+                src={photo.medium}
                 alt={`${item.title} photo ${index + 1}`}
                 className="w-full h-64 object-cover rounded-lg"
                 data-testid={`img-item-photo-${index}`}
@@ -9,17 +9,17 @@ import { Separator } from "@/components/ui/separator";
 import { Check, X, User, Calendar, FileIcon, MessageCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { LostFoundItem, LostFoundClaim } from "@shared/schema";
+import type { LostFoundItem, LostFoundClaimWithProofUrls } from "@shared/schema";
 
 interface ManageClaimsDialogProps {
   item: LostFoundItem;
-  claims: LostFoundClaim[];
+  claims: LostFoundClaimWithProofUrls[];
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
 export function ManageClaimsDialog({ item, claims, isOpen, onOpenChange }: ManageClaimsDialogProps) {
-  const [selectedClaim, setSelectedClaim] = useState<LostFoundClaim | null>(null);
+  const [selectedClaim, setSelectedClaim] = useState<LostFoundClaimWithProofUrls | null>(null);
   const [adminNotes, setAdminNotes] = useState("");
   const [actionType, setActionType] = useState<"approve" | "reject" | null>(null);
   const { toast } = useToast();
@@ -75,7 +75,7 @@ export function ManageClaimsDialog({ item, claims, isOpen, onOpenChange }: Manag
     }
   };
 
-  const handleClaimAction = (claim: LostFoundClaim, action: "approve" | "reject") => {
+  const handleClaimAction = (claim: LostFoundClaimWithProofUrls, action: "approve" | "reject") => {
     setSelectedClaim(claim);
     setActionType(action);
     setAdminNotes("");
@@ -163,10 +163,10 @@ export function ManageClaimsDialog({ item, claims, isOpen, onOpenChange }: Manag
                       <div>
                         <h4 className="font-medium mb-2">Proof Files</h4>
                         <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                          {claim.proofFiles.map((file, index) => (
+                          {claim.proofFileUrls.map((file, index) => (
                             <a
                               key={index}
-                              href={`/uploads/${file}`}
+                              href={file.full}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="flex items-center gap-2 p-2 text-sm bg-muted rounded hover:bg-muted/80 transition-colors"
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useLocations } from "@/hooks/use-locations";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Pencil, Trash } from "lucide-react";
+import type { InsertLocation, Location } from "@shared/schema";
+
+type LocationForm = { name: string; group: string; displayOrder: string };
+
+const emptyForm: LocationForm = { name: "", group: "", displayOrder: "0" };
+
+const toPayload = (form: LocationForm) => ({
+  name: form.name.trim(),
+  group: form.group.trim(),
+  displayOrder: Number(form.displayOrder) || 0,
+});
+
+// Locations sellers, students and lost-found posts pick from; retiring one hides it from pickers but keeps older listings intact
+export function ManageLocationsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { locations } = useLocations();
+  const [newLocation, setNewLocation] = useState<LocationForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<LocationForm>(emptyForm);
+
+  const groups = Array.from(new Set(locations.map((location) => location.group)));
+
+  const addMutation = useMutation({
+    mutationFn: async (form: LocationForm) => {
+      const res = await apiRequest("POST", "/api/admin/locations", toPayload(form));
+      return res.json();
+    },
+    onSuccess: (location: Location) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setNewLocation({ ...emptyForm, group: location.group });
+      toast({
+        title: "Location added",
+        description: `${location.name} can now be picked on listings`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertLocation> }) => {
+      const res = await apiRequest("PUT", `/api/admin/locations/${id}`, updates);
+      return res.json();
+    },
+    onSuccess: (location: Location) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setEditingId(null);
+      toast({ title: "Location updated", description: location.name });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({ title: "Location deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (location: Location) => {
+    setEditingId(location.id);
+    setEditForm({ name: location.name, group: location.group, displayOrder: String(location.displayOrder) });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLocation.name.trim() || !newLocation.group.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Give the location a name and a group",
+        variant: "destructive",
+      });
+      return;
+    }
+    addMutation.mutate(newLocation);
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="border-b border-border">
+        <CardTitle>Campus Locations</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-2 p-4 border-b border-border">
+          <Input
+            placeholder="Name, e.g. Day Scholar Gate"
+            value={newLocation.name}
+            onChange={(e) => setNewLocation({ ...newLocation, name: e.target.value })}
+            data-testid="input-new-location-name"
+          />
+          <Input
+            placeholder="Group, e.g. Hostels"
+            list="location-groups"
+            value={newLocation.group}
+            onChange={(e) => setNewLocation({ ...newLocation, group: e.target.value })}
+            data-testid="input-new-location-group"
+          />
+          <Input
+            type="number"
+            min="0"
+            className="md:w-24"
+            aria-label="Display order"
+            value={newLocation.displayOrder}
+            onChange={(e) => setNewLocation({ ...newLocation, displayOrder: e.target.value })}
+            data-testid="input-new-location-order"
+          />
+          <Button type="submit" disabled={addMutation.isPending} data-testid="button-add-location">
+            Add
+          </Button>
+          <datalist id="location-groups">
+            {groups.map((group) => <option key={group} value={group} />)}
+          </datalist>
+        </form>
+
+        {locations.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-4">No locations yet. Add one so students can list items.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="text-left p-4 text-sm font-medium">Name</th>
+                  <th className="text-left p-4 text-sm font-medium">Group</th>
+                  <th className="text-left p-4 text-sm font-medium">Order</th>
+                  <th className="text-left p-4 text-sm font-medium">Status</th>
+                  <th className="text-left p-4 text-sm font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {locations.map((location) => (
+                  editingId === location.id ? (
+                    <tr key={location.id} className="border-b border-border" data-testid={`row-location-${location.id}`}>
+                      <td className="p-2">
+                        <Input
+                          value={editForm.name}
+                          onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                          data-testid={`input-location-name-${location.id}`}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          list="location-groups"
+                          value={editForm.group}
+                          onChange={(e) => setEditForm({ ...editForm, group: e.target.value })}
+                          data-testid={`input-location-group-${location.id}`}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-20"
+                          value={editForm.displayOrder}
+                          onChange={(e) => setEditForm({ ...editForm, displayOrder: e.target.value })}
+                          data-testid={`input-location-order-${location.id}`}
+                        />
+                      </td>
+                      <td className="p-2" />
+                      <td className="p-2">
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            size="sm"
+                            disabled={updateMutation.isPending}
+                            onClick={() => updateMutation.mutate({ id: location.id, updates: toPayload(editForm) })}
+                            data-testid={`button-save-location-${location.id}`}
+                          >
+                            Save
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={location.id} className="border-b border-border" data-testid={`row-location-${location.id}`}>
+                      <td className="p-4 font-medium">
+                        {location.name}
+                        <span className="block text-xs text-muted-foreground font-mono">{location.id}</span>
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">{location.group}</td>
+                      <td className="p-4 text-sm text-muted-foreground">{location.displayOrder}</td>
+                      <td className="p-4">
+                        <Badge variant={location.isActive ? "secondary" : "outline"}>
+                          {location.isActive ? "Active" : "Retired"}
+                        </Badge>
+                      </td>
+                      <td className="p-4">
+                        <div className="flex items-center space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => startEditing(location)} data-testid={`button-edit-location-${location.id}`}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={updateMutation.isPending}
+                            onClick={() => updateMutation.mutate({ id: location.id, updates: { isActive: !location.isActive } })}
+                            data-testid={`button-toggle-location-${location.id}`}
+                          >
+                            {location.isActive ? "Retire" : "Restore"}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Delete ${location.name}?`)) {
+                                deleteMutation.mutate(location.id);
+                              }
+                            }}
+                            data-testid={`button-delete-location-${location.id}`}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { reportReasonLabels } from "@/components/report-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Ban, Check, EyeOff } from "lucide-react";
+import type { ModerationDecision, ReportWithDetails } from "@shared/schema";
+
+type ModerationAction = ModerationDecision["action"];
+
+const actionLabels: Record<ModerationAction, string> = {
+  dismiss: "Dismissed",
+  hide_listing: "Listing hidden",
+  warn: "User warned",
+  suspend: "User suspended",
+};
+
+export function ModerationQueueCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<"pending" | "closed">("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: reports = [], isLoading } = useQuery<ReportWithDetails[]>({
+    queryKey: [`/api/admin/reports?status=${view}`],
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ reportId, action }: { reportId: string; action: ModerationAction }) => {
+      const res = await apiRequest("POST", `/api/admin/reports/${reportId}/decision`, {
+        action,
+        note: notes[reportId]?.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports?status=pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports?status=closed"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      if (action === "suspend") {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      }
+      toast({
+        title: actionLabels[action],
+        description: "The decision has been recorded on the report.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to record decision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const decide = (report: ReportWithDetails, action: ModerationAction) => {
+    if (action === "suspend" && !confirm(`Suspend ${report.reportedUser.firstName} ${report.reportedUser.lastName}?`)) {
+      return;
+    }
+    decisionMutation.mutate({ reportId: report.id, action });
+  };
+
+  const renderTarget = (report: ReportWithDetails) => {
+    if (report.targetType === "message" && report.message) {
+      return (
+        <p className="text-sm bg-muted rounded p-2 whitespace-pre-wrap">"{report.message.content}"</p>
+      );
+    }
+    if (report.targetType === "item" && report.item) {
+      return (
+        <p className="text-sm">
+          Listing:{" "}
+          <Link href={`/items/${report.item.id}`} className="font-medium underline">
+            {report.item.title}
+          </Link>
+          {report.item.status === "hidden" && <span className="text-muted-foreground"> (hidden)</span>}
+        </p>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="border-b border-border">
+        <div className="flex items-center justify-between">
+          <CardTitle>Moderation Queue</CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant={view === "pending" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("pending")}
+              data-testid="button-reports-pending"
+            >
+              Open
+            </Button>
+            <Button
+              variant={view === "closed" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("closed")}
+              data-testid="button-reports-closed"
+            >
+              Resolved
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground p-4">Loading reports...</p>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-4">
+            {view === "pending" ? "No open reports." : "No resolved reports yet."}
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {reports.map((report) => (
+              <div key={report.id} className="p-4 space-y-2" data-testid={`report-${report.id}`}>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline" className="capitalize">{report.targetType}</Badge>
+                  <Badge variant="destructive">{reportReasonLabels[report.reason]}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(report.createdAt).toLocaleString()}
+                  </span>
+                </div>
+
+                <p className="text-sm">
+                  <span className="font-medium">{report.reporter.firstName} {report.reporter.lastName}</span>
+                  {" reported "}
+                  <span className="font-medium">{report.reportedUser.firstName} {report.reportedUser.lastName}</span>
+                  <span className="text-muted-foreground"> ({report.reportedUser.email})</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {report.reportedUser.warningCount} previous warning{report.reportedUser.warningCount !== 1 ? "s" : ""}
+                  {report.reportedUser.isSuspended && " · suspended"}
+                </p>
+
+                {renderTarget(report)}
+                {report.details && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{report.details}</p>}
+
+                {report.status === "pending" ? (
+                  <div className="flex items-center gap-2 flex-wrap pt-1">
+                    <Input
+                      placeholder="Note (optional, sent with warnings)"
+                      className="max-w-xs h-8"
+                      value={notes[report.id] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [report.id]: e.target.value })}
+                      data-testid={`input-report-note-${report.id}`}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={decisionMutation.isPending}
+                      onClick={() => decide(report, "dismiss")}
+                      data-testid={`button-dismiss-report-${report.id}`}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Dismiss
+                    </Button>
+                    {report.targetType === "item" && report.item?.status !== "hidden" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={decisionMutation.isPending}
+                        onClick={() => decide(report, "hide_listing")}
+                        data-testid={`button-hide-listing-${report.id}`}
+                      >
+                        <EyeOff className="h-4 w-4 mr-1" />
+                        Hide Listing
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={decisionMutation.isPending}
+                      onClick={() => decide(report, "warn")}
+                      data-testid={`button-warn-user-${report.id}`}
+                    >
+                      <AlertTriangle className="h-4 w-4 mr-1" />
+                      Warn
+                    </Button>
+                    {!report.reportedUser.isSuspended && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={decisionMutation.isPending}
+                        onClick={() => decide(report, "suspend")}
+                        data-testid={`button-suspend-report-${report.id}`}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Suspend
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  report.decisions.map((decision) => (
+                    <p key={decision.id} className="text-sm" data-testid={`decision-${decision.id}`}>
+                      <span className="font-medium">{actionLabels[decision.action]}</span>
+                      <span className="text-muted-foreground"> on {new Date(decision.createdAt).toLocaleString()}</span>
+                      {decision.note && <span className="text-muted-foreground"> - {decision.note}</span>}
+                    </p>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
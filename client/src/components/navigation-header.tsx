@@ -2,8 +2,9 @@ import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
-import { ArrowRightLeft, Home, Search, Plus, Heart, Bell, User, Package, Shield, LogOut, Sun, Moon, HelpingHand, MessageCircle } from "lucide-react";
+import { ArrowRightLeft, Home, Search, Plus, Heart, User, Package, Shield, LogOut, Sun, Moon, HelpingHand, MessageCircle, Megaphone } from "lucide-react";
 import { useTheme } from "@/components/theme-provider";
+import { NotificationsMenu } from "@/components/notifications-menu";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,6 +35,7 @@ export function NavigationHeader() {
     { href: "/browse", label: "Browse", icon: Search },
     { href: "/sell", label: "Sell Item", icon: Plus },
     { href: "/wishlist", label: "Wishlist", icon: Heart },
+    { href: "/wanted", label: "Wanted", icon: Megaphone },
     { href: "/lost-found", label: "Lost & Found", icon: HelpingHand },
     { href: "/messages", label: "Messages", icon: MessageCircle },
   ];
@@ -82,10 +84,7 @@ export function NavigationHeader() {
             >
               {theme === "light" ? <Moon className="h-4 w-4" /> : <Sun className="h-4 w-4" />}
             </Button>
-            <Button variant="ghost" size="sm" className="relative" data-testid="button-notifications">
-              <Bell className="h-4 w-4" />
-              <span className="absolute -top-1 -right-1 w-3 h-3 bg-accent rounded-full"></span>
-            </Button>
+            <NotificationsMenu />
             
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { IndianRupee } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Item } from "@shared/schema";
+import { z } from "zod";
+
+const offerSchema = z.object({
+  amount: z.coerce.number().int("Offer must be a whole number").min(1, "Offer must be at least ₹1"),
+  message: z.string().trim().max(500, "Message too long").optional(),
+});
+
+type OfferData = z.infer<typeof offerSchema>;
+
+interface OfferDialogProps {
+  item: Item;
+  counterOfferId?: string; // Set when responding to an existing offer with a new price
+  children?: React.ReactNode;
+}
+
+export function OfferDialog({ item, counterOfferId, children }: OfferDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isCounter = !!counterOfferId;
+
+  const form = useForm<OfferData>({
+    resolver: zodResolver(offerSchema),
+    defaultValues: {
+      amount: item.price ?? 0,
+      message: "",
+    },
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: async (data: OfferData) => {
+      const body = { amount: data.amount, message: data.message || undefined };
+      const res = isCounter
+        ? await apiRequest("PUT", `/api/offers/${counterOfferId}/counter`, body)
+        : await apiRequest("POST", `/api/items/${item.id}/offers`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+      toast({
+        title: isCounter ? "Counter-offer sent" : "Offer sent",
+        description: "We'll notify you when they respond.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: isCounter ? "Failed to send counter-offer" : "Failed to send offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: OfferData) => {
+    offerMutation.mutate(data);
+  };
+
+  const trigger = children || (
+    <Button variant="outline" size="sm" data-testid={`button-make-offer-${item.id}`}>
+      <IndianRupee className="w-4 h-4 mr-1" />
+      {isCounter ? "Counter" : "Make Offer"}
+    </Button>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isCounter ? "Counter-offer" : "Make an Offer"}</DialogTitle>
+          <DialogDescription>
+            {item.title}{item.price !== null ? ` is listed at ₹${item.price.toLocaleString()}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Your price (₹)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} step={1} {...field} data-testid="input-offer-amount" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="e.g. Can pick it up today from A-Block"
+                      {...field}
+                      rows={3}
+                      data-testid="input-offer-message"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-offer"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={offerMutation.isPending}
+                data-testid="button-submit-offer"
+              >
+                {offerMutation.isPending ? "Sending..." : isCounter ? "Send Counter" : "Send Offer"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { OfferDialog } from "@/components/offer-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Check, X, Undo2 } from "lucide-react";
+import type { Item, OfferWithDetails } from "@shared/schema";
+
+interface OfferThreadProps {
+  item: Item;
+  offers: OfferWithDetails[]; // One buyer's offers on the item, oldest first
+  currentUserId: string;
+  buyerId: string;
+}
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  declined: "destructive",
+  countered: "outline",
+  withdrawn: "outline",
+};
+
+export function OfferThread({ item, offers, currentUserId, buyerId }: OfferThreadProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ offerId, action }: { offerId: string; action: "accept" | "decline" | "withdraw" }) => {
+      const res = await apiRequest("PUT", `/api/offers/${offerId}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+      if (action === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      }
+      toast({
+        title: action === "accept" ? "Offer accepted" : action === "decline" ? "Offer declined" : "Offer withdrawn",
+        description: action === "accept" ? "The item is now reserved for this buyer." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const latest = offers[offers.length - 1];
+  const isBuyer = currentUserId === buyerId;
+  const canRespond = latest?.status === "pending" && latest.senderId !== currentUserId;
+  const canWithdraw = latest?.status === "pending" && latest.senderId === currentUserId;
+  const canMakeOffer = isBuyer && item.status === "active" && latest?.status !== "pending";
+
+  const senderLabel = (offer: OfferWithDetails) => {
+    if (offer.senderId === currentUserId) return "You";
+    return offer.senderId === offer.buyerId ? offer.buyer.firstName : offer.seller.firstName;
+  };
+
+  if (offers.length === 0 && !canMakeOffer) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-md p-3 space-y-3" data-testid={`offer-thread-${item.id}-${buyerId}`}>
+      {offers.length > 0 && (
+        <div className="space-y-2">
+          {offers.map((offer) => (
+            <div key={offer.id} className="flex items-start justify-between gap-3 text-sm" data-testid={`offer-${offer.id}`}>
+              <div>
+                <span className="font-medium">
+                  {senderLabel(offer)} {offer.senderId === offer.buyerId ? "offered" : "countered with"} ₹{offer.amount.toLocaleString()}
+                </span>
+                {offer.message && (
+                  <p className="text-muted-foreground whitespace-pre-wrap">{offer.message}</p>
+                )}
+              </div>
+              <Badge variant={statusVariants[offer.status]} className="capitalize shrink-0">
+                {offer.status}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {latest?.status === "accepted" && (
+        <p className="text-sm text-muted-foreground">
+          {isBuyer ? "The seller accepted - this item is reserved for you." : `Reserved for ${latest.buyer.firstName}.`}
+        </p>
+      )}
+
+      {(canRespond || canWithdraw || canMakeOffer) && (
+        <div className="flex flex-wrap gap-2">
+          {canRespond && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => respondMutation.mutate({ offerId: latest.id, action: "accept" })}
+                disabled={respondMutation.isPending}
+                data-testid={`button-accept-offer-${latest.id}`}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Accept
+              </Button>
+              <OfferDialog item={item} counterOfferId={latest.id} />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => respondMutation.mutate({ offerId: latest.id, action: "decline" })}
+                disabled={respondMutation.isPending}
+                data-testid={`button-decline-offer-${latest.id}`}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Decline
+              </Button>
+            </>
+          )}
+          {canWithdraw && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => respondMutation.mutate({ offerId: latest.id, action: "withdraw" })}
+              disabled={respondMutation.isPending}
+              data-testid={`button-withdraw-offer-${latest.id}`}
+            >
+              <Undo2 className="w-4 h-4 mr-1" />
+              Withdraw
+            </Button>
+          )}
+          {canMakeOffer && <OfferDialog item={item} />}
+        </div>
+      )}
+    </div>
+  );
+}
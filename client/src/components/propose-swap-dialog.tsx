@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeftRight, Package } from "lucide-react";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_SWAP_ITEMS, type Item, type ItemPage, type WithPhotoUrls } from "@shared/schema";
+import { z } from "zod";
+
+const swapSchema = z.object({
+  offeredItemIds: z.array(z.string())
+    .min(1, "Pick at least one of your items to offer")
+    .max(MAX_SWAP_ITEMS, `You can offer up to ${MAX_SWAP_ITEMS} items`),
+  message: z.string().trim().max(500, "Message too long").optional(),
+});
+
+type SwapData = z.infer<typeof swapSchema>;
+
+interface ProposeSwapDialogProps {
+  item: Item;
+  children?: React.ReactNode;
+}
+
+export function ProposeSwapDialog({ item, children }: ProposeSwapDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The proposer's own live listings are what they can trade
+  const { data: myItems, isLoading } = useQuery<ItemPage<WithPhotoUrls<Item>>>({
+    queryKey: ["/api/my-items", "swappable"],
+    queryFn: async () => {
+      const res = await fetch("/api/my-items?status=active&limit=100");
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+
+  const form = useForm<SwapData>({
+    resolver: zodResolver(swapSchema),
+    defaultValues: {
+      offeredItemIds: [],
+      message: "",
+    },
+  });
+
+  const proposeSwapMutation = useMutation({
+    mutationFn: async (data: SwapData) => {
+      const res = await apiRequest("POST", `/api/items/${item.id}/swaps`, {
+        offeredItemIds: data.offeredItemIds,
+        message: data.message || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swaps"] });
+      toast({
+        title: "Swap proposed",
+        description: "The seller can review it from their My Items page.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to propose swap",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: SwapData) => {
+    proposeSwapMutation.mutate(data);
+  };
+
+  const trigger = children || (
+    <Button variant="outline" size="sm" data-testid={`button-propose-swap-${item.id}`}>
+      <ArrowLeftRight className="w-4 h-4 mr-1" />
+      Propose Swap
+    </Button>
+  );
+
+  const swappableItems = myItems?.items ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Propose a Swap</DialogTitle>
+          <DialogDescription>
+            Offer one or more of your listings in exchange for "{item.title}"
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="offeredItemIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Your items</FormLabel>
+                  {isLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading your listings...</p>
+                  ) : swappableItems.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      You have no active listings to offer. <Link href="/sell" className="underline">List an item</Link> first.
+                    </p>
+                  ) : (
+                    <div className="max-h-60 overflow-y-auto space-y-2">
+                      {swappableItems.map((myItem) => (
+                        <label
+                          key={myItem.id}
+                          className="flex items-center gap-3 border rounded-md p-2 cursor-pointer hover:bg-muted/50"
+                          data-testid={`swap-option-${myItem.id}`}
+                        >
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value.includes(myItem.id)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked
+                                  ? [...field.value, myItem.id]
+                                  : field.value.filter((id) => id !== myItem.id)
+                              )}
+                            />
+                          </FormControl>
+                          {myItem.photoUrls.length > 0 ? (
+                            <img src={myItem.photoUrls[0].thumb} alt={myItem.title ?? ""} className="w-10 h-10 object-cover rounded" />
+                          ) : (
+                            <div className="w-10 h-10 bg-muted rounded flex items-center justify-center">
+                              <Package className="w-4 h-4 text-muted-foreground" />
+                            </div>
+                          )}
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{myItem.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              ₹{myItem.price !== null ? myItem.price.toLocaleString() : "N/A"}
+                            </p>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Why is this a fair swap?" {...field} rows={3} data-testid="input-swap-message" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-swap"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={proposeSwapMutation.isPending || swappableItems.length === 0}
+                data-testid="button-submit-swap"
+              >
+                {proposeSwapMutation.isPending ? "Sending..." : "Propose Swap"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
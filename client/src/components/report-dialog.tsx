@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Flag } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Report } from "@shared/schema";
+import { z } from "zod";
+
+export const reportReasonLabels: Record<Report["reason"], string> = {
+  spam: "Spam",
+  scam: "Scam or fraud",
+  prohibited_item: "Prohibited item",
+  harassment: "Harassment",
+  inappropriate: "Inappropriate content",
+  other: "Something else",
+};
+
+const targetLabels: Record<Report["targetType"], string> = {
+  item: "listing",
+  user: "user",
+  message: "message",
+};
+
+const reportSchema = z.object({
+  reason: z.enum(["spam", "scam", "prohibited_item", "harassment", "inappropriate", "other"], {
+    required_error: "Pick a reason",
+  }),
+  details: z.string().trim().max(500, "Details too long").optional(),
+});
+
+type ReportData = z.infer<typeof reportSchema>;
+
+interface ReportDialogProps {
+  targetType: Report["targetType"];
+  targetId: string;
+  children?: React.ReactNode;
+}
+
+export function ReportDialog({ targetType, targetId, children }: ReportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ReportData>({
+    resolver: zodResolver(reportSchema),
+    defaultValues: {
+      details: "",
+    },
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async (data: ReportData) => {
+      const res = await apiRequest("POST", "/api/reports", {
+        targetType,
+        targetId,
+        reason: data.reason,
+        details: data.details || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Report submitted",
+        description: "Thanks - a moderator will take a look.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ReportData) => {
+    reportMutation.mutate(data);
+  };
+
+  const trigger = children || (
+    <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid={`button-report-${targetType}`}>
+      <Flag className="w-4 h-4 mr-1" />
+      Report
+    </Button>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report {targetLabels[targetType]}</DialogTitle>
+          <DialogDescription>
+            Reports are only seen by moderators. The person you report won't know it was you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-report-reason">
+                        <SelectValue placeholder="What's wrong?" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(reportReasonLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="details"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Details (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Anything that helps a moderator understand the problem"
+                      {...field}
+                      rows={3}
+                      data-testid="input-report-details"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-report"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={reportMutation.isPending}
+                data-testid="button-submit-report"
+              >
+                {reportMutation.isPending ? "Submitting..." : "Submit Report"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
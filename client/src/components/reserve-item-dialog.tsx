@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Item, Message, OfferWithDetails, User } from "@shared/schema";
+
+interface ReserveItemDialogProps {
+  item: Item;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Candidate = Pick<User, "id" | "firstName" | "lastName">;
+
+export function ReserveItemDialog({ item, open, onOpenChange }: ReserveItemDialogProps) {
+  const [buyerId, setBuyerId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Anyone who has messaged or made an offer about this item can be picked
+  const { data: messages = [] } = useQuery<(Message & { sender: User })[]>({
+    queryKey: [`/api/messages?itemId=${item.id}`],
+    enabled: open,
+  });
+  const { data: offers = [] } = useQuery<OfferWithDetails[]>({
+    queryKey: [`/api/offers?itemId=${item.id}`],
+    enabled: open,
+  });
+
+  const candidates = new Map<string, Candidate>();
+  messages
+    .filter((message) => message.senderId !== item.sellerId)
+    .forEach((message) => candidates.set(message.senderId, message.sender));
+  offers.forEach((offer) => candidates.set(offer.buyerId, offer.buyer));
+
+  const reserveMutation = useMutation({
+    mutationFn: async (selectedBuyerId: string) => {
+      const res = await apiRequest("POST", `/api/items/${item.id}/reserve`, { buyerId: selectedBuyerId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+      toast({
+        title: "Item reserved",
+        description: "Show the buyer your handoff code when you meet.",
+      });
+      setBuyerId(null);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reserve item",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reserve for a Buyer</DialogTitle>
+          <DialogDescription>
+            Hold "{item.title}" for one buyer. The sale completes when they enter your handoff code at meetup.
+          </DialogDescription>
+        </DialogHeader>
+
+        {candidates.size === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nobody has contacted you about this item yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {Array.from(candidates.values()).map((candidate) => (
+              <button
+                key={candidate.id}
+                type="button"
+                className={`w-full text-left border rounded-md p-3 text-sm transition-colors ${
+                  buyerId === candidate.id ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                }`}
+                onClick={() => setBuyerId(candidate.id)}
+                data-testid={`reserve-candidate-${candidate.id}`}
+              >
+                {candidate.firstName} {candidate.lastName}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-reserve">
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!buyerId || reserveMutation.isPending}
+            onClick={() => buyerId && reserveMutation.mutate(buyerId)}
+            data-testid="button-confirm-reserve"
+          >
+            {reserveMutation.isPending ? "Reserving..." : "Reserve"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
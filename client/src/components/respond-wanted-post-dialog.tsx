@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Link2, Package } from "lucide-react";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Item, ItemPage, WantedPost, WithPhotoUrls } from "@shared/schema";
+import { z } from "zod";
+
+const responseSchema = z.object({
+  itemId: z.string().min(1, "Pick one of your listings"),
+  message: z.string().trim().max(500, "Message too long").optional(),
+});
+
+type ResponseData = z.infer<typeof responseSchema>;
+
+interface RespondWantedPostDialogProps {
+  post: WantedPost;
+}
+
+export function RespondWantedPostDialog({ post }: RespondWantedPostDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Only live listings can be offered
+  const { data: myItems, isLoading } = useQuery<ItemPage<WithPhotoUrls<Item>>>({
+    queryKey: ["/api/my-items", "swappable"],
+    queryFn: async () => {
+      const res = await fetch("/api/my-items?status=active&limit=100");
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+
+  const form = useForm<ResponseData>({
+    resolver: zodResolver(responseSchema),
+    defaultValues: {
+      itemId: "",
+      message: "",
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (data: ResponseData) => {
+      const res = await apiRequest("POST", `/api/wanted/${post.id}/responses`, {
+        itemId: data.itemId,
+        message: data.message || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wanted"] });
+      toast({
+        title: "Listing linked",
+        description: "The student who posted this has been notified.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to link listing",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ResponseData) => {
+    respondMutation.mutate(data);
+  };
+
+  const listings = myItems?.items ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-respond-wanted-${post.id}`}>
+          <Link2 className="h-4 w-4 mr-1" />
+          I Have This
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Link one of your listings</DialogTitle>
+          <DialogDescription>
+            Let the student looking for "{post.title}" know you're selling one
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="itemId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Your listing</FormLabel>
+                  {isLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading your listings...</p>
+                  ) : listings.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      You have no active listings. <Link href="/sell" className="underline">List it</Link> first.
+                    </p>
+                  ) : (
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="max-h-60 overflow-y-auto space-y-2">
+                        {listings.map((listing) => (
+                          <label
+                            key={listing.id}
+                            className="flex items-center gap-3 border rounded-md p-2 cursor-pointer hover:bg-muted/50"
+                            data-testid={`wanted-response-option-${listing.id}`}
+                          >
+                            <RadioGroupItem value={listing.id} />
+                            {listing.photoUrls.length > 0 ? (
+                              <img src={listing.photoUrls[0].thumb} alt={listing.title ?? ""} className="w-10 h-10 object-cover rounded" />
+                            ) : (
+                              <div className="w-10 h-10 bg-muted rounded flex items-center justify-center">
+                                <Package className="w-4 h-4 text-muted-foreground" />
+                              </div>
+                            )}
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium truncate">{listing.title}</p>
+                              <p className="text-xs text-muted-foreground">
+                                ₹{listing.price !== null ? listing.price.toLocaleString() : "N/A"}
+                              </p>
+                            </div>
+                          </label>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Condition, when you can meet..." {...field} rows={3} data-testid="input-wanted-response-message" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-wanted-response"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={respondMutation.isPending || listings.length === 0}
+                data-testid="button-submit-wanted-response"
+              >
+                {respondMutation.isPending ? "Linking..." : "Link Listing"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Item } from "@shared/schema";
+import { z } from "zod";
+
+const reviewSchema = z.object({
+  rating: z.number().int().min(1, "Pick a rating").max(5),
+  comment: z.string().trim().max(500, "Review too long").optional(),
+});
+
+type ReviewData = z.infer<typeof reviewSchema>;
+
+interface ReviewDialogProps {
+  item: Item;
+  revieweeName: string;
+  children?: React.ReactNode;
+}
+
+export function ReviewDialog({ item, revieweeName, children }: ReviewDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ReviewData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: {
+      rating: 0,
+      comment: "",
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (data: ReviewData) => {
+      const res = await apiRequest("POST", `/api/items/${item.id}/reviews`, {
+        rating: data.rating,
+        comment: data.comment || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews/pending"] });
+      toast({
+        title: "Review submitted",
+        description: "Thanks for helping keep SwapHands trustworthy.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ReviewData) => {
+    reviewMutation.mutate(data);
+  };
+
+  const trigger = children || (
+    <Button variant="outline" size="sm" data-testid={`button-review-${item.id}`}>
+      <Star className="w-4 h-4 mr-1" />
+      Leave Review
+    </Button>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Review {revieweeName}</DialogTitle>
+          <DialogDescription>
+            How did the deal for "{item.title}" go?
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="rating"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rating</FormLabel>
+                  <FormControl>
+                    <div className="flex gap-1">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <button
+                          key={star}
+                          type="button"
+                          onClick={() => field.onChange(star)}
+                          aria-label={`${star} star${star !== 1 ? "s" : ""}`}
+                          data-testid={`button-rating-${star}`}
+                        >
+                          <Star
+                            className={`h-7 w-7 transition-colors ${
+                              star <= field.value ? "fill-amber-400 text-amber-400" : "text-muted-foreground"
+                            }`}
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Review (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Was the item as described? Did they show up on time?"
+                      {...field}
+                      rows={3}
+                      data-testid="input-review-comment"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-review"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={reviewMutation.isPending}
+                data-testid="button-submit-review"
+              >
+                {reviewMutation.isPending ? "Submitting..." : "Submit Review"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { BellPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { z } from "zod";
+
+const saveSearchSchema = z.object({
+  name: z.string().trim().min(1, "Give this search a name").max(60, "Name too long"),
+});
+
+type SaveSearchData = z.infer<typeof saveSearchSchema>;
+
+export interface SearchFilters {
+  search?: string;
+  category?: string;
+  location?: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+interface SaveSearchDialogProps {
+  filters: SearchFilters;
+}
+
+function suggestName(filters: SearchFilters) {
+  const parts = [
+    filters.search,
+    filters.category,
+    filters.location,
+    filters.maxPrice !== undefined ? `under ₹${filters.maxPrice}` : undefined,
+  ].filter(Boolean);
+  return parts.join(" · ").slice(0, 60);
+}
+
+export function SaveSearchDialog({ filters }: SaveSearchDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<SaveSearchData>({
+    resolver: zodResolver(saveSearchSchema),
+    defaultValues: {
+      name: "",
+    },
+  });
+
+  const saveSearchMutation = useMutation({
+    mutationFn: async (data: SaveSearchData) => {
+      const res = await apiRequest("POST", "/api/saved-searches", { ...filters, name: data.name });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Search saved",
+        description: "We'll let you know when a new listing matches.",
+      });
+      form.reset();
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save search",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      form.reset({ name: suggestName(filters) });
+    }
+    setIsOpen(open);
+  };
+
+  const onSubmit = (data: SaveSearchData) => {
+    saveSearchMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" data-testid="button-save-search">
+          <BellPlus className="h-4 w-4 mr-2" />
+          Save Search
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>
+            Get an alert (and an email, if enabled in your profile) when a new listing matches these filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Cheap drafter" {...field} data-testid="input-saved-search-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                data-testid="button-cancel-save-search"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveSearchMutation.isPending}
+                data-testid="button-confirm-save-search"
+              >
+                {saveSearchMutation.isPending ? "Saving..." : "Save Search"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
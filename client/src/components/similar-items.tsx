@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ItemCard } from "@/components/item-card";
+import { Package } from "lucide-react";
+import type { ItemSearchResult, WithPhotoUrls } from "@shared/schema";
+
+interface SimilarItemsProps {
+  itemId: string;
+  // "compact" is a short list for tight spaces like wishlist cards
+  variant?: "grid" | "compact";
+}
+
+export function SimilarItems({ itemId, variant = "grid" }: SimilarItemsProps) {
+  const limit = variant === "compact" ? 3 : 4;
+  const { data: similarItems = [], isLoading } = useQuery<WithPhotoUrls<ItemSearchResult>[]>({
+    queryKey: [`/api/items/${itemId}/similar?limit=${limit}`],
+  });
+
+  if (isLoading || similarItems.length === 0) {
+    return null;
+  }
+
+  if (variant === "compact") {
+    return (
+      <div className="space-y-2" data-testid={`similar-items-${itemId}`}>
+        <p className="text-xs font-medium text-muted-foreground">Similar items still available</p>
+        {similarItems.map((similar) => (
+          <Link
+            key={similar.id}
+            href={`/items/${similar.id}`}
+            className="flex items-center gap-2 rounded-md p-1 hover:bg-muted transition-colors"
+            data-testid={`link-similar-item-${similar.id}`}
+          >
+            {similar.photoUrls.length > 0 ? (
+              <img src={similar.photoUrls[0].thumb} alt={similar.title ?? ""} className="w-10 h-10 object-cover rounded" />
+            ) : (
+              <div className="w-10 h-10 bg-muted rounded flex items-center justify-center">
+                <Package className="h-4 w-4 text-muted-foreground" />
+              </div>
+            )}
+            <span className="flex-1 text-sm truncate">{similar.title}</span>
+            <span className="text-sm font-semibold text-primary">
+              ₹{similar.price !== null ? similar.price.toLocaleString() : "N/A"}
+            </span>
+          </Link>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <section className="mt-10" data-testid="section-similar-items">
+      <h3 className="text-xl font-semibold mb-4">Similar Items</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {similarItems.map((similar) => (
+          <ItemCard key={similar.id} item={similar} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+import { Star } from "lucide-react";
+import type { SellerRating } from "@shared/schema";
+
+interface StarRatingProps {
+  rating: SellerRating;
+  size?: "sm" | "md";
+}
+
+// Compact "★ 4.5 (12)" summary of the ratings a user has received
+export function StarRating({ rating, size = "sm" }: StarRatingProps) {
+  const iconClass = size === "sm" ? "h-3 w-3" : "h-4 w-4";
+  const textClass = size === "sm" ? "text-xs" : "text-sm";
+
+  if (rating.count === 0 || rating.average === null) {
+    return <span className={`${textClass} text-muted-foreground`}>No reviews yet</span>;
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${textClass}`} data-testid="text-seller-rating">
+      <Star className={`${iconClass} fill-amber-400 text-amber-400`} />
+      <span className="font-medium">{rating.average.toFixed(1)}</span>
+      <span className="text-muted-foreground">({rating.count})</span>
+    </span>
+  );
+}
+
+interface StarsProps {
+  value: number;
+}
+
+// Five stars with the first `value` filled, for an individual review
+export function Stars({ value }: StarsProps) {
+  return (
+    <span className="inline-flex" aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`h-3 w-3 ${star <= value ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`}
+        />
+      ))}
+    </span>
+  );
+}
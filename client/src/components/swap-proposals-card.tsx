@@ -0,0 +1,151 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeftRight, Check, Undo2, X } from "lucide-react";
+import type { SwapProposalWithDetails } from "@shared/schema";
+
+interface SwapProposalsCardProps {
+  currentUserId: string;
+}
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  rejected: "destructive",
+  withdrawn: "outline",
+};
+
+export function SwapProposalsCard({ currentUserId }: SwapProposalsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: proposals = [] } = useQuery<SwapProposalWithDetails[]>({
+    queryKey: ["/api/swaps"],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ proposalId, action }: { proposalId: string; action: "accept" | "reject" | "withdraw" }) => {
+      const res = await apiRequest("PUT", `/api/swaps/${proposalId}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swaps"] });
+      if (action === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      }
+      toast({
+        title: action === "accept" ? "Swap accepted" : action === "reject" ? "Swap declined" : "Swap withdrawn",
+        description: action === "accept" ? "All items in the swap have been marked as sold." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update swap",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (proposals.length === 0) {
+    return null;
+  }
+
+  const received = proposals.filter((proposal) => proposal.seller.id === currentUserId);
+  const sent = proposals.filter((proposal) => proposal.proposerId === currentUserId);
+
+  const renderProposal = (proposal: SwapProposalWithDetails, isReceived: boolean) => (
+    <div key={proposal.id} className="border rounded-md p-3 space-y-2" data-testid={`swap-proposal-${proposal.id}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="text-sm">
+          <p>
+            <span className="font-medium">
+              {isReceived ? `${proposal.proposer.firstName} ${proposal.proposer.lastName}` : "You"}
+            </span>
+            {" offered "}
+            <span className="font-medium">{proposal.offeredItems.map((item) => item.title).join(", ")}</span>
+            {" for "}
+            <Link href={`/items/${proposal.itemId}`} className="font-medium underline">
+              {proposal.item.title}
+            </Link>
+          </p>
+          {proposal.message && (
+            <p className="text-muted-foreground whitespace-pre-wrap mt-1">{proposal.message}</p>
+          )}
+        </div>
+        <Badge variant={statusVariants[proposal.status]} className="capitalize shrink-0">
+          {proposal.status}
+        </Badge>
+      </div>
+
+      {proposal.status === "pending" && (
+        <div className="flex flex-wrap gap-2">
+          {isReceived ? (
+            <>
+              <Button
+                size="sm"
+                onClick={() => respondMutation.mutate({ proposalId: proposal.id, action: "accept" })}
+                disabled={respondMutation.isPending}
+                data-testid={`button-accept-swap-${proposal.id}`}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => respondMutation.mutate({ proposalId: proposal.id, action: "reject" })}
+                disabled={respondMutation.isPending}
+                data-testid={`button-reject-swap-${proposal.id}`}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Decline
+              </Button>
+            </>
+          ) : (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => respondMutation.mutate({ proposalId: proposal.id, action: "withdraw" })}
+              disabled={respondMutation.isPending}
+              data-testid={`button-withdraw-swap-${proposal.id}`}
+            >
+              <Undo2 className="w-4 h-4 mr-1" />
+              Withdraw
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5" />
+          Swap Proposals
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {received.length > 0 && (
+          <div className="space-y-2">
+            <h5 className="text-sm font-semibold">Received</h5>
+            {received.map((proposal) => renderProposal(proposal, true))}
+          </div>
+        )}
+        {sent.length > 0 && (
+          <div className="space-y-2">
+            <h5 className="text-sm font-semibold">Sent</h5>
+            {sent.map((proposal) => renderProposal(proposal, false))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
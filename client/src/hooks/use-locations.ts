@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Location } from "@shared/schema";
+
+// Locations are managed from the admin panel; retired ones are kept so older listings still show a name
+export function useLocations() {
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const formatLocation = (id: string | null | undefined) => {
+    if (!id) return "";
+    return locations.find((location) => location.id === id)?.name ?? id;
+  };
+
+  return { locations, formatLocation };
+}
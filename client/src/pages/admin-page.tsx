@@ -1,15 +1,22 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { NavigationHeader } from "@/components/navigation-header";
+import { Stars } from "@/components/star-rating";
+import { ModerationQueueCard } from "@/components/moderation-queue-card";
+import { ManageLocationsCard } from "@/components/manage-locations-card";
 import { Redirect } from "wouter";
-import { Users, Package, Flag, Clock } from "lucide-react";
-import type { User } from "@shared/schema";
+import { Users, Package, Flag, Clock, Trash } from "lucide-react";
+import type { ReviewWithDetails, User } from "@shared/schema";
 
 export default function AdminPage() {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Redirect if not admin
   if (user && user.role !== "admin") {
@@ -32,6 +39,51 @@ export default function AdminPage() {
     },
   });
 
+  const { data: reviews = [] } = useQuery<ReviewWithDetails[]>({
+    queryKey: ["/api/admin/reviews"],
+  });
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/reviews/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+      toast({
+        title: "Review removed",
+        description: "The review no longer counts towards the user's rating",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSuspensionMutation = useMutation({
+    mutationFn: async (target: User) => {
+      const res = await apiRequest("PUT", `/api/admin/users/${target.id}`, { isSuspended: !target.isSuspended });
+      return res.json();
+    },
+    onSuccess: (updated: User) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: updated.isSuspended ? "User suspended" : "Suspension lifted",
+        description: `${updated.firstName} ${updated.lastName}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const getInitials = (firstName?: string, lastName?: string) => {
     return `${firstName?.[0] || ""}${lastName?.[0] || ""}`.toUpperCase();
   };
@@ -40,12 +92,14 @@ export default function AdminPage() {
     return new Date(date).toLocaleDateString();
   };
 
-  const getStatusColor = (isVerified: boolean) => {
-    return isVerified ? "text-accent bg-accent/10" : "text-muted-foreground bg-muted";
+  const getStatusColor = (userItem: User) => {
+    if (userItem.isSuspended) return "text-destructive bg-destructive/10";
+    return userItem.isVerified ? "text-accent bg-accent/10" : "text-muted-foreground bg-muted";
   };
 
-  const getStatusText = (isVerified: boolean) => {
-    return isVerified ? "Active" : "Pending";
+  const getStatusText = (userItem: User) => {
+    if (userItem.isSuspended) return "Suspended";
+    return userItem.isVerified ? "Active" : "Pending";
   };
 
   return (
@@ -103,8 +157,10 @@ export default function AdminPage() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Pending Reviews</p>
-                  <p className="text-2xl font-bold text-foreground" data-testid="text-pending-reviews">0</p>
+                  <p className="text-sm text-muted-foreground">Open Reports</p>
+                  <p className="text-2xl font-bold text-foreground" data-testid="text-open-reports">
+                    {adminStats?.pendingReports || 0}
+                  </p>
                 </div>
                 <Clock className="h-5 w-5 text-accent" />
               </div>
@@ -174,8 +230,8 @@ export default function AdminPage() {
                           {userItem.branch || "N/A"}
                         </td>
                         <td className="p-4">
-                          <span className={`text-xs px-2 py-1 rounded ${getStatusColor(userItem.isVerified)}`}>
-                            {getStatusText(userItem.isVerified)}
+                          <span className={`text-xs px-2 py-1 rounded ${getStatusColor(userItem)}`}>
+                            {getStatusText(userItem)}
                           </span>
                         </td>
                         <td className="p-4 text-sm text-muted-foreground" data-testid={`text-user-joined-${userItem.id}`}>
@@ -186,9 +242,22 @@ export default function AdminPage() {
                             <Button variant="ghost" size="sm" data-testid={`button-view-user-${userItem.id}`}>
                               View
                             </Button>
-                            <Button variant="ghost" size="sm" className="text-destructive" data-testid={`button-suspend-user-${userItem.id}`}>
-                              Suspend
-                            </Button>
+                            {userItem.id !== user?.id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className={userItem.isSuspended ? "" : "text-destructive"}
+                                disabled={toggleSuspensionMutation.isPending}
+                                onClick={() => {
+                                  if (userItem.isSuspended || confirm(`Suspend ${userItem.firstName} ${userItem.lastName}?`)) {
+                                    toggleSuspensionMutation.mutate(userItem);
+                                  }
+                                }}
+                                data-testid={`button-suspend-user-${userItem.id}`}
+                              >
+                                {userItem.isSuspended ? "Unsuspend" : "Suspend"}
+                              </Button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -199,6 +268,53 @@ export default function AdminPage() {
             )}
           </CardContent>
         </Card>
+
+        <ModerationQueueCard />
+
+        <ManageLocationsCard />
+
+        {/* Review Moderation */}
+        <Card className="mt-8">
+          <CardHeader className="border-b border-border">
+            <CardTitle>Recent Reviews</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {reviews.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-4">No reviews yet.</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {reviews.map((review) => (
+                  <div key={review.id} className="flex items-start justify-between gap-4 p-4" data-testid={`admin-review-${review.id}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Stars value={review.rating} />
+                        <span className="text-xs text-muted-foreground">{formatDate(review.createdAt)}</span>
+                      </div>
+                      {review.comment && <p className="text-sm mt-1">{review.comment}</p>}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {review.reviewer.firstName} {review.reviewer.lastName} → {review.reviewee.firstName} {review.reviewee.lastName} · {review.item.title}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      disabled={deleteReviewMutation.isPending}
+                      onClick={() => {
+                        if (confirm("Remove this review?")) {
+                          deleteReviewMutation.mutate(review.id);
+                        }
+                      }}
+                      data-testid={`button-delete-review-${review.id}`}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
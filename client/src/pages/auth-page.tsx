@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { Redirect } from "wouter";
+import { Redirect, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,10 +10,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { LocationOptions } from "@/components/location-options";
 import { ArrowRightLeft, Users, Shield, Star, Mail, Lock } from "lucide-react";
 
+// Only follow same-origin paths from ?next= to avoid open redirects
+function getSafeNextPath(search: string) {
+  const next = new URLSearchParams(search).get("next");
+  if (!next || !next.startsWith("/") || next.startsWith("//")) return "/";
+  return next;
+}
+
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
+  const search = useSearch();
   const { toast } = useToast();
   const [loginForm, setLoginForm] = useState({ email: "", password: "" });
   const [forgotPasswordForm, setForgotPasswordForm] = useState({ email: "" });
@@ -35,7 +44,7 @@ export default function AuthPage() {
     registrationNumber: "",
     branch: "",
     year: "",
-    hostelBlock: undefined as "a-block" | "b-block" | "c-block" | "d-block" | "e-block" | undefined,
+    hostelBlock: undefined as string | undefined,
     phoneNumber: "",
     bio: "",
   });
@@ -50,7 +59,7 @@ export default function AuthPage() {
 
   // Redirect if already logged in
   if (user) {
-    return <Redirect to="/" />;
+    return <Redirect to={getSafeNextPath(search)} />;
   }
 
   const handleLogin = (e: React.FormEvent) => {
@@ -428,16 +437,12 @@ export default function AuthPage() {
                     </div>
                     <div>
                       <Label htmlFor="hostelBlock">Hostel Block</Label>
-                      <Select onValueChange={(value) => setRegisterForm({ ...registerForm, hostelBlock: value as "a-block" | "b-block" | "c-block" | "d-block" | "e-block" })}>
+                      <Select onValueChange={(value) => setRegisterForm({ ...registerForm, hostelBlock: value })}>
                         <SelectTrigger data-testid="select-hostelBlock">
                           <SelectValue placeholder="Select hostel block" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="a-block">A-Block</SelectItem>
-                          <SelectItem value="b-block">B-Block</SelectItem>
-                          <SelectItem value="c-block">C-Block</SelectItem>
-                          <SelectItem value="d-block">D-Block</SelectItem>
-                          <SelectItem value="e-block">E-Block</SelectItem>
+                          <LocationOptions />
                         </SelectContent>
                       </Select>
                     </div>
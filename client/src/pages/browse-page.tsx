@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,25 +8,86 @@ import { Button } from "@/components/ui/button";
 import { NavigationHeader } from "@/components/navigation-header";
 import { ItemCard } from "@/components/item-card";
 import { FloatingActionButton } from "@/components/floating-action-button";
-import { Search, Package, Plus } from "lucide-react";
-import { useLocation } from "wouter";
+import { SaveSearchDialog, type SearchFilters } from "@/components/save-search-dialog";
+import { LocationOptions } from "@/components/location-options";
+import { Search, Package, Plus, Gift } from "lucide-react";
+import { useLocation, useSearch } from "wouter";
 import { staggerContainer, fadeInUp } from "@/lib/motion";
-import type { Item } from "@shared/schema";
+import { COURSE_CODE_PATTERN, attributeFieldsFor, type ItemAttributes, type ItemPage, type ItemSearchResult, type ItemSort, type WithPhotoUrls } from "@shared/schema";
+
+type BrowseResults = ItemPage<WithPhotoUrls<ItemSearchResult>>;
 
 export default function BrowsePage() {
   const [, navigate] = useLocation();
-  const [search, setSearch] = useState("");
-  const [category, setCategory] = useState("");
-  const [location, setLocation] = useState("");
-  const [priceRange, setPriceRange] = useState("");
-
-  const { data: items = [], isLoading } = useQuery<Item[]>({
-    queryKey: ["/api/items", { search, category, location, priceRange }],
-    queryFn: async () => {
+  const searchString = useSearch();
+  // Filters can be preset from the URL, e.g. when opening a saved search
+  const [initialParams] = useState(() => new URLSearchParams(searchString));
+  const [search, setSearch] = useState(initialParams.get("search") ?? "");
+  const [category, setCategory] = useState(initialParams.get("category") ?? "");
+  const [location, setLocation] = useState(initialParams.get("location") ?? "");
+  const [priceRange, setPriceRange] = useState(() => {
+    const min = initialParams.get("minPrice");
+    const max = initialParams.get("maxPrice");
+    return min || max ? `${min ?? ""}-${max ?? ""}` : "";
+  });
+  const [courseCode, setCourseCode] = useState(initialParams.get("courseCode") ?? "");
+  const [giveawaysOnly, setGiveawaysOnly] = useState(initialParams.get("giveaway") === "true");
+  // Filters on the chosen category's attributes, e.g. a uniform's size
+  const [attributeFilters, setAttributeFilters] = useState<ItemAttributes>({});
+  const [debouncedAttributes, setDebouncedAttributes] = useState<ItemAttributes>({});
+  // Empty means "server default": best match while searching, newest otherwise
+  const [sort, setSort] = useState<ItemSort | "">("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Only filter once a complete course code has been typed
+  const normalizedCourseCode = courseCode.trim().toUpperCase();
+  const activeCourseCode = COURSE_CODE_PATTERN.test(normalizedCourseCode) ? normalizedCourseCode : "";
+
+  // Avoid a full-text query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Text attributes like brand are typed, so they're debounced like the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedAttributes(attributeFilters), 300);
+    return () => clearTimeout(timeout);
+  }, [attributeFilters]);
+
+  const filterFields = attributeFieldsFor(category).filter((field) => field.filterable);
+  const activeAttributes = Object.fromEntries(
+    Object.entries(debouncedAttributes).filter(([, value]) => value.trim() && value !== "all")
+  );
+
+  const changeCategory = (value: string) => {
+    setCategory(value);
+    setAttributeFilters({});
+  };
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/items", { search: debouncedSearch, category, location, priceRange, courseCode: activeCourseCode, attributes: activeAttributes, giveawaysOnly, sort }],
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: BrowseResults) => lastPage.nextCursor,
+    queryFn: async ({ pageParam }): Promise<BrowseResults> => {
       const params = new URLSearchParams();
-      if (search) params.append("search", search);
+      if (sort) params.append("sort", sort);
+      if (pageParam) params.append("cursor", pageParam);
+      if (debouncedSearch) params.append("search", debouncedSearch);
       if (category && category !== "all") params.append("category", category);
       if (location && location !== "all") params.append("location", location);
+      if (activeCourseCode) params.append("courseCode", activeCourseCode);
+      if (giveawaysOnly) params.append("giveaway", "true");
+      for (const [key, value] of Object.entries(activeAttributes)) {
+        params.append(`attributes[${key}]`, value.trim());
+      }
       if (priceRange && priceRange !== "all") {
         const [min, max] = priceRange.split("-");
         if (min) params.append("minPrice", min);
@@ -38,6 +99,41 @@ export default function BrowsePage() {
     },
   });
 
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const hasFilters = Boolean(debouncedSearch)
+    || (category !== "" && category !== "all")
+    || (location !== "" && location !== "all")
+    || (priceRange !== "" && priceRange !== "all");
+
+  const currentFilters = (): SearchFilters => {
+    const filters: SearchFilters = {};
+    if (debouncedSearch) filters.search = debouncedSearch;
+    if (category && category !== "all") filters.category = category;
+    if (location && location !== "all") filters.location = location;
+    if (priceRange && priceRange !== "all") {
+      const [min, max] = priceRange.split("-");
+      if (min) filters.minPrice = Number(min);
+      if (max) filters.maxPrice = Number(max);
+    }
+    return filters;
+  };
+
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     // Query will automatically refetch due to state change
@@ -60,7 +156,7 @@ export default function BrowsePage() {
               <div className="flex-1 relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search items..."
+                  placeholder="Search items, e.g. calculator, drafter, lab coat..."
                   value={search}
                   onChange={(e) => setSearch(e.target.value)}
                   className="pl-10"
@@ -68,7 +164,7 @@ export default function BrowsePage() {
                 />
               </div>
               <div className="flex flex-col sm:flex-row gap-3">
-                <Select value={category} onValueChange={setCategory}>
+                <Select value={category} onValueChange={changeCategory}>
                   <SelectTrigger className="w-full sm:w-[150px]" data-testid="select-category">
                     <SelectValue placeholder="All Categories" />
                   </SelectTrigger>
@@ -76,7 +172,9 @@ export default function BrowsePage() {
                     <SelectItem value="all">All Categories</SelectItem>
                     <SelectItem value="books">Books</SelectItem>
                     <SelectItem value="gadgets">Gadgets</SelectItem>
+                    <SelectItem value="electronics">Electronics</SelectItem>
                     <SelectItem value="uniforms">Uniforms</SelectItem>
+                    <SelectItem value="sports">Sports</SelectItem>
                     <SelectItem value="other">Other</SelectItem>
                   </SelectContent>
                 </Select>
@@ -87,11 +185,7 @@ export default function BrowsePage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Locations</SelectItem>
-                    <SelectItem value="a-block">A-Block</SelectItem>
-                    <SelectItem value="b-block">B-Block</SelectItem>
-                    <SelectItem value="c-block">C-Block</SelectItem>
-                    <SelectItem value="d-block">D-Block</SelectItem>
-                    <SelectItem value="e-block">E-Block</SelectItem>
+                    <LocationOptions />
                   </SelectContent>
                 </Select>
                 
@@ -107,8 +201,74 @@ export default function BrowsePage() {
                     <SelectItem value="10000-">Above ₹10,000</SelectItem>
                   </SelectContent>
                 </Select>
+
+                <Input
+                  placeholder="Course code"
+                  value={courseCode}
+                  onChange={(e) => setCourseCode(e.target.value)}
+                  className="w-full sm:w-[130px]"
+                  data-testid="input-course-code-filter"
+                />
+
+                <Button
+                  type="button"
+                  variant={giveawaysOnly ? "default" : "outline"}
+                  onClick={() => setGiveawaysOnly(!giveawaysOnly)}
+                  aria-pressed={giveawaysOnly}
+                  data-testid="button-filter-giveaways"
+                >
+                  <Gift className="h-4 w-4 mr-2" />
+                  Free
+                </Button>
+
+                <Select value={sort} onValueChange={(value) => setSort(value as ItemSort)}>
+                  <SelectTrigger className="w-full sm:w-[170px]" data-testid="select-sort">
+                    <SelectValue placeholder={debouncedSearch ? "Sort: Best match" : "Sort: Newest"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {debouncedSearch && <SelectItem value="relevance">Best match</SelectItem>}
+                    <SelectItem value="newest">Newest first</SelectItem>
+                    <SelectItem value="price_asc">Price: Low to High</SelectItem>
+                    <SelectItem value="price_desc">Price: High to Low</SelectItem>
+                    <SelectItem value="most_viewed">Most viewed</SelectItem>
+                    <SelectItem value="most_wishlisted">Most wishlisted</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {hasFilters && <SaveSearchDialog filters={currentFilters()} />}
               </div>
             </form>
+            {filterFields.length > 0 && (
+              <div className="flex flex-col sm:flex-row gap-3 mt-4" data-testid="attribute-filters">
+                {filterFields.map((field) => field.type === "select" ? (
+                  <Select
+                    key={field.key}
+                    value={attributeFilters[field.key] ?? ""}
+                    onValueChange={(value) => setAttributeFilters((prev) => ({ ...prev, [field.key]: value }))}
+                  >
+                    <SelectTrigger className="w-full sm:w-[170px]" data-testid={`select-filter-${field.key}`}>
+                      <SelectValue placeholder={`${field.label}: Any`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{field.label}: Any</SelectItem>
+                      {field.options.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    key={field.key}
+                    placeholder={field.label}
+                    maxLength={field.maxLength}
+                    value={attributeFilters[field.key] ?? ""}
+                    onChange={(e) => setAttributeFilters((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                    className="w-full sm:w-[170px]"
+                    data-testid={`input-filter-${field.key}`}
+                  />
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
         </motion.div>
@@ -136,7 +296,7 @@ export default function BrowsePage() {
               transition={{ delay: 0.2 }}
             >
               <p className="text-muted-foreground font-medium" data-testid="text-results-count">
-                Found {items.length} awesome item{items.length !== 1 ? "s" : ""} ✨
+                Showing {items.length}{hasNextPage ? "+" : ""} awesome item{items.length !== 1 ? "s" : ""} ✨
               </p>
             </motion.div>
             <motion.div 
@@ -149,6 +309,11 @@ export default function BrowsePage() {
                 <ItemCard key={item.id} item={item} showSeller />
               ))}
             </motion.div>
+            <div ref={loadMoreRef} className="py-6 text-center" data-testid="load-more-sentinel">
+              {isFetchingNextPage && (
+                <p className="text-sm text-muted-foreground">Loading more items...</p>
+              )}
+            </div>
           </>
         ) : (
           <Card>
@@ -156,11 +321,11 @@ export default function BrowsePage() {
               <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">No items found</h3>
               <p className="text-muted-foreground mb-4">
-                {search || category || location || priceRange
+                {search || category || location || priceRange || courseCode || giveawaysOnly
                   ? "Try adjusting your search filters"
                   : "No items have been listed yet"}
               </p>
-              {search || category || location || priceRange ? (
+              {search || category || location || priceRange || courseCode || giveawaysOnly ? (
                 <Button
                   variant="outline"
                   onClick={() => {
@@ -168,6 +333,9 @@ export default function BrowsePage() {
                     setCategory("");
                     setLocation("");
                     setPriceRange("");
+                    setCourseCode("");
+                    setAttributeFilters({});
+                    setGiveawaysOnly(false);
                   }}
                   data-testid="button-clear-filters"
                 >
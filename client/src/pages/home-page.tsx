@@ -6,25 +6,24 @@ import { NavigationHeader } from "@/components/navigation-header";
 import { ItemCard } from "@/components/item-card";
 import { Link } from "wouter";
 import { Package, CheckCircle, Heart, Mail, Plus, Search, Box } from "lucide-react";
-import type { Item } from "@shared/schema";
+import type { HomeFeed, ItemPage } from "@shared/schema";
 
 export default function HomePage() {
   const { user } = useAuth();
   
-  const { data: recentItems = [] } = useQuery<Item[]>({
-    queryKey: ["/api/items"],
-    queryFn: async () => {
-      const res = await fetch("/api/items?limit=4");
-      return res.json();
-    },
+  const { data: feed } = useQuery<HomeFeed>({
+    queryKey: ["/api/feed"],
+    // Views and saves change the feed, so reload it whenever the home page opens
+    refetchOnMount: "always",
   });
+  const sections = feed?.sections ?? [];
 
   const { data: myItemsCount = 0 } = useQuery({
     queryKey: ["/api/my-items", "count"],
     queryFn: async () => {
-      const res = await fetch("/api/my-items");
-      const items = await res.json();
-      return items.length;
+      const res = await fetch("/api/my-items?limit=100");
+      const page: ItemPage = await res.json();
+      return page.items.length;
     },
   });
 
@@ -109,21 +108,26 @@ export default function HomePage() {
           </Card>
         </div>
 
-        {/* Recent Items */}
-        <div className="mb-8">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold">Recent Items</h3>
-            <Button variant="ghost" asChild data-testid="link-view-all">
-              <Link href="/browse">View All</Link>
-            </Button>
-          </div>
-          
-          {recentItems.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-              {recentItems.map((item) => (
-                <ItemCard key={item.id} item={item} />
-              ))}
-            </div>
+        {/* Personalised Feed */}
+        <div className="mb-8 space-y-8">
+          {sections.length > 0 ? (
+            sections.map((section, index) => (
+              <section key={section.kind} data-testid={`feed-section-${section.kind}`}>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold">{section.title}</h3>
+                  {index === 0 && (
+                    <Button variant="ghost" asChild data-testid="link-view-all">
+                      <Link href="/browse">View All</Link>
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                  {section.items.map((item) => (
+                    <ItemCard key={item.id} item={item} />
+                  ))}
+                </div>
+              </section>
+            ))
           ) : (
             <Card>
               <CardContent className="p-8 text-center">
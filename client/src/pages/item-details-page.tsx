@@ -0,0 +1,507 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { NavigationHeader } from "@/components/navigation-header";
+import { SendMessageDialog } from "@/components/send-message-dialog";
+import { OfferDialog } from "@/components/offer-dialog";
+import { ProposeSwapDialog } from "@/components/propose-swap-dialog";
+import { ConfirmHandoffCard } from "@/components/confirm-handoff-card";
+import { GiveawayQueueCard } from "@/components/giveaway-queue-card";
+import { AuctionCard } from "@/components/auction-card";
+import { StarRating, Stars } from "@/components/star-rating";
+import { ReportDialog } from "@/components/report-dialog";
+import { SimilarItems } from "@/components/similar-items";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, ArrowLeftRight, Calendar, CheckCircle, Eye, Flag, Heart, IndianRupee, MapPin, MessageCircle, Package, Share, User } from "lucide-react";
+import { attributeFieldsFor, type ItemWithSeller, type ReservationWithDetails, type ReviewWithDetails, type SellerRating, type WithPhotoUrls } from "@shared/schema";
+
+type ItemDetails = WithPhotoUrls<ItemWithSeller> & { isWishlisted: boolean };
+
+export default function ItemDetailsPage() {
+  const [, params] = useRoute("/items/:id");
+  const itemId = params?.id;
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatLocation: locationName } = useLocations();
+  const queryClient = useQueryClient();
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const [activePhoto, setActivePhoto] = useState(0);
+
+  const { data: item, isLoading, error } = useQuery<ItemDetails>({
+    queryKey: [`/api/items/${itemId}`],
+    enabled: !!itemId,
+  });
+
+  const { data: reservations = [] } = useQuery<ReservationWithDetails[]>({
+    queryKey: ["/api/reservations"],
+    enabled: !!user,
+  });
+  const myReservation = reservations.find(
+    (reservation) => reservation.itemId === itemId && reservation.buyerId === user?.id
+  );
+
+  const { data: sellerReviews } = useQuery<{ rating: SellerRating; reviews: ReviewWithDetails[] }>({
+    queryKey: [`/api/users/${item?.sellerId}/reviews`],
+    enabled: !!item,
+  });
+
+  useEffect(() => {
+    if (!carouselApi) return;
+
+    const onSelect = () => setActivePhoto(carouselApi.selectedScrollSnap());
+    onSelect();
+    carouselApi.on("select", onSelect);
+    return () => {
+      carouselApi.off("select", onSelect);
+    };
+  }, [carouselApi]);
+
+  const toggleWishlistMutation = useMutation({
+    mutationFn: async () => {
+      if (item!.isWishlisted) {
+        await apiRequest("DELETE", `/api/wishlist/${item!.id}`);
+      } else {
+        await apiRequest("POST", "/api/wishlist", { itemId: item!.id });
+      }
+    },
+    onSuccess: () => {
+      const wasWishlisted = item!.isWishlisted;
+      queryClient.setQueryData<ItemDetails>([`/api/items/${itemId}`], (current) =>
+        current
+          ? {
+              ...current,
+              isWishlisted: !wasWishlisted,
+              wishlistCount: current.wishlistCount + (wasWishlisted ? -1 : 1),
+            }
+          : current
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+      toast({
+        title: wasWishlisted ? "Removed from wishlist" : "Added to wishlist",
+        description: wasWishlisted
+          ? "Item removed from your wishlist"
+          : "Item added to your wishlist",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update wishlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleShare = () => {
+    const url = `${window.location.origin}/items/${item!.id}`;
+    if (navigator.share) {
+      navigator.share({
+        title: item!.title ?? "Untitled",
+        text: `${item!.title ?? "Item"} ${item!.isGiveaway ? "free" : `for ₹${item!.price ?? 0}`} on VIT SwapHands`,
+        url,
+      });
+    } else {
+      navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Item link copied to clipboard",
+      });
+    }
+  };
+
+  const formatLocation = (location: string | null) => locationName(location) || "Unknown";
+
+  const formatCategory = (category: string | null) => {
+    if (!category) return "Unknown";
+    return category.charAt(0).toUpperCase() + category.slice(1);
+  };
+
+  const getInitials = (firstName?: string, lastName?: string) => {
+    return `${firstName?.[0] || ""}${lastName?.[0] || ""}`.toUpperCase();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-muted-foreground">Loading item...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !item) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Item not found</h3>
+              <p className="text-muted-foreground mb-4">
+                This listing may have been removed by the seller.
+              </p>
+              <Button asChild data-testid="button-back-to-browse">
+                <Link href="/browse">Browse Items</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const photos = item.photoUrls;
+  const isOwner = user?.id === item.sellerId;
+  // Select values are shown with their option label, e.g. "lab-coat" as "Lab coat"
+  const attributeDetails = attributeFieldsFor(item.category).flatMap((field) => {
+    const value = item.attributes?.[field.key];
+    if (!value) return [];
+    const label = field.type === "select" ? field.options.find((option) => option.value === value)?.label : undefined;
+    return [{ key: field.key, label: field.label, value: label ?? value }];
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <Button variant="ghost" size="sm" className="mb-4" asChild data-testid="link-back">
+          <Link href="/browse">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Browse
+          </Link>
+        </Button>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Photo Gallery */}
+          <div className="lg:col-span-2 space-y-3">
+            {photos.length > 0 ? (
+              <>
+                <Carousel setApi={setCarouselApi} className="w-full" data-testid="carousel-item-photos">
+                  <CarouselContent>
+                    {photos.map((photo, index) => (
+                      <CarouselItem key={photo.full}>
+                        <img
+                          src={photo.medium}
+                          alt={`${item.title ?? "Item"} photo ${index + 1}`}
+                          className="w-full h-72 sm:h-96 object-contain bg-muted rounded-lg"
+                          data-testid={`img-item-photo-${index}`}
+                        />
+                      </CarouselItem>
+                    ))}
+                  </CarouselContent>
+                  {photos.length > 1 && (
+                    <>
+                      <CarouselPrevious className="left-2" />
+                      <CarouselNext className="right-2" />
+                    </>
+                  )}
+                </Carousel>
+
+                {photos.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto">
+                    {photos.map((photo, index) => (
+                      <button
+                        key={photo.full}
+                        type="button"
+                        onClick={() => carouselApi?.scrollTo(index)}
+                        className={`flex-shrink-0 rounded-md border-2 transition-colors ${
+                          activePhoto === index ? "border-primary" : "border-transparent"
+                        }`}
+                        data-testid={`button-photo-thumb-${index}`}
+                      >
+                        <img
+                          src={photo.thumb}
+                          alt={`Thumbnail ${index + 1}`}
+                          className="w-16 h-16 object-cover rounded"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="w-full h-72 sm:h-96 bg-muted rounded-lg flex items-center justify-center">
+                <Package className="h-16 w-16 text-muted-foreground" />
+              </div>
+            )}
+
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="secondary" data-testid="badge-category">{formatCategory(item.category)}</Badge>
+                  {item.condition && (
+                    <Badge variant="outline" className="capitalize" data-testid="badge-condition">{item.condition}</Badge>
+                  )}
+                  {item.isExchangeable && <Badge variant="outline">Open to exchange</Badge>}
+                  {item.isGiveaway && <Badge variant="outline" data-testid="badge-giveaway">Giveaway</Badge>}
+                  {item.isAuction && <Badge variant="outline" data-testid="badge-auction">Auction</Badge>}
+                  {item.status !== "active" && (
+                    <Badge variant="destructive" className="capitalize" data-testid="badge-status">{item.status}</Badge>
+                  )}
+                </div>
+
+                <h1 className="text-2xl font-bold" data-testid="text-item-title">{item.title ?? "Untitled"}</h1>
+
+                <p className="text-3xl font-bold text-primary" data-testid="text-item-price">
+                  {item.isGiveaway ? "Free" : `₹${item.price !== null ? item.price.toLocaleString() : "N/A"}`}
+                  {item.isAuction && <span className="text-sm font-normal text-muted-foreground ml-2">starting price</span>}
+                </p>
+
+                <div className="flex items-center gap-4 text-sm text-muted-foreground flex-wrap">
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" />
+                    <span data-testid="text-item-location">{formatLocation(item.location)}</span>
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Eye className="h-4 w-4" />
+                    <span data-testid="text-item-views">{item.views} views</span>
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Heart className="h-4 w-4" />
+                    <span data-testid="text-item-wishlist-count">{item.wishlistCount} saved</span>
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    <span data-testid="text-item-date">Listed {new Date(item.createdAt).toLocaleDateString()}</span>
+                  </span>
+                </div>
+
+                <Separator />
+
+                <div>
+                  <h3 className="font-semibold mb-2">Description</h3>
+                  <p className="text-muted-foreground whitespace-pre-wrap" data-testid="text-item-description">
+                    {item.description ?? "No description available"}
+                  </p>
+                </div>
+
+                {attributeDetails.length > 0 && (
+                  <div data-testid="section-item-attributes">
+                    <h3 className="font-semibold mb-2">Details</h3>
+                    <div className="space-y-1 text-sm">
+                      {attributeDetails.map(({ key, label, value }) => (
+                        <p key={key} data-testid={`text-attribute-${key}`}>
+                          <span className="text-muted-foreground">{label}:</span> {value}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {(item.isbn || item.author || item.edition || (item.courseCodes ?? []).length > 0) && (
+                  <div data-testid="section-book-details">
+                    <h3 className="font-semibold mb-2">Book Details</h3>
+                    <div className="space-y-1 text-sm">
+                      {item.author && (
+                        <p><span className="text-muted-foreground">Author:</span> {item.author}</p>
+                      )}
+                      {item.edition && (
+                        <p><span className="text-muted-foreground">Edition:</span> {item.edition}</p>
+                      )}
+                      {item.isbn && (
+                        <p><span className="text-muted-foreground">ISBN:</span> <span className="font-mono">{item.isbn}</span></p>
+                      )}
+                    </div>
+                    {(item.courseCodes ?? []).length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {item.courseCodes!.map((code) => (
+                          <Link key={code} href={`/browse?courseCode=${code}`} data-testid={`link-course-code-${code}`}>
+                            <Badge variant="outline" className="cursor-pointer hover:bg-muted">{code}</Badge>
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Seller Panel */}
+          <div className="space-y-4">
+            <Card>
+              <CardContent className="p-6">
+                <h3 className="font-semibold mb-4">Seller</h3>
+                <div className="flex items-center space-x-3 mb-4">
+                  {item.seller.profilePicture ? (
+                    <img
+                      src={item.seller.profilePicture}
+                      alt={item.seller.firstName}
+                      className="w-12 h-12 rounded-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center">
+                      <span className="font-semibold text-primary-foreground">
+                        {getInitials(item.seller.firstName, item.seller.lastName)}
+                      </span>
+                    </div>
+                  )}
+                  <div>
+                    <Link
+                      href={`/users/${item.seller.id}`}
+                      className="font-medium hover:underline"
+                      data-testid="text-seller-name"
+                    >
+                      {item.seller.firstName} {item.seller.lastName}
+                    </Link>
+                    {item.seller.isVerified && (
+                      <div className="flex items-center text-xs text-accent">
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        Verified Student
+                      </div>
+                    )}
+                    <StarRating rating={item.sellerRating} />
+                  </div>
+                </div>
+
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Branch</span>
+                    <span className="font-medium">{item.seller.branch || "Not provided"}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Year</span>
+                    <span className="font-medium">{item.seller.year || "Not provided"}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Hostel Block</span>
+                    <span className="font-medium">{formatLocation(item.seller.hostelBlock)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Member Since</span>
+                    <span className="font-medium">
+                      {new Date(item.seller.createdAt).toLocaleDateString("en-US", {
+                        month: "short",
+                        year: "numeric",
+                      })}
+                    </span>
+                  </div>
+                </div>
+
+                {sellerReviews && sellerReviews.reviews.length > 0 && (
+                  <>
+                    <Separator className="my-4" />
+                    <h4 className="text-sm font-semibold mb-3">Recent Reviews</h4>
+                    <div className="space-y-3">
+                      {sellerReviews.reviews.slice(0, 3).map((review) => (
+                        <div key={review.id} className="text-sm" data-testid={`review-${review.id}`}>
+                          <div className="flex items-center justify-between">
+                            <Stars value={review.rating} />
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(review.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                          {review.comment && <p className="mt-1">{review.comment}</p>}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {review.reviewer.firstName} · {review.item.title}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                <Button variant="outline" size="sm" className="w-full mt-4" asChild data-testid="button-view-storefront">
+                  <Link href={`/users/${item.seller.id}`}>View Seller's Storefront</Link>
+                </Button>
+              </CardContent>
+            </Card>
+
+            {myReservation && <ConfirmHandoffCard reservation={myReservation} />}
+
+            {item.isGiveaway && <GiveawayQueueCard item={item} isOwner={isOwner} />}
+
+            {item.isAuction && <AuctionCard item={item} isOwner={isOwner} currentUserId={user?.id} />}
+
+            <Card>
+              <CardContent className="p-6 space-y-3">
+                {isOwner ? (
+                  <Button variant="outline" className="w-full" asChild data-testid="button-manage-item">
+                    <Link href="/my-items">
+                      <User className="h-4 w-4 mr-2" />
+                      Manage in My Items
+                    </Link>
+                  </Button>
+                ) : (
+                  <>
+                    <SendMessageDialog item={item} receiverId={item.sellerId} currentUser={user ?? undefined}>
+                      <Button className="w-full" data-testid="button-message-seller">
+                        <MessageCircle className="h-4 w-4 mr-2" />
+                        Message Seller
+                      </Button>
+                    </SendMessageDialog>
+                    {item.status === "active" && !item.isGiveaway && !item.isAuction && (
+                      <OfferDialog item={item}>
+                        <Button variant="outline" className="w-full" data-testid="button-make-offer">
+                          <IndianRupee className="h-4 w-4 mr-2" />
+                          Make an Offer
+                        </Button>
+                      </OfferDialog>
+                    )}
+                    {item.status === "active" && item.isExchangeable && (
+                      <ProposeSwapDialog item={item}>
+                        <Button variant="outline" className="w-full" data-testid="button-propose-swap">
+                          <ArrowLeftRight className="h-4 w-4 mr-2" />
+                          Propose a Swap
+                        </Button>
+                      </ProposeSwapDialog>
+                    )}
+                    <Button
+                      variant="outline"
+                      className={`w-full ${item.isWishlisted ? "text-red-500" : ""}`}
+                      onClick={() => toggleWishlistMutation.mutate()}
+                      disabled={toggleWishlistMutation.isPending}
+                      data-testid="button-toggle-wishlist"
+                    >
+                      <Heart className={`h-4 w-4 mr-2 ${item.isWishlisted ? "fill-current" : ""}`} />
+                      {item.isWishlisted ? "Saved to Wishlist" : "Add to Wishlist"}
+                    </Button>
+                    {user && (
+                      <div className="flex justify-center gap-2">
+                        <ReportDialog targetType="item" targetId={item.id} />
+                        <ReportDialog targetType="user" targetId={item.sellerId}>
+                          <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid="button-report-seller">
+                            <Flag className="w-4 h-4 mr-1" />
+                            Report Seller
+                          </Button>
+                        </ReportDialog>
+                      </div>
+                    )}
+                  </>
+                )}
+                <Button variant="ghost" className="w-full" onClick={handleShare} data-testid="button-share-item">
+                  <Share className="h-4 w-4 mr-2" />
+                  Share Listing
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        <SimilarItems itemId={item.id} />
+      </div>
+    </div>
+  );
+}
@@ -9,14 +9,16 @@ import { Search, Plus, Eye, Clock, CheckCircle } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { CreateLostFoundItemForm } from "@/components/create-lost-found-item-form";
 import { LostFoundItemDetails } from "@/components/lost-found-item-details";
-import type { LostFoundItem, User } from "@shared/schema";
+import { useLocations } from "@/hooks/use-locations";
+import type { LostFoundItem, User, WithPhotoUrls } from "@shared/schema";
 
 export function LostFoundPage() {
   const [search, setSearch] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
   const [claimedFilter, setClaimedFilter] = useState("");
-  const [selectedItem, setSelectedItem] = useState<LostFoundItem | null>(null);
+  const [selectedItem, setSelectedItem] = useState<WithPhotoUrls<LostFoundItem> | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const { formatLocation } = useLocations();
 
   // Fetch current user to check if admin
   const { data: user } = useQuery<User>({ queryKey: ["/api/user"] });
@@ -143,7 +145,7 @@ export function LostFoundPage() {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {items.map((item: LostFoundItem) => (
+          {items.map((item: WithPhotoUrls<LostFoundItem>) => (
             <Card key={item.id} className="hover:shadow-lg transition-shadow cursor-pointer">
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -152,7 +154,7 @@ export function LostFoundPage() {
                       {item.title}
                     </CardTitle>
                     <CardDescription data-testid={`text-item-category-${item.id}`}>
-                      {item.category} • {item.foundLocation}
+                      {item.category} • {formatLocation(item.foundLocation) || item.foundLocationDetails}
                     </CardDescription>
                   </div>
                   {getStatusBadge(item)}
@@ -160,9 +162,9 @@ export function LostFoundPage() {
               </CardHeader>
               
               <CardContent>
-                {item.photos && item.photos.length > 0 && (
+                {item.photoUrls.length > 0 && (
                   <img
-                    src={`/uploads/${item.photos[0]}`}
+                    src={item.photoUrls[0].thumb}
                     alt={item.title}
                     className="w-full h-32 object-cover rounded mb-3"
                     data-testid={`img-item-photo-${item.id}`}
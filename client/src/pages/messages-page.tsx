@@ -5,10 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { MessageCircle, Search, Send, User, Package, Calendar } from "lucide-react";
+import { MessageCircle, Search, Send, User, Package, Calendar, Flag } from "lucide-react";
 import { SendMessageDialog } from "@/components/send-message-dialog";
+import { OfferThread } from "@/components/offer-thread";
+import { ReportDialog } from "@/components/report-dialog";
 import { apiRequest } from "@/lib/queryClient";
-import type { Message, User as UserType, Item } from "@shared/schema";
+import type { Message, User as UserType, Item, OfferWithDetails } from "@shared/schema";
 
 interface MessageWithDetails extends Message {
   sender: UserType;
@@ -40,6 +42,12 @@ export function MessagesPage() {
     enabled: !!currentUser,
   });
 
+  // Offers made or received, shown alongside the matching conversation
+  const { data: offers = [] } = useQuery<OfferWithDetails[]>({
+    queryKey: ["/api/offers"],
+    enabled: !!currentUser,
+  });
+
   // Group messages by conversation (item + participants)
   const conversations = messages.reduce((acc, message) => {
     // Fix: Use string sorting instead of Math.min/max on UUID strings
@@ -53,6 +61,7 @@ export function MessagesPage() {
         item: message.item,
         participants: [message.sender, message.receiver],
         messages: [],
+        offers: [],
         lastMessage: message,
         unreadCount: 0,
       };
@@ -73,6 +82,27 @@ export function MessagesPage() {
     return acc;
   }, {} as Record<string, any>);
 
+  // Attach offer threads; an offer made without any messages still gets its own conversation
+  offers.forEach((offer) => {
+    const [participantA, participantB] = [offer.buyerId, offer.seller.id].sort();
+    const conversationKey = `${offer.itemId}-${participantA}-${participantB}`;
+
+    if (!conversations[conversationKey]) {
+      conversations[conversationKey] = {
+        id: conversationKey,
+        itemId: offer.itemId,
+        item: offer.item,
+        participants: [offer.buyer, offer.seller],
+        messages: [],
+        offers: [],
+        lastMessage: null,
+        unreadCount: 0,
+      };
+    }
+
+    conversations[conversationKey].offers.push(offer);
+  });
+
   const conversationList = Object.values(conversations);
 
   // Mark messages as read when conversation is selected
@@ -203,7 +233,7 @@ export function MessagesPage() {
                           )}
                         </div>
                         <span className="text-xs text-muted-foreground">
-                          {formatTime(conversation.lastMessage.createdAt)}
+                          {formatTime(conversation.lastMessage?.createdAt ?? conversation.offers[conversation.offers.length - 1].createdAt)}
                         </span>
                       </div>
                       
@@ -215,8 +245,14 @@ export function MessagesPage() {
                       </div>
                       
                       <p className="text-sm text-muted-foreground truncate" data-testid={`conversation-preview-${conversation.id}`}>
-                        {conversation.lastMessage.senderId === currentUser.id ? "You: " : ""}
-                        {conversation.lastMessage.content}
+                        {conversation.lastMessage ? (
+                          <>
+                            {conversation.lastMessage.senderId === currentUser.id ? "You: " : ""}
+                            {conversation.lastMessage.content}
+                          </>
+                        ) : (
+                          `Offer: ₹${conversation.offers[conversation.offers.length - 1].amount.toLocaleString()}`
+                        )}
                       </p>
                     </div>
                   );
@@ -268,6 +304,17 @@ export function MessagesPage() {
                   <Separator />
                   
                   <CardContent className="flex-1 p-4">
+                    {otherUser && conversation.item && (
+                      <div className="mb-4">
+                        <OfferThread
+                          item={conversation.item}
+                          offers={conversation.offers}
+                          currentUserId={currentUser.id}
+                          buyerId={conversation.item.sellerId === currentUser.id ? otherUser.id : currentUser.id}
+                        />
+                      </div>
+                    )}
+
                     <div className="h-[350px] overflow-y-auto mb-4 space-y-4" data-testid={`conversation-messages-${selectedConversation}`}>
                       {sortedMessages.map((message: Message) => {
                         const isFromCurrentUser = message.senderId === currentUser.id;
@@ -296,6 +343,18 @@ export function MessagesPage() {
                                     New
                                   </Badge>
                                 )}
+                                {!isFromCurrentUser && (
+                                  <ReportDialog targetType="message" targetId={message.id}>
+                                    <button
+                                      type="button"
+                                      className="ml-auto opacity-50 hover:opacity-100"
+                                      aria-label="Report message"
+                                      data-testid={`button-report-message-${message.id}`}
+                                    >
+                                      <Flag className="w-3 h-3" />
+                                    </button>
+                                  </ReportDialog>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -1,12 +1,19 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { NavigationHeader } from "@/components/navigation-header";
+import { OfferThread } from "@/components/offer-thread";
+import { SwapProposalsCard } from "@/components/swap-proposals-card";
+import { ReserveItemDialog } from "@/components/reserve-item-dialog";
+import { EditPhotosDialog } from "@/components/edit-photos-dialog";
+import { BulkImportDialog } from "@/components/bulk-import-dialog";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
 import { apiRequest } from "@/lib/queryClient";
-import { Link } from "wouter";
-import { Plus, Eye, Heart, MoreVertical, Package, Edit, Trash } from "lucide-react";
+import { Link, useLocation, useSearch } from "wouter";
+import { Plus, Eye, Heart, MoreVertical, Package, Edit, Trash, KeyRound, RefreshCw, ImageIcon } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,23 +21,69 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { Item } from "@shared/schema";
+import { type Item, type ItemPage, type OfferWithDetails, type PublishDraftsResult, type ReservationWithDetails, type WithPhotoUrls } from "@shared/schema";
+
+const tabs = ["active", "reserved", "sold", "draft", "expired", "hidden"] as const;
+type Tab = typeof tabs[number];
 
 export default function MyItemsPage() {
   const { toast } = useToast();
+  const { formatLocation: locationName } = useLocations();
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState<"active" | "sold" | "draft">("active");
+  const { user } = useAuth();
+  const searchString = useSearch();
+  const [, navigate] = useLocation();
+  // Notifications can link straight to a tab, e.g. /my-items?tab=expired
+  const [activeTab, setActiveTab] = useState<Tab>(() => {
+    const tab = new URLSearchParams(searchString).get("tab");
+    return tabs.find((t) => t === tab) ?? "active";
+  });
+  const [reservingItem, setReservingItem] = useState<Item | null>(null);
+  const [editingPhotosItem, setEditingPhotosItem] = useState<WithPhotoUrls<Item> | null>(null);
 
-  const { data: items = [], isLoading } = useQuery<Item[]>({
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ["/api/my-items", { status: activeTab }],
-    queryFn: async () => {
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: ItemPage<WithPhotoUrls<Item>>) => lastPage.nextCursor,
+    queryFn: async ({ pageParam }): Promise<ItemPage<WithPhotoUrls<Item>>> => {
       const params = new URLSearchParams();
       params.append("status", activeTab);
+      if (pageParam) params.append("cursor", pageParam);
       const res = await fetch(`/api/my-items?${params.toString()}`);
       return res.json();
     },
   });
 
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+  const { data: offers = [] } = useQuery<OfferWithDetails[]>({
+    queryKey: ["/api/offers"],
+  });
+
+  const { data: reservations = [] } = useQuery<ReservationWithDetails[]>({
+    queryKey: ["/api/reservations"],
+  });
+
+  const reservationFor = (itemId: string) =>
+    reservations.find((reservation) => reservation.itemId === itemId && reservation.seller.id === user?.id);
+
+  // Offers received on each listing, split into one thread per buyer
+  const offerThreadsFor = (itemId: string) => {
+    const threads: Record<string, OfferWithDetails[]> = {};
+    offers
+      .filter((offer) => offer.itemId === itemId && offer.seller.id === user?.id)
+      .forEach((offer) => {
+        (threads[offer.buyerId] ??= []).push(offer);
+      });
+    return Object.entries(threads);
+  };
+
   const deleteItemMutation = useMutation({
     mutationFn: async (itemId: string) => {
       await apiRequest("DELETE", `/api/items/${itemId}`);
@@ -52,16 +105,17 @@ export default function MyItemsPage() {
     },
   });
 
-  const markAsSoldMutation = useMutation({
-    mutationFn: async (itemId: string) => {
-      await apiRequest("PUT", `/api/items/${itemId}`, { status: "sold" });
+  const releaseReservationMutation = useMutation({
+    mutationFn: async (reservationId: string) => {
+      await apiRequest("POST", `/api/reservations/${reservationId}/release`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
       toast({
-        title: "Item marked as sold",
-        description: "Your item has been marked as sold",
+        title: "Reservation released",
+        description: "Your item is available again",
       });
     },
     onError: (error: Error) => {
@@ -73,22 +127,79 @@ export default function MyItemsPage() {
     },
   });
 
+  const renewItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      await apiRequest("POST", `/api/items/${itemId}/renew`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      toast({
+        title: "Listing renewed",
+        description: "Your item will stay listed for another period",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to renew item",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Expiry reminders link to /my-items?renew=<id> so the seller can renew in one click
+  const renewedFromLink = useRef(false);
+  useEffect(() => {
+    const renewId = new URLSearchParams(searchString).get("renew");
+    if (renewId && !renewedFromLink.current) {
+      renewedFromLink.current = true;
+      renewItemMutation.mutate(renewId);
+      navigate("/my-items", { replace: true });
+    }
+  }, [searchString]);
+
+  const publishDraftsMutation = useMutation({
+    mutationFn: async (itemIds: string[]): Promise<PublishDraftsResult> => {
+      const res = await apiRequest("POST", "/api/items/publish", { itemIds });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      toast({
+        title: `${data.published.length} listing${data.published.length !== 1 ? "s" : ""} published`,
+        description: data.errors.length > 0
+          ? `${data.errors.length} draft${data.errors.length !== 1 ? "s are" : " is"} incomplete: ${data.errors.map((error) => error.title ?? "Untitled").join(", ")}`
+          : undefined,
+        variant: data.published.length === 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to publish drafts",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Active listings the seller has been reminded about, or already expired, can be renewed
+  const canRenew = (item: Item) => {
+    if (item.status === "expired") return true;
+    return item.status === "active" && !!item.expiryReminderSentAt;
+  };
+
+  // Drafts saved before drafts had their own status still say "active"
+  const displayStatus = (item: Item) => (item.isDraft ? "draft" : item.status);
+
   const handleDeleteItem = (itemId: string) => {
     if (confirm("Are you sure you want to delete this item?")) {
       deleteItemMutation.mutate(itemId);
     }
   };
 
-  const handleMarkAsSold = (itemId: string) => {
-    markAsSoldMutation.mutate(itemId);
-  };
-
-  const formatLocation = (location: string | null) => {
-    if (!location) return 'Unknown';
-    return location.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join('-');
-  };
+  const formatLocation = (location: string | null) => locationName(location) || "Unknown";
 
   const formatCategory = (category: string | null) => {
     if (!category) return 'Unknown';
@@ -99,10 +210,16 @@ export default function MyItemsPage() {
     switch (status) {
       case "active":
         return "text-accent bg-accent/10";
+      case "reserved":
+        return "text-amber-700 bg-amber-100";
       case "sold":
         return "text-green-600 bg-green-100";
       case "draft":
         return "text-muted-foreground bg-muted";
+      case "hidden":
+        return "text-destructive bg-destructive/10";
+      case "expired":
+        return "text-orange-700 bg-orange-100";
       default:
         return "text-muted-foreground bg-muted";
     }
@@ -110,8 +227,11 @@ export default function MyItemsPage() {
 
   const tabCounts = {
     active: items.filter(item => item.status === "active").length,
+    reserved: items.filter(item => item.status === "reserved").length,
     sold: items.filter(item => item.status === "sold").length,
-    draft: items.filter(item => item.status === "draft").length,
+    draft: items.filter(item => item.isDraft).length,
+    expired: items.filter(item => item.status === "expired").length,
+    hidden: items.filter(item => item.status === "hidden").length,
   };
 
   if (isLoading) {
@@ -135,18 +255,23 @@ export default function MyItemsPage() {
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold">My Items</h2>
-          <Button asChild data-testid="button-add-item">
-            <Link href="/sell">
-              <Plus className="h-4 w-4 mr-2" />
-              Add New Item
-            </Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            <BulkImportDialog />
+            <Button asChild data-testid="button-add-item">
+              <Link href="/sell">
+                <Plus className="h-4 w-4 mr-2" />
+                Add New Item
+              </Link>
+            </Button>
+          </div>
         </div>
 
+        {user && <SwapProposalsCard currentUserId={user.id} />}
+
         {/* Status Tabs */}
         <div className="border-b border-border mb-6">
           <nav className="flex space-x-8">
-            {(["active", "sold", "draft"] as const).map((tab) => (
+            {tabs.map((tab) => (
               <button
                 key={tab}
                 className={`py-2 px-1 border-b-2 font-medium text-sm capitalize transition-colors ${
@@ -164,15 +289,27 @@ export default function MyItemsPage() {
         </div>
 
         {/* Items List */}
+        {activeTab === "draft" && items.length > 0 && (
+          <div className="flex justify-end mb-4">
+            <Button
+              onClick={() => publishDraftsMutation.mutate(items.map((item) => item.id))}
+              disabled={publishDraftsMutation.isPending}
+              data-testid="button-publish-all-drafts"
+            >
+              {publishDraftsMutation.isPending ? "Publishing..." : `Publish All (${items.length})`}
+            </Button>
+          </div>
+        )}
+
         {items.length > 0 ? (
           <div className="space-y-4">
             {items.map((item) => (
               <Card key={item.id}>
                 <CardContent className="p-4">
                   <div className="flex items-center space-x-4">
-                    {item.photos && item.photos.length > 0 ? (
+                    {item.photoUrls.length > 0 ? (
                       <img
-                        src={`/uploads/${item.photos[0]}`}
+                        src={item.photoUrls[0].thumb}
                         alt={item.title ?? ''}
                         className="w-20 h-20 object-cover rounded-md"
                       />
@@ -184,11 +321,17 @@ export default function MyItemsPage() {
                     <div className="flex-1">
                       <div className="flex items-center justify-between mb-1">
                         <h4 className="font-semibold" data-testid={`text-item-title-${item.id}`}>
-                          {item.title}
+                          {item.isDraft ? (
+                            <Link href={`/sell?draft=${item.id}`} className="hover:underline">
+                              {item.title || "Untitled draft"}
+                            </Link>
+                          ) : (
+                            item.title
+                          )}
                         </h4>
                         <div className="flex items-center space-x-2">
-                          <span className={`text-xs px-2 py-1 rounded capitalize ${getStatusColor(item.status)}`}>
-                            {item.status}
+                          <span className={`text-xs px-2 py-1 rounded capitalize ${getStatusColor(displayStatus(item))}`}>
+                            {displayStatus(item)}
                           </span>
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
@@ -197,16 +340,42 @@ export default function MyItemsPage() {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem data-testid={`menu-edit-${item.id}`}>
-                                <Edit className="h-4 w-4 mr-2" />
-                                Edit Item
-                              </DropdownMenuItem>
-                              {item.status === "active" && (
+                              {item.isDraft ? (
+                                <DropdownMenuItem asChild data-testid={`menu-continue-draft-${item.id}`}>
+                                  <Link href={`/sell?draft=${item.id}`}>
+                                    <Edit className="h-4 w-4 mr-2" />
+                                    Continue Editing
+                                  </Link>
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem data-testid={`menu-edit-${item.id}`}>
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit Item
+                                </DropdownMenuItem>
+                              )}
+                              {!item.isDraft && item.status !== "sold" && (
+                                <DropdownMenuItem
+                                  onClick={() => setEditingPhotosItem(item)}
+                                  data-testid={`menu-edit-photos-${item.id}`}
+                                >
+                                  <ImageIcon className="h-4 w-4 mr-2" />
+                                  Edit Photos
+                                </DropdownMenuItem>
+                              )}
+                              {item.status === "active" && !item.isDraft && (
                                 <DropdownMenuItem 
-                                  onClick={() => handleMarkAsSold(item.id)}
-                                  data-testid={`menu-mark-sold-${item.id}`}
+                                  onClick={() => setReservingItem(item)}
+                                  data-testid={`menu-reserve-${item.id}`}
                                 >
-                                  Mark as Sold
+                                  Reserve for Buyer
+                                </DropdownMenuItem>
+                              )}
+                              {item.status === "reserved" && reservationFor(item.id) && (
+                                <DropdownMenuItem
+                                  onClick={() => releaseReservationMutation.mutate(reservationFor(item.id)!.id)}
+                                  data-testid={`menu-release-reservation-${item.id}`}
+                                >
+                                  Release Reservation
                                 </DropdownMenuItem>
                               )}
                               <DropdownMenuSeparator />
@@ -228,7 +397,7 @@ export default function MyItemsPage() {
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-4 text-sm">
                           <span className="font-semibold text-primary" data-testid={`text-item-price-${item.id}`}>
-                            ₹{item.price !== null ? item.price.toLocaleString() : 'N/A'}
+                            {item.isGiveaway ? "Free" : `₹${item.price !== null ? item.price.toLocaleString() : "N/A"}`}
                           </span>
                           <span className="text-muted-foreground">
                             {formatCategory(item.category ?? null)}
@@ -246,9 +415,70 @@ export default function MyItemsPage() {
                       </div>
                     </div>
                   </div>
+                  {canRenew(item) && (
+                    <div className="mt-4 border rounded-md p-3 flex items-center justify-between gap-3 text-sm" data-testid={`expiry-${item.id}`}>
+                      <p>
+                        {item.status === "expired"
+                          ? "This listing has expired and is no longer shown to buyers."
+                          : `This listing expires on ${new Date(item.expiresAt!).toLocaleDateString()}.`}
+                      </p>
+                      <Button
+                        size="sm"
+                        onClick={() => renewItemMutation.mutate(item.id)}
+                        disabled={renewItemMutation.isPending}
+                        data-testid={`button-renew-${item.id}`}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Renew
+                      </Button>
+                    </div>
+                  )}
+                  {reservationFor(item.id) && (
+                    <div className="mt-4 border rounded-md p-3 bg-amber-50 dark:bg-amber-950/20 text-sm" data-testid={`reservation-${item.id}`}>
+                      <p>
+                        Reserved for <span className="font-medium">{reservationFor(item.id)!.buyer.firstName} {reservationFor(item.id)!.buyer.lastName}</span>
+                        {" "}until {new Date(reservationFor(item.id)!.expiresAt).toLocaleString()}
+                      </p>
+                      <p className="flex items-center gap-2 mt-1">
+                        <KeyRound className="h-4 w-4" />
+                        Handoff code:
+                        <span className="font-mono text-base font-semibold tracking-widest" data-testid={`text-handoff-code-${item.id}`}>
+                          {reservationFor(item.id)!.handoffCode}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Show this code to the buyer at meetup. The item is marked sold once they enter it.
+                      </p>
+                    </div>
+                  )}
+                  {offerThreadsFor(item.id).length > 0 && (
+                    <div className="mt-4 space-y-3">
+                      <h5 className="text-sm font-semibold">Offers</h5>
+                      {offerThreadsFor(item.id).map(([buyerId, thread]) => (
+                        <div key={buyerId}>
+                          <p className="text-xs text-muted-foreground mb-1">
+                            From {thread[0].buyer.firstName} {thread[0].buyer.lastName}
+                          </p>
+                          <OfferThread item={item} offers={thread} currentUserId={user?.id ?? ""} buyerId={buyerId} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
+            {hasNextPage && (
+              <div className="text-center">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load More"}
+                </Button>
+              </div>
+            )}
           </div>
         ) : (
           <Card>
@@ -258,8 +488,14 @@ export default function MyItemsPage() {
               <p className="text-muted-foreground mb-4">
                 {activeTab === "active" 
                   ? "You haven't listed any active items yet."
+                  : activeTab === "reserved"
+                  ? "None of your items are reserved right now."
                   : activeTab === "sold"
                   ? "You haven't sold any items yet."
+                  : activeTab === "expired"
+                  ? "None of your listings have expired."
+                  : activeTab === "hidden"
+                  ? "None of your listings have been hidden by a moderator."
                   : "You don't have any draft items."}
               </p>
               {activeTab === "active" && (
@@ -271,6 +507,22 @@ export default function MyItemsPage() {
           </Card>
         )}
       </div>
+
+      {reservingItem && (
+        <ReserveItemDialog
+          item={reservingItem}
+          open={!!reservingItem}
+          onOpenChange={(open) => !open && setReservingItem(null)}
+        />
+      )}
+
+      {editingPhotosItem && (
+        <EditPhotosDialog
+          item={editingPhotosItem}
+          open={!!editingPhotosItem}
+          onOpenChange={(open) => !open && setEditingPhotosItem(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,13 +8,19 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { NavigationHeader } from "@/components/navigation-header";
+import { ReviewDialog } from "@/components/review-dialog";
+import { StarRating, Stars } from "@/components/star-rating";
 import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
 import { apiRequest } from "@/lib/queryClient";
-import { CheckCircle } from "lucide-react";
+import { Link } from "wouter";
+import { CheckCircle, Package, Search, Trash } from "lucide-react";
+import type { Item, ReviewWithDetails, SavedSearch, SellerRating, WithPhotoUrls } from "@shared/schema";
 
 export default function ProfilePage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { formatLocation: locationName } = useLocations();
   const queryClient = useQueryClient();
   
   const [formData, setFormData] = useState({
@@ -46,16 +52,73 @@ export default function ProfilePage() {
     },
   });
 
+  const { data: savedSearches = [] } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const { data: purchases = [] } = useQuery<WithPhotoUrls<Item>[]>({
+    queryKey: ["/api/purchases"],
+  });
+
+  const { data: awaitingReview = [] } = useQuery<Item[]>({
+    queryKey: ["/api/reviews/pending"],
+  });
+
+  const { data: myReviews } = useQuery<{ rating: SellerRating; reviews: ReviewWithDetails[] }>({
+    queryKey: [`/api/users/${user?.id}/reviews`],
+    enabled: !!user,
+  });
+
+  const deleteSavedSearchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Saved search removed",
+        description: "You will no longer get alerts for this search",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove saved search",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     updateProfileMutation.mutate(formData);
   };
 
-  const formatLocation = (location?: string | null) => {
-    if (!location) return "Not specified";
-    return location.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join('-');
+  const formatLocation = (location?: string | null) => locationName(location) || "Not specified";
+
+  const describeSavedSearch = (savedSearch: SavedSearch) => {
+    const parts: string[] = [];
+    if (savedSearch.search) parts.push(`"${savedSearch.search}"`);
+    if (savedSearch.category) parts.push(savedSearch.category.charAt(0).toUpperCase() + savedSearch.category.slice(1));
+    if (savedSearch.location) parts.push(formatLocation(savedSearch.location));
+    if (savedSearch.minPrice !== null && savedSearch.maxPrice !== null) {
+      parts.push(`₹${savedSearch.minPrice} - ₹${savedSearch.maxPrice}`);
+    } else if (savedSearch.minPrice !== null) {
+      parts.push(`Above ₹${savedSearch.minPrice}`);
+    } else if (savedSearch.maxPrice !== null) {
+      parts.push(`Under ₹${savedSearch.maxPrice}`);
+    }
+    return parts.join(" · ");
+  };
+
+  const savedSearchHref = (savedSearch: SavedSearch) => {
+    const params = new URLSearchParams();
+    if (savedSearch.search) params.append("search", savedSearch.search);
+    if (savedSearch.category) params.append("category", savedSearch.category);
+    if (savedSearch.location) params.append("location", savedSearch.location);
+    if (savedSearch.minPrice !== null) params.append("minPrice", String(savedSearch.minPrice));
+    if (savedSearch.maxPrice !== null) params.append("maxPrice", String(savedSearch.maxPrice));
+    return `/browse?${params.toString()}`;
   };
 
   const getInitials = (firstName?: string, lastName?: string) => {
@@ -87,6 +150,11 @@ export default function ProfilePage() {
                   <CheckCircle className="h-4 w-4 text-accent mr-1" />
                   <span className="text-xs text-accent">Verified Student</span>
                 </div>
+                {myReviews && (
+                  <div className="flex justify-center mt-2">
+                    <StarRating rating={myReviews.rating} size="md" />
+                  </div>
+                )}
               </div>
               
               <div className="space-y-4">
@@ -188,7 +256,7 @@ export default function ProfilePage() {
                       data-testid="checkbox-email-notifications"
                     />
                     <Label htmlFor="email-notifications" className="text-sm cursor-pointer">
-                      Receive email notifications for messages
+                      Receive email notifications for messages and saved search alerts
                     </Label>
                   </div>
                   
@@ -203,6 +271,152 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Saved Searches</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {savedSearches.length > 0 ? (
+                  <div className="space-y-3">
+                    {savedSearches.map((savedSearch) => (
+                      <div
+                        key={savedSearch.id}
+                        className="flex items-center justify-between gap-3 border rounded-md p-3"
+                        data-testid={`saved-search-${savedSearch.id}`}
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{savedSearch.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {describeSavedSearch(savedSearch)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Button variant="outline" size="sm" asChild data-testid={`button-view-saved-search-${savedSearch.id}`}>
+                            <Link href={savedSearchHref(savedSearch)}>
+                              <Search className="h-4 w-4 mr-1" />
+                              View
+                            </Link>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => deleteSavedSearchMutation.mutate(savedSearch.id)}
+                            disabled={deleteSavedSearchMutation.isPending}
+                            data-testid={`button-delete-saved-search-${savedSearch.id}`}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Save a search from the Browse page to get alerted when matching items are listed.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {awaitingReview.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Awaiting Your Review</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {awaitingReview.map((deal) => {
+                      const role = deal.sellerId === user?.id ? "buyer" : "seller";
+                      return (
+                        <div
+                          key={deal.id}
+                          className="flex items-center justify-between gap-3 border rounded-md p-3"
+                          data-testid={`awaiting-review-${deal.id}`}
+                        >
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{deal.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              How was the {role}?
+                            </p>
+                          </div>
+                          <ReviewDialog item={deal} revieweeName={`the ${role}`} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Purchases</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {purchases.length > 0 ? (
+                  <div className="space-y-3">
+                    {purchases.map((purchase) => (
+                      <Link
+                        key={purchase.id}
+                        href={`/items/${purchase.id}`}
+                        className="flex items-center gap-3 border rounded-md p-3 hover:bg-muted/50 transition-colors"
+                        data-testid={`purchase-${purchase.id}`}
+                      >
+                        {purchase.photoUrls.length > 0 ? (
+                          <img src={purchase.photoUrls[0].thumb} alt={purchase.title ?? ""} className="w-12 h-12 object-cover rounded" />
+                        ) : (
+                          <div className="w-12 h-12 bg-muted rounded flex items-center justify-center">
+                            <Package className="h-5 w-5 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium truncate">{purchase.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {purchase.soldAt ? `Received ${new Date(purchase.soldAt).toLocaleDateString()}` : "Received"}
+                          </p>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Items you receive through a confirmed handoff or swap show up here.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Reviews</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {myReviews && myReviews.reviews.length > 0 ? (
+                  <div className="space-y-4">
+                    {myReviews.reviews.map((review) => (
+                      <div key={review.id} className="border-b last:border-0 pb-3 last:pb-0" data-testid={`review-${review.id}`}>
+                        <div className="flex items-center justify-between">
+                          <Stars value={review.rating} />
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(review.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {review.comment && <p className="text-sm mt-1">{review.comment}</p>}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {review.reviewer.firstName} {review.reviewer.lastName} · {review.item.title}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Reviews from people you've traded with show up here.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Account Statistics</CardTitle>
@@ -1,6 +1,6 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,14 +10,37 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { NavigationHeader } from "@/components/navigation-header";
+import { BookDetailsFields } from "@/components/book-details-fields";
+import { CategoryAttributeFields } from "@/components/category-attribute-fields";
+import { LocationOptions } from "@/components/location-options";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Upload, X } from "lucide-react";
+import { MAX_ITEM_PHOTOS, attributeFieldsFor, normalizeIsbn, type Item, type ItemAttributes, type PriceSuggestion, type WithPhotoUrls } from "@shared/schema";
+
+const AUTOSAVE_DELAY_MS = 1500;
+// Wait for the seller to stop typing the title before asking for a new price range
+const PRICE_SUGGESTION_DELAY_MS = 500;
+
+type DraftPhoto = { name: string; thumb: string };
+
+function draftPhotos(draft: WithPhotoUrls<Item>): DraftPhoto[] {
+  return (draft.photos ?? []).map((name, index) => ({ name, thumb: draft.photoUrls[index].thumb }));
+}
+
+// datetime-local inputs take local time with no timezone
+function toDateTimeLocal(date: Date | string) {
+  const local = new Date(date);
+  return new Date(local.getTime() - local.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
 
 export default function SellItemPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const searchString = useSearch();
+  // Drafts are resumed from My Items via /sell?draft=<id>
+  const [resumeId] = useState(() => new URLSearchParams(searchString).get("draft"));
   
   const [formData, setFormData] = useState({
     title: "",
@@ -27,13 +50,157 @@ export default function SellItemPage() {
     price: "",
     location: "",
     isExchangeable: false,
+    isGiveaway: false,
+    giveawayAutoOffer: true,
+    isAuction: false,
+    auctionMinIncrement: "",
+    auctionEndsAt: "",
+    isbn: "",
+    author: "",
+    edition: "",
+    courseCodes: [] as string[],
+    attributes: {} as ItemAttributes,
+  });
+  const [photos, setPhotos] = useState<DraftPhoto[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [suggestionTitle, setSuggestionTitle] = useState("");
+
+  const draftIdRef = useRef<string | null>(resumeId);
+  const formRef = useRef(formData);
+  formRef.current = formData;
+  const isDirtyRef = useRef(isDirty);
+  isDirtyRef.current = isDirty;
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve());
+
+  const { data: resumedDraft, isError: resumeFailed } = useQuery<WithPhotoUrls<Item>>({
+    queryKey: [`/api/items/draft/${resumeId}`],
+    enabled: !!resumeId,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!resumedDraft) return;
+    setFormData({
+      title: resumedDraft.title ?? "",
+      description: resumedDraft.description ?? "",
+      category: resumedDraft.category ?? "",
+      condition: resumedDraft.condition ?? "",
+      price: resumedDraft.price !== null ? String(resumedDraft.price) : "",
+      location: resumedDraft.location ?? "",
+      isExchangeable: resumedDraft.isExchangeable,
+      isGiveaway: resumedDraft.isGiveaway,
+      giveawayAutoOffer: resumedDraft.giveawayAutoOffer,
+      isAuction: resumedDraft.isAuction,
+      auctionMinIncrement: resumedDraft.auctionMinIncrement !== null ? String(resumedDraft.auctionMinIncrement) : "",
+      auctionEndsAt: resumedDraft.auctionEndsAt ? toDateTimeLocal(resumedDraft.auctionEndsAt) : "",
+      isbn: resumedDraft.isbn ?? "",
+      author: resumedDraft.author ?? "",
+      edition: resumedDraft.edition ?? "",
+      courseCodes: resumedDraft.courseCodes ?? [],
+      attributes: resumedDraft.attributes ?? {},
+    });
+    setPhotos(draftPhotos(resumedDraft));
+  }, [resumedDraft]);
+
+  useEffect(() => {
+    if (resumeFailed) {
+      // Already published or not ours - start a fresh listing instead
+      draftIdRef.current = null;
+      toast({
+        title: "Draft not found",
+        description: "Starting a new listing instead",
+        variant: "destructive",
+      });
+    }
+  }, [resumeFailed]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSuggestionTitle(formData.title.trim()), PRICE_SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData.title]);
+
+  const suggestionParams = new URLSearchParams({
+    category: formData.category,
+    condition: formData.condition,
+    ...(suggestionTitle && { title: suggestionTitle }),
+  });
+  const { data: priceSuggestion } = useQuery<PriceSuggestion | null>({
+    queryKey: [`/api/items/price-suggestion?${suggestionParams}`],
+    enabled: !!formData.category && !!formData.condition && !formData.isGiveaway,
   });
-  const [photos, setPhotos] = useState<File[]>([]);
-  const [photoURLs, setPhotoURLs] = useState<string[]>([]);
 
-  const createItemMutation = useMutation({
-    mutationFn: async (data: FormData) => {
-      const res = await apiRequest("POST", "/api/items", data);
+  const updateForm = (changes: Partial<typeof formData>) => {
+    setFormData((prev) => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  // Attributes shared by both categories (e.g. a gadget's brand when switching to electronics) are kept
+  const changeCategory = (category: string) => {
+    const keys = new Set(attributeFieldsFor(category).map((field) => field.key));
+    updateForm({
+      category,
+      attributes: Object.fromEntries(Object.entries(formData.attributes).filter(([key]) => keys.has(key))),
+    });
+  };
+
+  // Saves run one at a time so the first one creates the draft and later ones update it
+  const saveDraft = (): Promise<Item> => {
+    setIsDirty(false);
+    const run = saveQueue.current.catch(() => {}).then(async () => {
+      setSaveState("saving");
+      const { price, isbn, author, edition, courseCodes, auctionMinIncrement, auctionEndsAt, ...fields } = formRef.current;
+      const isBook = fields.category === "books";
+      const body = {
+        ...fields,
+        price: price === "" ? null : Number(price),
+        auctionMinIncrement: auctionMinIncrement === "" ? null : Number(auctionMinIncrement),
+        auctionEndsAt: auctionEndsAt ? new Date(auctionEndsAt).toISOString() : "",
+        // Book details are cleared if the seller switches away from books
+        author: isBook ? author : "",
+        edition: isBook ? edition : "",
+        courseCodes: isBook ? courseCodes : [],
+        // A half-typed ISBN isn't saved until it's complete
+        ...(!isBook || isbn.trim() === "" ? { isbn: "" } : normalizeIsbn(isbn) ? { isbn } : {}),
+      };
+      const res = draftIdRef.current
+        ? await apiRequest("PUT", `/api/items/draft/${draftIdRef.current}`, body)
+        : await apiRequest("POST", "/api/items/draft", body);
+      const draft: Item = await res.json();
+      if (!draftIdRef.current) {
+        draftIdRef.current = draft.id;
+        // Keep the draft id in the URL so a refresh picks up where the seller left off
+        setLocation(`/sell?draft=${draft.id}`, { replace: true });
+      }
+      setSaveState("saved");
+      return draft;
+    });
+    run.catch(() => setSaveState("error"));
+    saveQueue.current = run;
+    return run;
+  };
+
+  const ensureDraftId = async () => draftIdRef.current ?? (await saveDraft()).id;
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timer = setTimeout(() => {
+      saveDraft().catch(() => {});
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData, isDirty]);
+
+  // Don't drop the last few keystrokes when navigating away mid-debounce
+  useEffect(() => {
+    return () => {
+      if (isDirtyRef.current) saveDraft().catch(() => {});
+    };
+  }, []);
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const draft = await saveDraft();
+      const res = await apiRequest("POST", `/api/items/draft/${draft.id}/publish`);
       return res.json();
     },
     onSuccess: () => {
@@ -54,41 +221,86 @@ export default function SellItemPage() {
     },
   });
 
+  const saveDraftMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: () => {
+      toast({
+        title: "Draft saved",
+        description: "You can finish it later from My Items.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-items"] });
+      setLocation("/my-items?tab=draft");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save draft",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadPhotosMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const draftId = await ensureDraftId();
+      const data = new FormData();
+      files.forEach((file) => data.append("photos", file));
+      const res = await apiRequest("POST", `/api/items/draft/${draftId}/photos`, data);
+      return res.json();
+    },
+    onSuccess: (draft: WithPhotoUrls<Item>) => {
+      setPhotos(draftPhotos(draft));
+      setSaveState("saved");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to upload photos",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePhotoMutation = useMutation({
+    mutationFn: async (filename: string) => {
+      const res = await apiRequest("DELETE", `/api/items/draft/${draftIdRef.current}/photos/${filename}`);
+      return res.json();
+    },
+    onSuccess: (draft: WithPhotoUrls<Item>) => {
+      setPhotos(draftPhotos(draft));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove photo",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    if (photos.length + files.length > 5) {
+    e.target.value = "";
+    if (files.length === 0) return;
+    if (photos.length + files.length > MAX_ITEM_PHOTOS) {
       toast({
         title: "Too many photos",
-        description: "You can upload maximum 5 photos",
+        description: `You can upload maximum ${MAX_ITEM_PHOTOS} photos`,
         variant: "destructive",
       });
       return;
     }
 
-    const newPhotos = [...photos, ...files];
-    setPhotos(newPhotos);
-
-    // Create preview URLs
-    const newURLs = files.map(file => URL.createObjectURL(file));
-    setPhotoURLs([...photoURLs, ...newURLs]);
-  };
-
-  const removePhoto = (index: number) => {
-    const newPhotos = photos.filter((_, i) => i !== index);
-    const newURLs = photoURLs.filter((_, i) => i !== index);
-    
-    // Revoke the URL to free memory
-    URL.revokeObjectURL(photoURLs[index]);
-    
-    setPhotos(newPhotos);
-    setPhotoURLs(newURLs);
+    uploadPhotosMutation.mutate(files);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
+    const missingAttribute = attributeFieldsFor(formData.category)
+      .some((field) => field.required && !formData.attributes[field.key]?.trim());
     if (!formData.title || !formData.description || !formData.category || 
-        !formData.condition || !formData.price || !formData.location) {
+        !formData.condition || !formData.price || !formData.location || missingAttribute) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -96,19 +308,33 @@ export default function SellItemPage() {
       });
       return;
     }
+    if (formData.isAuction && (!formData.auctionMinIncrement || !formData.auctionEndsAt)) {
+      toast({
+        title: "Validation Error",
+        description: "Set a minimum increment and end time for the auction",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.category === "books" && formData.isbn.trim() && !normalizeIsbn(formData.isbn)) {
+      toast({
+        title: "Invalid ISBN",
+        description: "Fix the ISBN or leave it empty",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    const data = new FormData();
-    Object.entries(formData).forEach(([key, value]) => {
-      data.append(key, value.toString());
-    });
-    
-    photos.forEach(photo => {
-      data.append("photos", photo);
-    });
-
-    createItemMutation.mutate(data);
+    publishMutation.mutate();
   };
 
+  const saveStateText = {
+    idle: null,
+    saving: "Saving...",
+    saved: "Draft saved",
+    error: "Couldn't save draft",
+  }[saveState];
+
   return (
     <div className="min-h-screen bg-background">
       <NavigationHeader />
@@ -116,7 +342,17 @@ export default function SellItemPage() {
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <Card>
           <CardHeader>
-            <CardTitle>List New Item</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>{resumeId ? "Finish Your Draft" : "List New Item"}</CardTitle>
+              {saveStateText && (
+                <span
+                  className={`text-xs ${saveState === "error" ? "text-destructive" : "text-muted-foreground"}`}
+                  data-testid="text-save-state"
+                >
+                  {saveStateText}
+                </span>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
@@ -127,7 +363,7 @@ export default function SellItemPage() {
                   <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
                     <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-4" />
                     <p className="text-muted-foreground mb-2">Drop photos here or click to upload</p>
-                    <p className="text-xs text-muted-foreground mb-4">Maximum 5 photos, up to 10MB each</p>
+                    <p className="text-xs text-muted-foreground mb-4">Maximum {MAX_ITEM_PHOTOS} photos, up to 10MB each</p>
                     <input
                       type="file"
                       multiple
@@ -137,20 +373,20 @@ export default function SellItemPage() {
                       id="photo-upload"
                       data-testid="input-photos"
                     />
-                    <Button type="button" variant="outline" asChild>
+                    <Button type="button" variant="outline" disabled={uploadPhotosMutation.isPending} asChild>
                       <label htmlFor="photo-upload" className="cursor-pointer">
-                        Choose Files
+                        {uploadPhotosMutation.isPending ? "Uploading..." : "Choose Files"}
                       </label>
                     </Button>
                   </div>
                   
                   {/* Photo previews */}
-                  {photoURLs.length > 0 && (
+                  {photos.length > 0 && (
                     <div className="grid grid-cols-5 gap-2 mt-4">
-                      {photoURLs.map((url, index) => (
-                        <div key={index} className="relative">
+                      {photos.map((photo, index) => (
+                        <div key={photo.name} className="relative">
                           <img
-                            src={url}
+                            src={photo.thumb}
                             alt={`Preview ${index + 1}`}
                             className="w-full h-20 object-cover rounded-md"
                           />
@@ -159,7 +395,8 @@ export default function SellItemPage() {
                             variant="destructive"
                             size="sm"
                             className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0"
-                            onClick={() => removePhoto(index)}
+                            disabled={removePhotoMutation.isPending}
+                            onClick={() => removePhotoMutation.mutate(photo.name)}
                             data-testid={`button-remove-photo-${index}`}
                           >
                             <X className="h-3 w-3" />
@@ -178,7 +415,7 @@ export default function SellItemPage() {
                   id="title"
                   placeholder="e.g., iPhone 13 128GB Blue"
                   value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  onChange={(e) => updateForm({ title: e.target.value })}
                   required
                   data-testid="input-title"
                 />
@@ -192,7 +429,7 @@ export default function SellItemPage() {
                   rows={4}
                   placeholder="Describe your item in detail..."
                   value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  onChange={(e) => updateForm({ description: e.target.value })}
                   required
                   data-testid="textarea-description"
                 />
@@ -202,46 +439,69 @@ export default function SellItemPage() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label>Category *</Label>
-                  <Select value={formData.category} onValueChange={(value) => setFormData({ ...formData, category: value })}>
+                  <Select value={formData.category} onValueChange={changeCategory}>
                     <SelectTrigger data-testid="select-category">
                       <SelectValue placeholder="Select category" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="books">Books</SelectItem>
                       <SelectItem value="gadgets">Gadgets</SelectItem>
+                      <SelectItem value="electronics">Electronics</SelectItem>
                       <SelectItem value="uniforms">Uniforms</SelectItem>
+                      <SelectItem value="sports">Sports</SelectItem>
                       <SelectItem value="other">Other</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
-                  <Label htmlFor="price">Price (₹) *</Label>
+                  <Label htmlFor="price">{formData.isAuction ? "Starting Price" : "Price"} (₹) *</Label>
                   <Input
                     id="price"
                     type="number"
                     placeholder="0"
                     min="0"
                     value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    onChange={(e) => updateForm({ price: e.target.value })}
+                    disabled={formData.isGiveaway}
                     required
                     data-testid="input-price"
                   />
+                  {priceSuggestion && !formData.isGiveaway && (
+                    <p className="text-xs text-muted-foreground mt-1" data-testid="text-price-suggestion">
+                      Similar items {priceSuggestion.basis === "sold" ? "sold" : "are listed"} for ₹{priceSuggestion.low.toLocaleString()}
+                      {priceSuggestion.high !== priceSuggestion.low && `–₹${priceSuggestion.high.toLocaleString()}`}.{" "}
+                      <button
+                        type="button"
+                        className="text-primary hover:underline"
+                        onClick={() => updateForm({ price: String(priceSuggestion.median) })}
+                        data-testid="button-use-suggested-price"
+                      >
+                        Use ₹{priceSuggestion.median.toLocaleString()}
+                      </button>
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {formData.category === "books" && (
+                <BookDetailsFields details={formData} title={formData.title} onChange={updateForm} />
+              )}
+
+              <CategoryAttributeFields
+                category={formData.category}
+                attributes={formData.attributes}
+                onChange={(attributes) => updateForm({ attributes })}
+              />
+
               {/* Location */}
               <div>
                 <Label>Location *</Label>
-                <Select value={formData.location} onValueChange={(value) => setFormData({ ...formData, location: value })}>
+                <Select value={formData.location} onValueChange={(value) => updateForm({ location: value })}>
                   <SelectTrigger data-testid="select-location">
-                    <SelectValue placeholder="Select hostel block" />
+                    <SelectValue placeholder="Select location" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="a-block">A-Block</SelectItem>
-                    <SelectItem value="b-block">B-Block</SelectItem>
-                    <SelectItem value="c-block">C-Block</SelectItem>
-                    <SelectItem value="d-block">D-Block</SelectItem>
-                    <SelectItem value="e-block">E-Block</SelectItem>
+                    <LocationOptions />
                   </SelectContent>
                 </Select>
               </div>
@@ -251,7 +511,7 @@ export default function SellItemPage() {
                 <Label className="text-base font-medium">Condition *</Label>
                 <RadioGroup
                   value={formData.condition}
-                  onValueChange={(value) => setFormData({ ...formData, condition: value })}
+                  onValueChange={(value) => updateForm({ condition: value })}
                   className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2"
                 >
                   {["new", "excellent", "good", "fair"].map((condition) => (
@@ -265,31 +525,123 @@ export default function SellItemPage() {
                 </RadioGroup>
               </div>
 
+              {/* Giveaway Option */}
+              {!formData.isAuction && (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="giveaway"
+                      checked={formData.isGiveaway}
+                      onCheckedChange={(checked) => updateForm(
+                        checked ? { isGiveaway: true, price: "0", isExchangeable: false } : { isGiveaway: false, price: "" }
+                      )}
+                      data-testid="checkbox-giveaway"
+                    />
+                    <Label htmlFor="giveaway" className="text-sm cursor-pointer">
+                      Give it away for free
+                    </Label>
+                  </div>
+                  {formData.isGiveaway && (
+                    <div className="flex items-start space-x-2 ml-6">
+                      <Checkbox
+                        id="giveaway-auto-offer"
+                        checked={formData.giveawayAutoOffer}
+                        onCheckedChange={(checked) => updateForm({ giveawayAutoOffer: !!checked })}
+                        data-testid="checkbox-giveaway-auto-offer"
+                      />
+                      <Label htmlFor="giveaway-auto-offer" className="text-sm cursor-pointer leading-snug">
+                        Offer it to whoever is next in the queue automatically
+                        <span className="block text-xs text-muted-foreground">
+                          Turn this off to pick someone from the queue yourself
+                        </span>
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Auction Option */}
+              {!formData.isGiveaway && (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="auction"
+                      checked={formData.isAuction}
+                      onCheckedChange={(checked) => updateForm(
+                        checked ? { isAuction: true, isExchangeable: false } : { isAuction: false }
+                      )}
+                      data-testid="checkbox-auction"
+                    />
+                    <Label htmlFor="auction" className="text-sm cursor-pointer">
+                      Sell by auction
+                    </Label>
+                  </div>
+                  {formData.isAuction && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 ml-6">
+                      <div>
+                        <Label htmlFor="auction-increment">Minimum Increment (₹) *</Label>
+                        <Input
+                          id="auction-increment"
+                          type="number"
+                          min="1"
+                          placeholder="50"
+                          value={formData.auctionMinIncrement}
+                          onChange={(e) => updateForm({ auctionMinIncrement: e.target.value })}
+                          data-testid="input-auction-increment"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="auction-ends-at">Ends At *</Label>
+                        <Input
+                          id="auction-ends-at"
+                          type="datetime-local"
+                          value={formData.auctionEndsAt}
+                          onChange={(e) => updateForm({ auctionEndsAt: e.target.value })}
+                          data-testid="input-auction-ends-at"
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground md:col-span-2">
+                        The highest bidder gets the item reserved for them when the auction ends. With no bids, it stays listed at the starting price.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Exchange Option */}
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="exchangeable"
-                  checked={formData.isExchangeable}
-                  onCheckedChange={(checked) => setFormData({ ...formData, isExchangeable: !!checked })}
-                  data-testid="checkbox-exchangeable"
-                />
-                <Label htmlFor="exchangeable" className="text-sm cursor-pointer">
-                  Open to exchange
-                </Label>
-              </div>
+              {!formData.isGiveaway && !formData.isAuction && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="exchangeable"
+                    checked={formData.isExchangeable}
+                    onCheckedChange={(checked) => updateForm({ isExchangeable: !!checked })}
+                    data-testid="checkbox-exchangeable"
+                  />
+                  <Label htmlFor="exchangeable" className="text-sm cursor-pointer">
+                    Open to exchange
+                  </Label>
+                </div>
+              )}
 
               {/* Submit Buttons */}
               <div className="flex space-x-4">
                 <Button 
                   type="submit" 
                   className="flex-1" 
-                  disabled={createItemMutation.isPending}
+                  disabled={publishMutation.isPending}
                   data-testid="button-list-item"
                 >
-                  {createItemMutation.isPending ? "Listing..." : "List Item"}
+                  {publishMutation.isPending ? "Listing..." : "List Item"}
                 </Button>
-                <Button type="button" variant="outline" className="px-6" data-testid="button-save-draft">
-                  Save Draft
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="px-6"
+                  onClick={() => saveDraftMutation.mutate()}
+                  disabled={saveDraftMutation.isPending}
+                  data-testid="button-save-draft"
+                >
+                  {saveDraftMutation.isPending ? "Saving..." : "Save Draft"}
                 </Button>
               </div>
             </form>
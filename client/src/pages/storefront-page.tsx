@@ -0,0 +1,235 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { NavigationHeader } from "@/components/navigation-header";
+import { ItemCard } from "@/components/item-card";
+import { StarRating, Stars } from "@/components/star-rating";
+import { useAuth } from "@/hooks/use-auth";
+import { CheckCircle, Package, User } from "lucide-react";
+import type { ReviewWithDetails, SellerRating, Storefront } from "@shared/schema";
+
+export default function StorefrontPage() {
+  const [, params] = useRoute("/users/:id");
+  const userId = params?.id;
+  const { user } = useAuth();
+
+  const { data: storefront, isLoading, error } = useQuery<Storefront>({
+    queryKey: [`/api/users/${userId}`],
+    enabled: !!userId,
+  });
+
+  const { data: sellerReviews } = useQuery<{ rating: SellerRating; reviews: ReviewWithDetails[] }>({
+    queryKey: [`/api/users/${userId}/reviews`],
+    enabled: !!storefront,
+  });
+
+  const getInitials = (firstName?: string, lastName?: string) => {
+    return `${firstName?.[0] || ""}${lastName?.[0] || ""}`.toUpperCase();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-muted-foreground">Loading storefront...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !storefront) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <User className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Seller not found</h3>
+              <p className="text-muted-foreground mb-4">
+                This account may have been removed.
+              </p>
+              <Button asChild data-testid="button-back-to-browse">
+                <Link href="/browse">Browse Items</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { profile, activeItems, soldItems } = storefront;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Seller Profile */}
+          <div className="space-y-4">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex flex-col items-center text-center mb-4">
+                  {profile.profilePicture ? (
+                    <img
+                      src={profile.profilePicture}
+                      alt={profile.firstName}
+                      className="w-20 h-20 rounded-full object-cover mb-3"
+                    />
+                  ) : (
+                    <div className="w-20 h-20 bg-primary rounded-full flex items-center justify-center mb-3">
+                      <span className="text-2xl font-semibold text-primary-foreground">
+                        {getInitials(profile.firstName, profile.lastName)}
+                      </span>
+                    </div>
+                  )}
+                  <h1 className="text-xl font-semibold" data-testid="text-storefront-name">
+                    {profile.firstName} {profile.lastName}
+                  </h1>
+                  {profile.isVerified && (
+                    <div className="flex items-center text-xs text-accent mt-1">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Verified Student
+                    </div>
+                  )}
+                  <div className="mt-2">
+                    <StarRating rating={profile.rating} size="md" />
+                  </div>
+                </div>
+
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Branch</span>
+                    <span className="font-medium">{profile.branch || "Not provided"}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Year</span>
+                    <span className="font-medium">{profile.year || "Not provided"}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Member Since</span>
+                    <span className="font-medium">
+                      {new Date(profile.createdAt).toLocaleDateString("en-US", {
+                        month: "short",
+                        year: "numeric",
+                      })}
+                    </span>
+                  </div>
+                </div>
+
+                {user?.id === profile.id && (
+                  <Button variant="outline" className="w-full mt-4" asChild data-testid="button-edit-profile">
+                    <Link href="/profile">Edit Profile</Link>
+                  </Button>
+                )}
+
+                {sellerReviews && sellerReviews.reviews.length > 0 && (
+                  <>
+                    <Separator className="my-4" />
+                    <h4 className="text-sm font-semibold mb-3">Recent Reviews</h4>
+                    <div className="space-y-3">
+                      {sellerReviews.reviews.slice(0, 5).map((review) => (
+                        <div key={review.id} className="text-sm" data-testid={`review-${review.id}`}>
+                          <div className="flex items-center justify-between">
+                            <Stars value={review.rating} />
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(review.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                          {review.comment && <p className="mt-1">{review.comment}</p>}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {review.reviewer.firstName} · {review.item.title}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Listings */}
+          <div className="lg:col-span-3">
+            <Tabs defaultValue="active">
+              <TabsList className="mb-4">
+                <TabsTrigger value="active" data-testid="tab-storefront-active">
+                  For Sale ({activeItems.length})
+                </TabsTrigger>
+                <TabsTrigger value="sold" data-testid="tab-storefront-sold">
+                  Recently Sold ({soldItems.length})
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="active">
+                {activeItems.length > 0 ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {activeItems.map((item) => (
+                      <ItemCard key={item.id} item={item} />
+                    ))}
+                  </div>
+                ) : (
+                  <Card>
+                    <CardContent className="p-8 text-center">
+                      <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground">{profile.firstName} has nothing for sale right now.</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+
+              <TabsContent value="sold">
+                {soldItems.length > 0 ? (
+                  <div className="space-y-3">
+                    {soldItems.map((item) => (
+                      <Card key={item.id} data-testid={`sold-item-${item.id}`}>
+                        <CardContent className="p-3 flex items-center gap-3">
+                          {item.photoUrls.length > 0 ? (
+                            <img src={item.photoUrls[0].thumb} alt={item.title ?? ""} className="w-14 h-14 object-cover rounded" />
+                          ) : (
+                            <div className="w-14 h-14 bg-muted rounded flex items-center justify-center">
+                              <Package className="h-5 w-5 text-muted-foreground" />
+                            </div>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{item.title ?? "Untitled"}</p>
+                            {item.soldAt && (
+                              <p className="text-xs text-muted-foreground">
+                                Sold {new Date(item.soldAt).toLocaleDateString()}
+                              </p>
+                            )}
+                          </div>
+                          <span className="font-semibold">
+                            {item.isGiveaway ? "Free" : `₹${item.price !== null ? item.price.toLocaleString() : "N/A"}`}
+                          </span>
+                          <Badge variant="secondary">Sold</Badge>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                ) : (
+                  <Card>
+                    <CardContent className="p-8 text-center">
+                      <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground">No sales in the last few months.</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { NavigationHeader } from "@/components/navigation-header";
+import { CreateWantedPostDialog } from "@/components/create-wanted-post-dialog";
+import { RespondWantedPostDialog } from "@/components/respond-wanted-post-dialog";
+import { LocationOptions } from "@/components/location-options";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLocations } from "@/hooks/use-locations";
+import { CheckCircle, MapPin, Megaphone, Package, Search, Trash2, XCircle } from "lucide-react";
+import type { WantedPost, WantedPostWithDetails } from "@shared/schema";
+
+const formatCategory = (category: string) => category.charAt(0).toUpperCase() + category.slice(1);
+
+function WantedPostSummary({ post }: { post: WantedPostWithDetails }) {
+  const { formatLocation } = useLocations();
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="font-semibold" data-testid={`text-wanted-title-${post.id}`}>{post.title}</h3>
+        <span className="text-sm font-semibold text-primary whitespace-nowrap">
+          {post.maxBudget !== null ? `Up to ₹${post.maxBudget.toLocaleString()}` : "Any budget"}
+        </span>
+      </div>
+      {post.description && <p className="text-sm text-muted-foreground">{post.description}</p>}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="secondary">{formatCategory(post.category)}</Badge>
+        <span className="flex items-center">
+          <MapPin className="h-3 w-3 mr-1" />
+          {formatLocation(post.preferredLocation) || "Anywhere"}
+        </span>
+        <span>· {new Date(post.createdAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function WantedPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const searchString = useSearch();
+  // Response notifications link to /wanted?tab=mine
+  const [tab, setTab] = useState(() => new URLSearchParams(searchString).get("tab") === "mine" ? "mine" : "browse");
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState("");
+  const [location, setLocation] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: posts = [], isLoading } = useQuery<WantedPostWithDetails[]>({
+    queryKey: ["/api/wanted", { search: debouncedSearch, category, location }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (debouncedSearch) params.append("search", debouncedSearch);
+      if (category && category !== "all") params.append("category", category);
+      if (location && location !== "all") params.append("location", location);
+      const res = await fetch(`/api/wanted?${params.toString()}`);
+      return res.json();
+    },
+  });
+
+  const { data: myPosts = [], isLoading: myPostsLoading } = useQuery<WantedPostWithDetails[]>({
+    queryKey: ["/api/wanted/mine"],
+  });
+
+  const invalidateWantedPosts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/wanted"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/wanted/mine"] });
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: WantedPost["status"] }) => {
+      const res = await apiRequest("PATCH", `/api/wanted/${id}`, { status });
+      return res.json();
+    },
+    onSuccess: (_, { status }) => {
+      invalidateWantedPosts();
+      toast({
+        title: status === "open" ? "Request reopened" : status === "fulfilled" ? "Marked as found" : "Request closed",
+        description: status === "open" ? "Sellers can see it again." : "It no longer shows up for sellers.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePostMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/wanted/${id}`);
+    },
+    onSuccess: () => {
+      invalidateWantedPosts();
+      toast({
+        title: "Request deleted",
+        description: "Your wanted post has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasFilters = Boolean(debouncedSearch)
+    || (category !== "" && category !== "all")
+    || (location !== "" && location !== "all");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">Wanted</h1>
+            <p className="text-muted-foreground">Things students are looking for. Got one? Link your listing.</p>
+          </div>
+          <CreateWantedPostDialog />
+        </div>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="browse" data-testid="tab-wanted-browse">Browse Requests</TabsTrigger>
+            <TabsTrigger value="mine" data-testid="tab-wanted-mine">My Requests ({myPosts.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="browse">
+            <Card className="mb-6">
+              <CardContent className="p-4 flex flex-col lg:flex-row gap-3">
+                <div className="flex-1 relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search requests, e.g. calculator, lab coat..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-wanted-search"
+                  />
+                </div>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger className="w-full lg:w-[150px]" data-testid="select-wanted-filter-category">
+                    <SelectValue placeholder="All Categories" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    <SelectItem value="books">Books</SelectItem>
+                    <SelectItem value="gadgets">Gadgets</SelectItem>
+                    <SelectItem value="uniforms">Uniforms</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={location} onValueChange={setLocation}>
+                  <SelectTrigger className="w-full lg:w-[150px]" data-testid="select-wanted-filter-location">
+                    <SelectValue placeholder="All Locations" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Locations</SelectItem>
+                    <LocationOptions />
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                <p className="mt-2 text-muted-foreground">Loading requests...</p>
+              </div>
+            ) : posts.length > 0 ? (
+              <div className="space-y-3">
+                {posts.map((post) => (
+                  <Card key={post.id} data-testid={`wanted-post-${post.id}`}>
+                    <CardContent className="p-4 space-y-3">
+                      <WantedPostSummary post={post} />
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs text-muted-foreground">
+                          Posted by{" "}
+                          <Link href={`/users/${post.poster.id}`} className="font-medium hover:underline">
+                            {post.poster.firstName} {post.poster.lastName}
+                          </Link>
+                          {post.responseCount > 0 && ` · ${post.responseCount} seller${post.responseCount !== 1 ? "s" : ""} responded`}
+                        </p>
+                        {post.userId !== user?.id && <RespondWantedPostDialog post={post} />}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Megaphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No requests found</h3>
+                  <p className="text-muted-foreground mb-4">
+                    {hasFilters ? "Try adjusting your filters" : "Nobody is looking for anything right now"}
+                  </p>
+                  {hasFilters && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setSearch("");
+                        setCategory("");
+                        setLocation("");
+                      }}
+                      data-testid="button-clear-wanted-filters"
+                    >
+                      Clear Filters
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="mine">
+            {myPostsLoading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                <p className="mt-2 text-muted-foreground">Loading your requests...</p>
+              </div>
+            ) : myPosts.length > 0 ? (
+              <div className="space-y-3">
+                {myPosts.map((post) => (
+                  <Card key={post.id} data-testid={`my-wanted-post-${post.id}`}>
+                    <CardContent className="p-4 space-y-3">
+                      <WantedPostSummary post={post} />
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={post.status === "open" ? "default" : "outline"} className="capitalize">
+                          {post.status === "fulfilled" ? "Found" : post.status}
+                        </Badge>
+                        {post.status === "open" ? (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => updateStatusMutation.mutate({ id: post.id, status: "fulfilled" })}
+                              disabled={updateStatusMutation.isPending}
+                              data-testid={`button-wanted-found-${post.id}`}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Mark Found
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => updateStatusMutation.mutate({ id: post.id, status: "closed" })}
+                              disabled={updateStatusMutation.isPending}
+                              data-testid={`button-wanted-close-${post.id}`}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Close
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateStatusMutation.mutate({ id: post.id, status: "open" })}
+                            disabled={updateStatusMutation.isPending}
+                            data-testid={`button-wanted-reopen-${post.id}`}
+                          >
+                            Reopen
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => deletePostMutation.mutate(post.id)}
+                          disabled={deletePostMutation.isPending}
+                          data-testid={`button-wanted-delete-${post.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+
+                      {post.responses && post.responses.length > 0 && (
+                        <div className="border-t pt-3 space-y-2">
+                          <p className="text-xs font-medium text-muted-foreground">Sellers who have one</p>
+                          {post.responses.map((response) => (
+                            <Link
+                              key={response.id}
+                              href={`/items/${response.item.id}`}
+                              className="flex items-center gap-3 rounded-md p-2 hover:bg-muted transition-colors"
+                              data-testid={`wanted-response-${response.id}`}
+                            >
+                              {response.item.photoUrls.length > 0 ? (
+                                <img src={response.item.photoUrls[0].thumb} alt={response.item.title ?? ""} className="w-10 h-10 object-cover rounded" />
+                              ) : (
+                                <div className="w-10 h-10 bg-muted rounded flex items-center justify-center">
+                                  <Package className="h-4 w-4 text-muted-foreground" />
+                                </div>
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium truncate">{response.item.title}</p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                  {response.seller.firstName} {response.seller.lastName}
+                                  {response.message && ` · ${response.message}`}
+                                </p>
+                              </div>
+                              <span className="text-sm font-semibold text-primary">
+                                ₹{response.item.price !== null ? response.item.price.toLocaleString() : "N/A"}
+                              </span>
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Megaphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No requests yet</h3>
+                  <p className="text-muted-foreground">
+                    Post what you're looking for and we'll tell you when someone lists it.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
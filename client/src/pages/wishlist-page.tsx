@@ -2,15 +2,19 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { NavigationHeader } from "@/components/navigation-header";
+import { SimilarItems } from "@/components/similar-items";
 import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
 import { apiRequest } from "@/lib/queryClient";
 import { Heart, Share, Package } from "lucide-react";
-import type { Wishlist, Item } from "@shared/schema";
+import { Link } from "wouter";
+import type { Wishlist, Item, WithPhotoUrls } from "@shared/schema";
 
-type WishlistItem = Wishlist & { item: Item };
+type WishlistItem = Wishlist & { item: WithPhotoUrls<Item> };
 
 export default function WishlistPage() {
   const { toast } = useToast();
+  const { formatLocation: locationName } = useLocations();
   const queryClient = useQueryClient();
 
   const { data: wishlistItems = [], isLoading } = useQuery<WishlistItem[]>({
@@ -50,14 +54,15 @@ export default function WishlistPage() {
   };
 
   const handleShare = (item: Item) => {
+    const url = `${window.location.origin}/items/${item.id}`;
     if (navigator.share) {
       navigator.share({
         title: item.title ?? 'Untitled',
         text: item.description ?? 'No description',
-        url: window.location.href,
+        url,
       });
     } else {
-      navigator.clipboard.writeText(window.location.href);
+      navigator.clipboard.writeText(url);
       toast({
         title: "Link copied",
         description: "Item link copied to clipboard",
@@ -65,12 +70,7 @@ export default function WishlistPage() {
     }
   };
 
-  const formatLocation = (location: string | null) => {
-    if (!location) return 'Unknown';
-    return location.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join('-');
-  };
+  const formatLocation = (location: string | null) => locationName(location) || "Unknown";
 
   const formatCategory = (category: string | null) => {
     if (!category) return 'Unknown';
@@ -107,9 +107,9 @@ export default function WishlistPage() {
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
             {wishlistItems.map(({ item, id: wishlistId }) => (
               <Card key={wishlistId} className="overflow-hidden">
-                {item.photos && item.photos.length > 0 ? (
+                {item.photoUrls.length > 0 ? (
                   <img
-                    src={`/uploads/${item.photos[0]}`}
+                    src={item.photoUrls[0].thumb}
                     alt={item.title ?? ''}
                     className="w-full h-48 object-cover"
                   />
@@ -134,39 +134,50 @@ export default function WishlistPage() {
                       <Heart className="h-4 w-4 fill-current" />
                     </Button>
                   </div>
-                  <h4 className="font-semibold text-sm mb-1" data-testid={`text-item-title-${item.id}`}>
-                    {item.title ?? 'Untitled'}
-                  </h4>
+                  <Link href={`/items/${item.id}`}>
+                    <h4 className="font-semibold text-sm mb-1 hover:text-primary transition-colors" data-testid={`text-item-title-${item.id}`}>
+                      {item.title ?? 'Untitled'}
+                    </h4>
+                  </Link>
                   <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
                     {item.description ?? 'No description'}
                   </p>
                   <div className="flex items-center justify-between mb-3">
                     <span className="text-lg font-bold text-primary" data-testid={`text-item-price-${item.id}`}>
-                      ₹{item.price !== null ? item.price.toLocaleString() : 'N/A'}
+                      {item.isGiveaway ? "Free" : `₹${item.price !== null ? item.price.toLocaleString() : "N/A"}`}
                     </span>
                     <span className="text-xs text-muted-foreground">
                       {formatLocation(item.location)}
                     </span>
                   </div>
-                  <div className="flex space-x-2">
-                    <Button
-                      className="flex-1"
-                      size="sm"
-                      onClick={() => handleContactSeller(item)}
-                      data-testid={`button-contact-seller-${item.id}`}
-                    >
-                      Contact Seller
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="px-3"
-                      onClick={() => handleShare(item)}
-                      data-testid={`button-share-${item.id}`}
-                    >
-                      <Share className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {item.status === "sold" ? (
+                    <div className="border-t pt-3 space-y-2">
+                      <span className="text-xs px-2 py-1 rounded text-green-600 bg-green-100" data-testid={`text-sold-${item.id}`}>
+                        Sold
+                      </span>
+                      <SimilarItems itemId={item.id} variant="compact" />
+                    </div>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <Button
+                        className="flex-1"
+                        size="sm"
+                        onClick={() => handleContactSeller(item)}
+                        data-testid={`button-contact-seller-${item.id}`}
+                      >
+                        Contact Seller
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="px-3"
+                        onClick={() => handleShare(item)}
+                        data-testid={`button-share-${item.id}`}
+                      >
+                        <Share className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
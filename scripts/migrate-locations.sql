@@ -0,0 +1,64 @@
+-- Moves hostel blocks from the hostel_block enum into the admin-managed locations table.
+--
+-- Existing databases: run this BEFORE `npm run db:push`, so the foreign keys are added after
+-- the locations they point at exist. New databases: run it after `npm run db:push` to add
+-- the default hostel blocks. Running it again is harmless.
+--
+--   psql "$DATABASE_URL" -f scripts/migrate-locations.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "locations" (
+  "id" varchar PRIMARY KEY NOT NULL,
+  "name" text NOT NULL,
+  "group_name" text NOT NULL,
+  "display_order" integer DEFAULT 0 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Ids match the old enum values, so stored values carry over unchanged
+INSERT INTO "locations" ("id", "name", "group_name", "display_order") VALUES
+  ('a-block', 'A-Block', 'Hostels', 1),
+  ('b-block', 'B-Block', 'Hostels', 2),
+  ('c-block', 'C-Block', 'Hostels', 3),
+  ('d-block', 'D-Block', 'Hostels', 4),
+  ('e-block', 'E-Block', 'Hostels', 5)
+ON CONFLICT ("id") DO NOTHING;
+
+ALTER TABLE "users" ALTER COLUMN "hostel_block" SET DATA TYPE varchar USING "hostel_block"::text;
+ALTER TABLE "items" ALTER COLUMN "location" SET DATA TYPE varchar USING "location"::text;
+ALTER TABLE "saved_searches" ALTER COLUMN "location" SET DATA TYPE varchar USING "location"::text;
+ALTER TABLE "wanted_posts" ALTER COLUMN "preferred_location" SET DATA TYPE varchar USING "preferred_location"::text;
+
+-- Lost-found locations were free text. Text naming a location is linked to it;
+-- anything else is kept as details and the location is left empty.
+ALTER TABLE "lost_found_items" ADD COLUMN IF NOT EXISTS "found_location_details" text;
+ALTER TABLE "lost_found_items" ALTER COLUMN "found_location" DROP NOT NULL;
+UPDATE "lost_found_items" SET "found_location_details" = "found_location"
+WHERE "found_location" IS NOT NULL AND NOT EXISTS (
+  SELECT 1 FROM "locations" l
+  WHERE l."id" = regexp_replace(lower(trim("found_location")), '[^a-z0-9]+', '-', 'g') OR lower(l."name") = lower(trim("found_location"))
+);
+UPDATE "lost_found_items" SET "found_location" = (
+  SELECT l."id" FROM "locations" l
+  WHERE l."id" = regexp_replace(lower(trim("found_location")), '[^a-z0-9]+', '-', 'g') OR lower(l."name") = lower(trim("found_location"))
+  LIMIT 1
+)
+WHERE "found_location" IS NOT NULL;
+
+-- Constraint names match what drizzle-kit generates, so db:push sees nothing left to change
+ALTER TABLE "users" DROP CONSTRAINT IF EXISTS "users_hostel_block_locations_id_fk";
+ALTER TABLE "users" ADD CONSTRAINT "users_hostel_block_locations_id_fk" FOREIGN KEY ("hostel_block") REFERENCES "public"."locations"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "items" DROP CONSTRAINT IF EXISTS "items_location_locations_id_fk";
+ALTER TABLE "items" ADD CONSTRAINT "items_location_locations_id_fk" FOREIGN KEY ("location") REFERENCES "public"."locations"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "saved_searches" DROP CONSTRAINT IF EXISTS "saved_searches_location_locations_id_fk";
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_location_locations_id_fk" FOREIGN KEY ("location") REFERENCES "public"."locations"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "wanted_posts" DROP CONSTRAINT IF EXISTS "wanted_posts_preferred_location_locations_id_fk";
+ALTER TABLE "wanted_posts" ADD CONSTRAINT "wanted_posts_preferred_location_locations_id_fk" FOREIGN KEY ("preferred_location") REFERENCES "public"."locations"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "lost_found_items" DROP CONSTRAINT IF EXISTS "lost_found_items_found_location_locations_id_fk";
+ALTER TABLE "lost_found_items" ADD CONSTRAINT "lost_found_items_found_location_locations_id_fk" FOREIGN KEY ("found_location") REFERENCES "public"."locations"("id") ON DELETE no action ON UPDATE no action;
+
+DROP TYPE IF EXISTS "public"."hostel_block";
+
+COMMIT;
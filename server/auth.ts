@@ -101,7 +101,7 @@ export function setupAuth(app: Express) {
       async (
         email: string,
         password: string,
-        done: (err: any, user?: Express.User | false) => void
+        done: (err: any, user?: Express.User | false, info?: { message: string }) => void
       ) => {
         try {
           console.log("[DEBUG] Login attempt for:", email);
@@ -115,7 +115,7 @@ export function setupAuth(app: Express) {
           if (!user.isVerified) {
             return done(null, false); // User needs to verify email first
           }
-          
+
           // Check if user has a password (local auth) and it's not null
           if (!user.password) return done(null, false);
 
@@ -124,6 +124,11 @@ export function setupAuth(app: Express) {
 
           if (!ok) return done(null, false);
 
+          // Only checked once the password matches, so the message doesn't reveal which accounts are suspended
+          if (user.isSuspended) {
+            return done(null, false, { message: "Your account has been suspended" });
+          }
+
           return done(null, user);
         } catch (error) {
           return done(error as any);
@@ -155,6 +160,10 @@ export function setupAuth(app: Express) {
             // Check if user already exists
             let user = await storage.getUserByEmail(email);
 
+            if (user?.isSuspended) {
+              return done(null, false);
+            }
+
             if (user) {
               // Update Google ID if not set
               if (!user.googleId) {
@@ -209,13 +218,16 @@ export function setupAuth(app: Express) {
   app.post("/api/register", async (req, res, next) => {
     console.log("[DEBUG] POST /api/register handler called with body:", req.body);
     try {
-      // Normalize hostelBlock to lowercase to match schema enum values
+      // Location ids are lowercase slugs
       const normalizedBody = {
         ...req.body,
         hostelBlock: req.body.hostelBlock ? req.body.hostelBlock.toLowerCase() : req.body.hostelBlock
       };
       
       const userData = insertUserSchema.parse(normalizedBody);
+      if (userData.hostelBlock && !(await storage.getLocation(userData.hostelBlock))?.isActive) {
+        return res.status(400).json({ message: "Pick a hostel block from the list" });
+      }
       const existingUser = await storage.getUserByEmail(userData.email);
       if (existingUser) {
         return res.status(400).json({ message: "Email already exists" });
@@ -296,7 +308,7 @@ export function setupAuth(app: Express) {
       (err: any, user: Express.User | false, info: any) => {
         if (err) return next(err);
         if (!user) {
-          return res.status(401).json({ message: "Invalid email or password" });
+          return res.status(401).json({ message: info?.message || "Invalid email or password" });
         }
         req.login(user, (loginErr: any) => {
           if (loginErr) return next(loginErr);
@@ -0,0 +1,200 @@
+import { parse } from "csv-parse/sync";
+import AdmZip from "adm-zip";
+import { randomBytes } from "crypto";
+import path from "path";
+import { z } from "zod";
+import { processPhoto, deletePhoto } from "./images";
+import { attributeFieldsFor, insertItemSchema, itemAttributesSchema, locationSlug, type ImportRowError, type InsertItem, type ItemAttributes, type Location } from "@shared/schema";
+
+export const MAX_IMPORT_ROWS = 100;
+const MAX_PHOTOS_PER_ROW = 5;
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024; // Same limit as single photo uploads
+const MAX_ARCHIVE_ENTRIES = MAX_IMPORT_ROWS * MAX_PHOTOS_PER_ROW * 2;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024; // Total inflated size of the photos an import uses
+const PHOTO_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif"]);
+
+export interface ImportRow {
+  row: number;
+  item: InsertItem;
+  photoNames: string[];
+}
+
+// Image entries by lower-cased file name; nothing is inflated until a row uses it
+export type PhotoArchive = Map<string, AdmZip.IZipEntry>;
+
+// Photos in the zip are matched by file name only, ignoring folders and case
+export function readPhotoArchive(buffer: Buffer): PhotoArchive | { error: string } {
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(buffer).getEntries();
+  } catch {
+    return { error: "Photos must be uploaded as a .zip file" };
+  }
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    return { error: `The zip can hold at most ${MAX_ARCHIVE_ENTRIES} files` };
+  }
+
+  const photos: PhotoArchive = new Map();
+  for (const entry of entries) {
+    if (entry.isDirectory) continue;
+    const name = path.basename(entry.entryName).toLowerCase();
+    // Skip macOS metadata and anything that isn't an image
+    if (name.startsWith("._") || !PHOTO_EXTENSIONS.has(path.extname(name))) continue;
+    if (entry.header.size > MAX_PHOTO_BYTES) {
+      return { error: `${name} is larger than 10MB` };
+    }
+    photos.set(name, entry);
+  }
+  return photos;
+}
+
+// Inflates only the photos valid rows reference. The declared size caps how much zlib will
+// inflate, and the actual size is checked again since the zip header can't be trusted.
+export function inflateImportPhotos(archive: PhotoArchive, rows: ImportRow[]): Map<string, Buffer> | { error: string } {
+  const photos = new Map<string, Buffer>();
+  let totalBytes = 0;
+  for (const name of new Set(rows.flatMap((row) => row.photoNames))) {
+    const entry = archive.get(name);
+    if (!entry) continue;
+    if (entry.header.size === 0) {
+      return { error: `${name} is empty` };
+    }
+
+    let data: Buffer;
+    try {
+      data = entry.getData();
+    } catch {
+      return { error: `${name} could not be read from the zip` };
+    }
+    if (data.length > MAX_PHOTO_BYTES) {
+      return { error: `${name} is larger than 10MB` };
+    }
+    totalBytes += data.length;
+    if (totalBytes > MAX_ARCHIVE_BYTES) {
+      return { error: "The photos used by this import add up to more than 200MB" };
+    }
+    photos.set(name, data);
+  }
+  return photos;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.errors.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+}
+
+// Attribute columns are the snake_case keys (e.g. uniform_type); select values can be given by value or label
+function readAttributes(record: Record<string, string>, category: string | undefined): ItemAttributes {
+  const attributes: ItemAttributes = {};
+  for (const field of attributeFieldsFor(category)) {
+    const raw = record[field.key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`)];
+    if (!raw) continue;
+    const option = field.type === "select"
+      ? field.options.find((o) => o.value === raw.toLowerCase() || o.label.toLowerCase() === raw.toLowerCase())
+      : undefined;
+    attributes[field.key] = option?.value ?? raw;
+  }
+  return attributes;
+}
+
+// Locations can be given by id (e.g. a-block) or by name (e.g. "A Block"); retired ones don't match
+function matchLocation(raw: string | undefined, locations: Location[]): string | undefined {
+  if (!raw) return undefined;
+  const location = locations.find((l) => l.isActive && (l.id === locationSlug(raw) || l.name.toLowerCase() === raw.toLowerCase()));
+  return location?.id;
+}
+
+// Validates each CSV row against insertItemSchema; `error` is only set when the file as a whole is unusable
+export function parseListingCsv(
+  buffer: Buffer,
+  photos: ReadonlyMap<string, unknown>,
+  locations: Location[]
+): { rows: ImportRow[]; errors: ImportRowError[] } | { error: string } {
+  let records: Record<string, string>[];
+  try {
+    records = parse(buffer, {
+      columns: (header: string[]) => header.map((column) => column.trim().toLowerCase()),
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+    });
+  } catch (error) {
+    return { error: `Could not read CSV: ${(error as Error).message}` };
+  }
+
+  if (records.length === 0) {
+    return { error: "The CSV has no listings in it" };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `You can import up to ${MAX_IMPORT_ROWS} listings at a time` };
+  }
+
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    // Accept spreadsheet-formatted prices like "₹1,200"
+    const price = record.price ? Number(record.price.replace(/[₹,\s]/g, "")) : undefined;
+    const location = matchLocation(record.location, locations);
+
+    const parsed = insertItemSchema.safeParse({
+      title: record.title ?? "",
+      description: record.description ?? "",
+      category: record.category?.toLowerCase(),
+      condition: record.condition?.toLowerCase(),
+      price,
+      location: location ?? record.location ?? "",
+      isExchangeable: ["yes", "true", "1"].includes(record.exchangeable?.toLowerCase() ?? ""),
+      isbn: record.isbn || undefined,
+      author: record.author || undefined,
+      edition: record.edition || undefined,
+      courseCodes: record.course_codes ? record.course_codes.split(/[;|,\s]+/).filter(Boolean) : undefined,
+    });
+
+    const attributes = itemAttributesSchema(record.category?.toLowerCase()).safeParse(
+      readAttributes(record, record.category?.toLowerCase())
+    );
+
+    const rowErrors = [
+      ...(parsed.success ? [] : formatIssues(parsed.error)),
+      ...(attributes.success ? [] : formatIssues(attributes.error)),
+    ];
+    if (record.location && !location) {
+      rowErrors.push(`location: Unknown location "${record.location}"`);
+    }
+
+    const photoNames = (record.photos ?? "")
+      .split(/[;|]/)
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+    if (photoNames.length > MAX_PHOTOS_PER_ROW) {
+      rowErrors.push(`photos: At most ${MAX_PHOTOS_PER_ROW} photos per listing`);
+    }
+    const missing = photoNames.filter((name) => !photos.has(name));
+    if (missing.length > 0) {
+      rowErrors.push(`photos: Not found in the zip: ${missing.join(", ")}`);
+    }
+
+    if (!parsed.success || !attributes.success || rowErrors.length > 0) {
+      errors.push({ row, title: record.title || null, errors: rowErrors });
+    } else {
+      rows.push({ row, item: { ...parsed.data, attributes: attributes.data }, photoNames });
+    }
+  });
+
+  return { rows, errors };
+}
+
+// Runs photos through the same pipeline as regular uploads
+export async function saveImportPhotos(names: string[], photos: Map<string, Buffer>): Promise<string[]> {
+  const stored: string[] = [];
+  try {
+    for (const name of names) {
+      stored.push(await processPhoto(photos.get(name)!, randomBytes(16).toString("hex")));
+    }
+  } catch (error) {
+    await Promise.all(stored.map(deletePhoto));
+    throw error;
+  }
+  return stored;
+}
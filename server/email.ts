@@ -53,6 +53,23 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
   }
 }
 
+// User-provided text (titles, names) must be escaped before going into email HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Absolute link into the client app for use in emails
+export function appUrl(path: string): string {
+  const base = process.env.NODE_ENV === "production"
+    ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
+    : "http://localhost:5000";
+  return `${base}${path}`;
+}
+
 export function generateOTP(): string {
   return randomInt(100000, 999999).toString();
 }
@@ -180,4 +197,131 @@ export async function sendPasswordResetEmail(email: string, otp: string): Promis
     html,
     text,
   });
-}
\ No newline at end of file
+}
+
+export async function sendSavedSearchAlertEmail(
+  email: string,
+  searchName: string,
+  item: { title: string; price: number | null; url: string }
+): Promise<boolean> {
+  const price = item.price !== null ? `₹${item.price.toLocaleString()}` : "Price on request";
+  const safeSearchName = escapeHtml(searchName);
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>New match for "${safeSearchName}" - VIT SwapHands</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+        .item { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
+        .price { font-size: 24px; font-weight: bold; color: #2563eb; }
+        .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; }
+        .footer { color: #64748b; font-size: 12px; margin-top: 20px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>New Listing Alert</h1>
+        </div>
+        <div class="content">
+          <p>A new listing matches your saved search <strong>"${safeSearchName}"</strong>:</p>
+          
+          <div class="item">
+            <h2>${escapeHtml(item.title)}</h2>
+            <div class="price">${price}</div>
+          </div>
+          
+          <p><a class="button" href="${item.url}">View Listing</a></p>
+          
+          <div class="footer">
+            You're receiving this because you saved this search on VIT SwapHands. You can remove saved searches or turn off email notifications from your profile.
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+    New listing for your saved search "${searchName}" - VIT SwapHands
+    
+    ${item.title} - ${price}
+    
+    View it here: ${item.url}
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: `New match for "${searchName}" - VIT SwapHands`,
+    html,
+    text,
+  });
+}
+
+export async function sendListingExpiryReminderEmail(
+  email: string,
+  item: { title: string; expiresAt: Date; url: string }
+): Promise<boolean> {
+  const expiresOn = item.expiresAt.toLocaleDateString("en-IN", { day: "numeric", month: "long" });
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Your listing expires soon - VIT SwapHands</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+        .item { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
+        .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; }
+        .footer { color: #64748b; font-size: 12px; margin-top: 20px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Listing Expiring Soon</h1>
+        </div>
+        <div class="content">
+          <p>Your listing will be taken down on <strong>${expiresOn}</strong>:</p>
+          
+          <div class="item">
+            <h2>${escapeHtml(item.title)}</h2>
+          </div>
+          
+          <p>Still selling it? Renew it to keep it listed.</p>
+          <p><a class="button" href="${item.url}">Renew Listing</a></p>
+          
+          <div class="footer">
+            If you've already sold it, you can ignore this email and it will expire on its own. You can turn off email notifications from your profile.
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+    Your listing expires on ${expiresOn} - VIT SwapHands
+    
+    ${item.title}
+    
+    Still selling it? Renew it here: ${item.url}
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: `Your listing "${item.title}" expires soon - VIT SwapHands`,
+    html,
+    text,
+  });
+}
@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { withPhotoUrls } from "./images";
+import type { FeedSection, FeedSectionKind, HomeFeed, ItemSearchResult, User } from "@shared/schema";
+
+const SECTION_SIZE = 8;
+
+// Personal sections come first; trending is shown to everyone, and "Just listed" fills in for new users
+export async function buildHomeFeed(user: User): Promise<HomeFeed> {
+  const sections: FeedSection[] = [];
+  const shown = new Set<string>();
+
+  // Each listing only appears in the first section that picks it up, so fetch extra to make up for repeats
+  const addSection = (kind: FeedSectionKind, title: string, candidates: ItemSearchResult[]) => {
+    const fresh = candidates.filter((item) => !shown.has(item.id)).slice(0, SECTION_SIZE);
+    fresh.forEach((item) => shown.add(item.id));
+    if (fresh.length > 0) {
+      sections.push({ kind, title, items: fresh.map(withPhotoUrls) });
+    }
+  };
+
+  const home = user.hostelBlock ? await storage.getLocation(user.hostelBlock) : undefined;
+  if (home) {
+    addSection(
+      "near_you",
+      `Near ${home.name}`,
+      await storage.getFeedItems({ location: home.id, excludeSellerId: user.id, limit: SECTION_SIZE * 2 })
+    );
+  }
+
+  const saved = await storage.getWishlistByUser(user.id);
+  const savedCategories = Array.from(new Set(saved.map((entry) => entry.item.category).filter((category) => category !== null)));
+  if (savedCategories.length > 0) {
+    addSection(
+      "because_you_saved",
+      `Because you saved ${saved[0].item.title ?? "an item"}`,
+      await storage.getFeedItems({
+        categories: savedCategories,
+        excludeSellerId: user.id,
+        excludeItemIds: saved.map((entry) => entry.itemId),
+        limit: SECTION_SIZE * 2,
+      })
+    );
+  }
+
+  addSection("recently_viewed", "Recently viewed", await storage.getRecentlyViewedItems(user.id, SECTION_SIZE));
+  const hasPersonalSections = sections.length > 0;
+
+  addSection("trending", "Trending this week", await storage.getTrendingItems(SECTION_SIZE * 2, user.id));
+
+  if (!hasPersonalSections) {
+    addSection("latest", "Just listed", await storage.getFeedItems({ excludeSellerId: user.id, limit: SECTION_SIZE * 2 }));
+  }
+
+  return { sections };
+}
@@ -0,0 +1,85 @@
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface IFileStorage {
+  // Set when files live on this server's disk and have to be served by Express under /uploads
+  localDirectory?: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+// Stored names are random hex plus a variant suffix, so an uploaded file never changes once written
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+export class LocalFileStorage implements IFileStorage {
+  constructor(public localDirectory = "uploads") {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await fs.mkdir(this.localDirectory, { recursive: true });
+    await fs.writeFile(path.join(this.localDirectory, key), body);
+  }
+
+  async delete(key: string): Promise<void> {
+    // Already gone is fine; deletes are best-effort cleanup
+    await fs.unlink(path.join(this.localDirectory, key)).catch(() => {});
+  }
+
+  url(key: string): string {
+    return `/uploads/${key}`;
+  }
+}
+
+// Works with AWS S3 and S3-compatible services like MinIO or Cloudflare R2 (set S3_ENDPOINT for those)
+export class S3FileStorage implements IFileStorage {
+  private client: S3Client;
+  private publicUrl: string;
+
+  constructor(private bucket: string) {
+    const endpoint = process.env.S3_ENDPOINT;
+    const region = process.env.S3_REGION || "us-east-1";
+
+    this.client = new S3Client({
+      region,
+      endpoint,
+      // MinIO-style servers don't support bucket subdomains
+      forcePathStyle: !!endpoint,
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+
+    const defaultUrl = endpoint
+      ? `${endpoint.replace(/\/$/, "")}/${bucket}`
+      : `https://${bucket}.s3.${region}.amazonaws.com`;
+    this.publicUrl = (process.env.S3_PUBLIC_URL || defaultUrl).replace(/\/$/, "");
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      CacheControl: CACHE_CONTROL,
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${encodeURIComponent(key)}`;
+  }
+}
+
+// Serverless deployments have no persistent disk, so they need S3_BUCKET set
+export const fileStorage: IFileStorage = process.env.S3_BUCKET
+  ? new S3FileStorage(process.env.S3_BUCKET)
+  : new LocalFileStorage();
+
+console.log(process.env.S3_BUCKET
+  ? `🗂️  Storing uploads in S3 bucket ${process.env.S3_BUCKET}`
+  : "🗂️  Storing uploads on local disk");
@@ -0,0 +1,111 @@
+import sharp from "sharp";
+import { randomBytes } from "crypto";
+import { fileStorage } from "./file-storage";
+import type { LostFoundClaim, LostFoundClaimWithProofUrls, PhotoUrls, WithPhotoUrls } from "@shared/schema";
+
+// Longest edge in pixels for each variant; "full" is the stored photo name itself
+const PHOTO_SIZES = { thumb: 320, medium: 960, full: 1920 } as const;
+// Photos uploaded before processing was added are raw files without an extension
+const PROCESSED_EXTENSION = ".webp";
+
+type PhotoVariant = keyof typeof PHOTO_SIZES;
+
+function variantFilename(base: string, variant: PhotoVariant): string {
+  return variant === "full" ? `${base}${PROCESSED_EXTENSION}` : `${base}-${variant}${PROCESSED_EXTENSION}`;
+}
+
+function variantFilenames(photo: string): string[] {
+  if (!photo.endsWith(PROCESSED_EXTENSION)) {
+    return [photo];
+  }
+  const base = photo.slice(0, -PROCESSED_EXTENSION.length);
+  return (Object.keys(PHOTO_SIZES) as PhotoVariant[]).map((variant) => variantFilename(base, variant));
+}
+
+// Rotates to the EXIF orientation, then encodes every variant without metadata (sharp drops EXIF/GPS unless asked to keep it)
+async function renderPhoto(input: string | Buffer): Promise<[PhotoVariant, Buffer][]> {
+  const image = sharp(input).rotate();
+  return await Promise.all(
+    (Object.entries(PHOTO_SIZES) as [PhotoVariant, number][]).map(async ([variant, size]) => {
+      const body = await image
+        .clone()
+        .resize(size, size, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+      return [variant, body] as [PhotoVariant, Buffer];
+    })
+  );
+}
+
+async function storePhoto(variants: [PhotoVariant, Buffer][], base: string): Promise<string> {
+  const results = await Promise.allSettled(
+    variants.map(([variant, body]) => fileStorage.put(variantFilename(base, variant), body, "image/webp"))
+  );
+
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+  if (failed) {
+    // Don't leave the variants that did get written behind
+    await deletePhoto(variantFilename(base, "full"));
+    throw failed.reason;
+  }
+  return variantFilename(base, "full");
+}
+
+export async function processPhoto(input: string | Buffer, base: string): Promise<string> {
+  return await storePhoto(await renderPhoto(input), base);
+}
+
+// multer keeps uploads in memory; only the processed variants are ever stored, under random names.
+// Every file is decoded before anything is written, so only an unreadable image becomes a 400;
+// storage errors are thrown for the route to answer with a 500.
+export async function processUploads(files: Express.Multer.File[] | undefined): Promise<string[] | { error: string }> {
+  const rendered: [PhotoVariant, Buffer][][] = [];
+  try {
+    for (const file of files ?? []) {
+      rendered.push(await renderPhoto(file.buffer));
+    }
+  } catch {
+    return { error: "One of the photos could not be read as an image" };
+  }
+
+  const photos: string[] = [];
+  try {
+    for (const variants of rendered) {
+      photos.push(await storePhoto(variants, randomBytes(16).toString("hex")));
+    }
+    return photos;
+  } catch (error) {
+    await Promise.all(photos.map(deletePhoto));
+    throw error;
+  }
+}
+
+export async function deletePhoto(photo: string): Promise<void> {
+  // Best-effort: a leftover file shouldn't fail the request that removed the photo
+  await Promise.all(
+    variantFilenames(photo).map((filename) =>
+      fileStorage.delete(filename).catch((error) => console.error(`Failed to delete ${filename}:`, error))
+    )
+  );
+}
+
+export function photoUrls(photo: string): PhotoUrls {
+  if (!photo.endsWith(PROCESSED_EXTENSION)) {
+    const url = fileStorage.url(photo);
+    return { thumb: url, medium: url, full: url };
+  }
+  const base = photo.slice(0, -PROCESSED_EXTENSION.length);
+  return {
+    thumb: fileStorage.url(variantFilename(base, "thumb")),
+    medium: fileStorage.url(variantFilename(base, "medium")),
+    full: fileStorage.url(photo),
+  };
+}
+
+export function withPhotoUrls<T extends { photos: string[] | null }>(record: T): WithPhotoUrls<T> {
+  return { ...record, photoUrls: (record.photos ?? []).map(photoUrls) };
+}
+
+export function withProofFileUrls(claim: LostFoundClaim): LostFoundClaimWithProofUrls {
+  return { ...claim, proofFileUrls: (claim.proofFiles ?? []).map(photoUrls) };
+}
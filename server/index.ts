@@ -178,6 +178,9 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
       const { registerRoutes } = await import("./routes");
       await registerRoutes(app);
       log(`Database routes registered successfully`);
+      
+      const { startBackgroundJobs } = await import("./jobs");
+      startBackgroundJobs();
       resolve(true);
     } catch (error) {
       console.error('Failed to register database routes:', error);
@@ -0,0 +1,98 @@
+import { storage, LISTING_EXPIRY_DAYS } from "./storage";
+import { notifyReservationUpdate, notifyListingExpiring, notifyListingExpired, notifyGiveawayOffered, notifyGiveawayResponse, notifyAuctionClosed } from "./notifications";
+import type { Item } from "@shared/schema";
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Put items whose reservation lapsed without a handoff back on the market
+export async function releaseExpiredReservations(): Promise<void> {
+  const expired = await storage.getExpiredReservations();
+
+  for (const reservation of expired) {
+    const released = await storage.releaseReservation(reservation.id, "expired");
+    const item = released && await storage.getItem(released.itemId);
+    if (!item) continue;
+
+    await notifyReservationUpdate("reservation_expired", item, item.sellerId);
+    await notifyReservationUpdate("reservation_expired", item, released.buyerId);
+    await advanceGiveawayQueue(item);
+  }
+}
+
+// Offers a giveaway to the next person in line, if the giver left that to the queue
+export async function advanceGiveawayQueue(item: Item): Promise<void> {
+  if (!item.isGiveaway || !item.giveawayAutoOffer) return;
+  const offered = await storage.offerGiveawayToNext(item.id);
+  if (offered) {
+    await notifyGiveawayOffered(item, offered);
+  }
+}
+
+// Pass giveaways on when the person they were offered to doesn't accept in time
+export async function expireGiveawayOffers(): Promise<void> {
+  const expired = await storage.getExpiredGiveawayOffers();
+
+  for (const offer of expired) {
+    const passed = await storage.passGiveawayOffer(offer.id, "expired");
+    const item = passed && await storage.getItem(passed.itemId);
+    if (!item) continue;
+
+    await notifyGiveawayResponse(item, passed);
+    await advanceGiveawayQueue(item);
+  }
+}
+
+// Hand auctions past their end time to the highest bidder
+export async function closeEndedAuctions(): Promise<void> {
+  const ended = await storage.getEndedAuctions();
+
+  for (const auction of ended) {
+    const closed = await storage.closeAuction(auction.id);
+    if (!closed) continue;
+
+    await notifyAuctionClosed(closed.item, closed.winningBid);
+  }
+}
+
+// Warn sellers a few days ahead so they can renew listings that are still available
+export async function sendListingExpiryReminders(): Promise<void> {
+  const dueItems = await storage.getItemsDueForExpiryReminder();
+
+  for (const item of dueItems) {
+    // Marked first so a failing email can't cause repeated reminders
+    await storage.markExpiryReminderSent(item.id);
+    const expiresAt = item.expiresAt ?? new Date(item.createdAt.getTime() + LISTING_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+    await notifyListingExpiring(item, expiresAt);
+  }
+}
+
+export async function expireStaleListings(): Promise<void> {
+  const expired = await storage.expireListings();
+
+  for (const item of expired) {
+    await notifyListingExpired(item);
+  }
+}
+
+export function startBackgroundJobs(): void {
+  const sweep = async () => {
+    await releaseExpiredReservations().catch((error) => {
+      console.error("Failed to release expired reservations:", error);
+    });
+    await expireGiveawayOffers().catch((error) => {
+      console.error("Failed to expire giveaway offers:", error);
+    });
+    await closeEndedAuctions().catch((error) => {
+      console.error("Failed to close ended auctions:", error);
+    });
+    await sendListingExpiryReminders().catch((error) => {
+      console.error("Failed to send listing expiry reminders:", error);
+    });
+    await expireStaleListings().catch((error) => {
+      console.error("Failed to expire listings:", error);
+    });
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,244 @@
+import { storage, RESERVATION_HOURS, GIVEAWAY_OFFER_HOURS, LISTING_EXPIRY_DAYS } from "./storage";
+import { appUrl, sendSavedSearchAlertEmail, sendListingExpiryReminderEmail } from "./email";
+import type { Bid, GiveawayClaim, Item, ModerationDecision, Offer, Report, Review, WantedPost } from "@shared/schema";
+
+// Alert owners of saved searches that match a newly listed item (in-app, plus email if enabled)
+export async function notifySavedSearchMatches(item: Item): Promise<void> {
+  const matches = await storage.getSavedSearchMatches(item.id);
+  const notifiedUsers = new Set<string>();
+
+  for (const match of matches) {
+    // One alert per user even if several of their saved searches match
+    if (notifiedUsers.has(match.userId)) continue;
+    notifiedUsers.add(match.userId);
+
+    const title = item.title ?? "New listing";
+    const link = `/items/${item.id}`;
+
+    await storage.createNotification({
+      userId: match.userId,
+      type: "saved_search_match",
+      title: `New match for "${match.name}"`,
+      message: `${title}${item.price !== null ? ` - ₹${item.price.toLocaleString()}` : ""}`,
+      link,
+    });
+
+    if (match.user.emailNotifications) {
+      await sendSavedSearchAlertEmail(match.user.email, match.name, {
+        title,
+        price: item.price,
+        url: appUrl(link),
+      });
+    }
+  }
+}
+
+// Tell students with a matching open wanted post that someone just listed what they're after
+export async function notifyWantedPostMatches(item: Item): Promise<void> {
+  const matches = await storage.getWantedPostMatches(item.id);
+  const notifiedUsers = new Set<string>();
+
+  for (const match of matches) {
+    if (notifiedUsers.has(match.userId)) continue;
+    notifiedUsers.add(match.userId);
+
+    await storage.createNotification({
+      userId: match.userId,
+      type: "wanted_post_match",
+      title: `Someone listed what you wanted: "${match.title}"`,
+      message: `${item.title ?? "New listing"}${item.price !== null ? ` - ₹${item.price.toLocaleString()}` : ""}`,
+      link: `/items/${item.id}`,
+    });
+  }
+}
+
+// A seller linked one of their listings to a wanted post
+export async function notifyWantedPostResponse(post: WantedPost, item: Item): Promise<void> {
+  await storage.createNotification({
+    userId: post.userId,
+    type: "wanted_post_response",
+    title: `A seller responded to "${post.title}"`,
+    message: `${item.title ?? "A listing"}${item.price !== null ? ` - ₹${item.price.toLocaleString()}` : ""}`,
+    link: "/wanted?tab=mine",
+  });
+}
+
+type OfferNotificationType = "offer_received" | "offer_countered" | "offer_accepted" | "offer_declined";
+
+const offerNotificationTitles: Record<OfferNotificationType, string> = {
+  offer_received: "New offer",
+  offer_countered: "Counter-offer",
+  offer_accepted: "Offer accepted",
+  offer_declined: "Offer declined",
+};
+
+// Tell the other side of a negotiation that an offer changed; the thread lives on the messages page
+export async function notifyOfferUpdate(
+  type: OfferNotificationType,
+  offer: Offer,
+  item: Item,
+  recipientId: string
+): Promise<void> {
+  await storage.createNotification({
+    userId: recipientId,
+    type,
+    title: offerNotificationTitles[type],
+    message: `₹${offer.amount.toLocaleString()} for ${item.title ?? "your item"}`,
+    link: "/messages",
+  });
+}
+
+type SwapNotificationType = "swap_proposed" | "swap_accepted" | "swap_rejected";
+
+const swapNotificationText: Record<SwapNotificationType, { title: string; message: (itemTitle: string) => string }> = {
+  swap_proposed: { title: "New swap proposal", message: (itemTitle) => `Someone wants to swap for ${itemTitle}` },
+  swap_accepted: { title: "Swap accepted", message: (itemTitle) => `Your swap for ${itemTitle} was accepted` },
+  swap_rejected: { title: "Swap declined", message: (itemTitle) => `Your swap for ${itemTitle} was declined` },
+};
+
+// Swap proposals are managed from the My Items page on both sides
+export async function notifySwapUpdate(type: SwapNotificationType, item: Item, recipientId: string): Promise<void> {
+  await storage.createNotification({
+    userId: recipientId,
+    type,
+    title: swapNotificationText[type].title,
+    message: swapNotificationText[type].message(item.title ?? "an item"),
+    link: "/my-items",
+  });
+}
+
+type ReservationNotificationType = "item_reserved" | "reservation_expired" | "handoff_completed";
+
+const reservationNotificationText: Record<ReservationNotificationType, { title: string; message: (itemTitle: string) => string }> = {
+  item_reserved: { title: "Item reserved for you", message: (itemTitle) => `${itemTitle} is on hold for you for ${RESERVATION_HOURS} hours` },
+  reservation_expired: { title: "Reservation expired", message: (itemTitle) => `${itemTitle} is back on the market` },
+  handoff_completed: { title: "Handoff confirmed", message: (itemTitle) => `${itemTitle} has been marked as sold` },
+};
+
+export async function notifyReservationUpdate(type: ReservationNotificationType, item: Item, recipientId: string): Promise<void> {
+  await storage.createNotification({
+    userId: recipientId,
+    type,
+    title: reservationNotificationText[type].title,
+    message: reservationNotificationText[type].message(item.title ?? "An item"),
+    link: recipientId === item.sellerId ? "/my-items" : `/items/${item.id}`,
+  });
+}
+
+export async function notifyGiveawayOffered(item: Item, claim: GiveawayClaim): Promise<void> {
+  await storage.createNotification({
+    userId: claim.userId,
+    type: "giveaway_offered",
+    title: "It's your turn",
+    message: `${item.title ?? "A free item"} is yours if you accept within ${GIVEAWAY_OFFER_HOURS} hours`,
+    link: `/items/${item.id}`,
+  });
+}
+
+// Tells the giver how the person they (or the queue) picked responded
+export async function notifyGiveawayResponse(item: Item, claim: GiveawayClaim): Promise<void> {
+  const accepted = claim.status === "accepted";
+  await storage.createNotification({
+    userId: item.sellerId,
+    type: accepted ? "giveaway_accepted" : "giveaway_passed",
+    title: accepted ? "Giveaway accepted" : "Giveaway passed on",
+    message: accepted
+      ? `${item.title ?? "Your item"} is reserved for the person you're giving it to`
+      : `${item.title ?? "Your item"} was ${claim.status === "expired" ? "not accepted in time" : "declined"}${item.giveawayAutoOffer ? " - offering it to the next in line" : ""}`,
+    link: `/items/${item.id}`,
+  });
+}
+
+export async function notifyOutbid(item: Item, outbid: Bid, newAmount: number): Promise<void> {
+  await storage.createNotification({
+    userId: outbid.bidderId,
+    type: "auction_outbid",
+    title: "You've been outbid",
+    message: `${item.title ?? "An auction"} now has a bid of ₹${newAmount.toLocaleString()}`,
+    link: `/items/${item.id}`,
+  });
+}
+
+// The winner is told their reservation is waiting; the seller hears either way
+export async function notifyAuctionClosed(item: Item, winningBid?: Bid): Promise<void> {
+  const title = item.title ?? "Your item";
+  if (winningBid) {
+    await storage.createNotification({
+      userId: winningBid.bidderId,
+      type: "auction_won",
+      title: "You won the auction",
+      message: `${item.title ?? "The item"} is reserved for you at ₹${winningBid.amount.toLocaleString()} for ${RESERVATION_HOURS} hours`,
+      link: `/items/${item.id}`,
+    });
+  }
+
+  await storage.createNotification({
+    userId: item.sellerId,
+    type: "auction_ended",
+    title: "Your auction has ended",
+    message: winningBid
+      ? `${title} sold for ₹${winningBid.amount.toLocaleString()} and is reserved for the winner`
+      : `${title} got no bids and is still listed at its starting price`,
+    link: `/items/${item.id}`,
+  });
+}
+
+export async function notifyReviewReceived(review: Review, item: Item): Promise<void> {
+  await storage.createNotification({
+    userId: review.revieweeId,
+    type: "review_received",
+    title: "New review",
+    message: `You got ${review.rating} star${review.rating !== 1 ? "s" : ""} for ${item.title ?? "a recent sale"}`,
+    link: "/profile",
+  });
+}
+
+// Only warnings and hidden listings are announced; suspended users simply can't sign in
+export async function notifyModerationDecision(decision: ModerationDecision, report: Report, item?: Item): Promise<void> {
+  if (decision.action === "warn") {
+    await storage.createNotification({
+      userId: report.reportedUserId,
+      type: "account_warning",
+      title: "Warning from the moderators",
+      message: decision.note || "Your activity was reported and breaks the community guidelines. Further reports may lead to suspension.",
+      link: null,
+    });
+  } else if (decision.action === "hide_listing" && item) {
+    await storage.createNotification({
+      userId: item.sellerId,
+      type: "listing_hidden",
+      title: "Listing hidden",
+      message: `${item.title ?? "Your listing"} was hidden by a moderator${decision.note ? `: ${decision.note}` : ""}`,
+      link: "/my-items",
+    });
+  }
+}
+
+// The link renews the listing as soon as My Items opens
+export async function notifyListingExpiring(item: Item, expiresAt: Date): Promise<void> {
+  const title = item.title ?? "Your listing";
+  const link = `/my-items?renew=${item.id}`;
+
+  await storage.createNotification({
+    userId: item.sellerId,
+    type: "listing_expiring",
+    title: "Listing expiring soon",
+    message: `${title} expires on ${expiresAt.toLocaleDateString("en-IN", { day: "numeric", month: "short" })} - renew it to keep it listed`,
+    link,
+  });
+
+  const seller = await storage.getUser(item.sellerId);
+  if (seller?.emailNotifications) {
+    await sendListingExpiryReminderEmail(seller.email, { title, expiresAt, url: appUrl(link) });
+  }
+}
+
+export async function notifyListingExpired(item: Item): Promise<void> {
+  await storage.createNotification({
+    userId: item.sellerId,
+    type: "listing_expired",
+    title: "Listing expired",
+    message: `${item.title ?? "Your listing"} was taken down after ${LISTING_EXPIRY_DAYS} days - renew it from My Items if it's still available`,
+    link: "/my-items?tab=expired",
+  });
+}
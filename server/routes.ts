@@ -1,15 +1,21 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertItemSchema, insertWishlistSchema, insertMessageSchema, insertLostFoundItemSchema, insertLostFoundClaimSchema } from "@shared/schema";
+import { storage, listingExpiryDate, decodeItemCursor, DEFAULT_ITEMS_PAGE_SIZE, MAX_ITEMS_PAGE_SIZE, type ItemFilters } from "./storage";
+import { itemSortOptions, insertItemSchema, draftItemSchema, bookDetailsSchema, itemAttributesSchema, attributeFieldsFor, normalizeIsbn, auctionIssues, nextMinimumBid, MAX_ITEM_PHOTOS, insertWishlistSchema, insertMessageSchema, insertLostFoundItemSchema, insertLostFoundClaimSchema, insertSavedSearchSchema, insertOfferSchema, insertSwapProposalSchema, insertReviewSchema, insertReportSchema, insertModerationDecisionSchema, insertWantedPostSchema, insertWantedPostResponseSchema, insertLocationSchema, locationSlug, wantedPostStatusEnum, itemStatusEnum, itemCategoryEnum, itemConditionEnum, type AuctionState, type GiveawayQueue, type Item, type Offer } from "@shared/schema";
+import { notifySavedSearchMatches, notifyWantedPostMatches, notifyWantedPostResponse, notifyOfferUpdate, notifySwapUpdate, notifyReservationUpdate, notifyReviewReceived, notifyModerationDecision, notifyGiveawayOffered, notifyGiveawayResponse, notifyOutbid } from "./notifications";
+import { advanceGiveawayQueue } from "./jobs";
+import { readPhotoArchive, parseListingCsv, inflateImportPhotos, saveImportPhotos, type PhotoArchive } from "./bulk-import";
+import { processUploads, deletePhoto, withPhotoUrls, withProofFileUrls } from "./images";
+import { fileStorage } from "./file-storage";
+import { buildHomeFeed } from "./feed";
+import { lookupTextbook } from "./textbooks";
 import multer from "multer";
-import path from "path";
 import { z } from "zod";
 import express from "express";
 
-// Configure multer for file uploads
+// Configure multer for file uploads; photos are kept in memory until processUploads stores them
 const upload = multer({
-  dest: "uploads/",
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB
   },
@@ -22,10 +28,22 @@ const upload = multer({
   },
 });
 
+// Bulk imports are parsed in memory; photos are only written to disk for valid rows
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB photo zip
+  },
+});
+
 function requireAuth(req: any, res: any, next: any) {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: "Authentication required" });
   }
+  // Existing sessions of suspended users stop working immediately
+  if (req.user!.isSuspended) {
+    return res.status(403).json({ message: "Your account has been suspended" });
+  }
   next();
 }
 
@@ -36,6 +54,220 @@ function requireAdmin(req: any, res: any, next: any) {
   next();
 }
 
+const MAX_SAVED_SEARCHES = 10;
+const MAX_OPEN_WANTED_POSTS = 5;
+const DEFAULT_SIMILAR_ITEMS = 6;
+const MAX_SIMILAR_ITEMS = 12;
+const MAX_HANDOFF_ATTEMPTS = 5;
+const STOREFRONT_LISTINGS_LIMIT = 48;
+const STOREFRONT_SOLD_LIMIT = 12;
+// Hidden, expired and reserved listings are only listed to their seller (via /api/my-items)
+const PUBLIC_ITEM_STATUSES = ["active", "sold"];
+
+// Listing fields PUT /api/items/:id sets as sent; price, photos, book details and the rest are handled one by one
+const itemEditSchema = insertItemSchema
+  .pick({ title: true, description: true, category: true, condition: true, location: true })
+  .partial()
+  .extend({ status: z.enum(itemStatusEnum.enumValues).exclude(["draft"]).optional() });
+
+const priceSuggestionQuerySchema = z.object({
+  category: z.enum(itemCategoryEnum.enumValues),
+  condition: z.enum(itemConditionEnum.enumValues),
+  title: z.string().max(100).optional(),
+});
+
+// Book details can come from a multipart form, where course codes are one comma-separated string, or from JSON
+function parseBookFields(body: Record<string, any>) {
+  const fields: Record<string, unknown> = {};
+  for (const key of ["isbn", "author", "edition"]) {
+    if (body[key] !== undefined) fields[key] = body[key] === "" ? null : body[key];
+  }
+  if (body.courseCodes !== undefined) {
+    fields.courseCodes = typeof body.courseCodes === "string"
+      ? body.courseCodes.split(/[,\s]+/).filter(Boolean)
+      : body.courseCodes;
+  }
+  return fields;
+}
+
+// Multipart forms carry attributes as a JSON string; anything unparseable is left for zod to reject
+function parseAttributesField(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Only filterable attributes of the chosen category are used; unknown keys and values are ignored
+function parseAttributeFilters(category: string | undefined, raw: unknown): Record<string, string> | undefined {
+  if (!category || !raw || typeof raw !== "object") return undefined;
+  const filters: Record<string, string> = {};
+  for (const field of attributeFieldsFor(category)) {
+    const value = (raw as Record<string, unknown>)[field.key];
+    if (!field.filterable || typeof value !== "string" || !value.trim()) continue;
+    if (field.type === "select" ? field.options.some((option) => option.value === value) : value.length <= field.maxLength) {
+      filters[field.key] = value.trim();
+    }
+  }
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+// Drafts arrive as multipart form fields when created and as JSON when autosaved; empty fields clear the value
+function parseDraftFields(body: Record<string, any>) {
+  const fields: Record<string, unknown> = { ...parseBookFields(body) };
+  for (const key of ["title", "description", "category", "condition", "location"]) {
+    if (body[key] !== undefined) fields[key] = body[key] === "" ? null : body[key];
+  }
+  if (body.price !== undefined) {
+    fields.price = body.price === "" || body.price === null ? null : typeof body.price === "string" ? Number(body.price) : body.price;
+  }
+  if (body.isExchangeable !== undefined) {
+    fields.isExchangeable = body.isExchangeable === true || body.isExchangeable === "true";
+  }
+  for (const key of ["isGiveaway", "giveawayAutoOffer", "isAuction"]) {
+    if (body[key] !== undefined) fields[key] = body[key] === true || body[key] === "true";
+  }
+  if (body.auctionMinIncrement !== undefined) {
+    fields.auctionMinIncrement = body.auctionMinIncrement === "" || body.auctionMinIncrement === null ? null : Number(body.auctionMinIncrement);
+  }
+  if (body.auctionEndsAt !== undefined) {
+    fields.auctionEndsAt = body.auctionEndsAt === "" ? null : body.auctionEndsAt;
+  }
+  // Giveaways are always free and can't be swapped
+  if (fields.isGiveaway === true) {
+    fields.price = 0;
+    fields.isExchangeable = false;
+  }
+  // Auctions go to the highest bidder, so swaps don't apply
+  if (fields.isAuction === true) {
+    fields.isExchangeable = false;
+  }
+  if (body.attributes !== undefined) {
+    fields.attributes = parseAttributesField(body.attributes);
+  }
+  return draftItemSchema.safeParse(fields);
+}
+
+// Locations are managed by admins, so they're checked against the table rather than a fixed list
+async function locationError(locationId: string | null | undefined): Promise<string | undefined> {
+  if (!locationId) return undefined;
+  const location = await storage.getLocation(locationId);
+  return location?.isActive ? undefined : "Pick a location from the list";
+}
+
+// Drafts can be incomplete, so they're checked against the full listing schema before going live
+async function listingIssues(item: Item): Promise<string[]> {
+  const check = insertItemSchema.safeParse({
+    title: item.title,
+    description: item.description,
+    category: item.category,
+    condition: item.condition,
+    price: item.price,
+    location: item.location,
+    isExchangeable: item.isExchangeable,
+  });
+  const attributeCheck = itemAttributesSchema(item.category).safeParse(item.attributes);
+  const issues = [
+    ...(check.success ? [] : check.error.errors),
+    ...(attributeCheck.success ? [] : attributeCheck.error.errors),
+  ];
+  const locationIssue = await locationError(item.location);
+  return [
+    ...issues.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message)),
+    ...(locationIssue ? [`location: ${locationIssue}`] : []),
+    ...auctionIssues(item),
+  ];
+}
+
+type PhotoSlot = { existing: string } | { upload: number };
+
+// photoOrder lists the photos to keep, cover first, with "new:<n>" for the n-th uploaded file.
+// Existing photos left out are removed; uploads left out go at the end.
+function planPhotoUpdate(
+  existing: string[],
+  rawOrder: unknown,
+  uploadCount: number
+): { slots: PhotoSlot[]; removed: string[] } | { error: string } {
+  let order: string[] = existing;
+  if (rawOrder !== undefined) {
+    try {
+      // Multipart bodies carry the list as a JSON string
+      order = z.array(z.string()).parse(typeof rawOrder === "string" ? JSON.parse(rawOrder) : rawOrder);
+    } catch {
+      return { error: "photoOrder must be a list of photo names" };
+    }
+  }
+
+  const slots: PhotoSlot[] = [];
+  const listed = new Set<string>();
+  for (const entry of order) {
+    if (listed.has(entry)) {
+      return { error: `${entry} is listed more than once` };
+    }
+    listed.add(entry);
+
+    const newPhoto = /^new:(\d+)$/.exec(entry);
+    if (newPhoto && Number(newPhoto[1]) < uploadCount) {
+      slots.push({ upload: Number(newPhoto[1]) });
+    } else if (existing.includes(entry)) {
+      slots.push({ existing: entry });
+    } else {
+      return { error: `${entry} is not one of this listing's photos` };
+    }
+  }
+  for (let index = 0; index < uploadCount; index++) {
+    if (!listed.has(`new:${index}`)) slots.push({ upload: index });
+  }
+
+  if (slots.length > MAX_ITEM_PHOTOS) {
+    return { error: `A listing can have at most ${MAX_ITEM_PHOTOS} photos` };
+  }
+  return { slots, removed: existing.filter((photo) => !listed.has(photo)) };
+}
+
+async function getOwnDraft(id: string, userId: string): Promise<Item | undefined> {
+  const item = await storage.getItem(id);
+  return item && item.isDraft && item.sellerId === userId ? item : undefined;
+}
+
+// The party who has to respond to an offer: the seller for buyer offers, the buyer for counters
+function offerRecipientId(offer: Offer, item: Item): string {
+  return offer.senderId === offer.buyerId ? item.sellerId : offer.buyerId;
+}
+
+// Parse ?sort=&limit=&cursor= shared by the item listing endpoints
+function parseItemPagination(query: Request["query"]): Pick<ItemFilters, "sort" | "limit" | "cursor"> | { error: string } {
+  // Repeated or nested query params arrive as arrays/objects; only plain strings are accepted
+  const sort = typeof query.sort === "string" && query.sort ? query.sort : query.search ? "relevance" : "newest";
+  const sortOption = itemSortOptions.find((option) => option === sort);
+  if (!sortOption) {
+    return { error: `Invalid sort option. Use one of: ${itemSortOptions.join(", ")}` };
+  }
+
+  if (query.limit !== undefined && typeof query.limit !== "string") {
+    return { error: `limit must be between 1 and ${MAX_ITEMS_PAGE_SIZE}` };
+  }
+  const limit = query.limit ? parseInt(query.limit, 10) : DEFAULT_ITEMS_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1 || limit > MAX_ITEMS_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_ITEMS_PAGE_SIZE}` };
+  }
+
+  if (query.cursor !== undefined && typeof query.cursor !== "string") {
+    return { error: "Invalid cursor" };
+  }
+  let cursor;
+  if (query.cursor) {
+    cursor = decodeItemCursor(query.cursor);
+    if (!cursor) {
+      return { error: "Invalid cursor" };
+    }
+  }
+
+  return { sort: sortOption, limit, cursor: cursor ?? undefined };
+}
+
 export function registerRoutes(app: Express): Promise<void> {
   console.log("[ROUTES] Starting registerRoutes function");
   // Setup authentication routes
@@ -44,38 +276,118 @@ export function registerRoutes(app: Express): Promise<void> {
   // Items routes
   app.get("/api/items", async (req, res) => {
     try {
+      const pagination = parseItemPagination(req.query);
+      if ("error" in pagination) {
+        return res.status(400).json({ message: pagination.error });
+      }
+      if (req.query.status && !PUBLIC_ITEM_STATUSES.includes(req.query.status as string)) {
+        return res.status(400).json({ message: `Invalid status. Use one of: ${PUBLIC_ITEM_STATUSES.join(", ")}` });
+      }
+      
       const filters = {
         category: req.query.category as string,
         location: req.query.location as string,
         minPrice: req.query.minPrice ? parseInt(req.query.minPrice as string) : undefined,
         maxPrice: req.query.maxPrice ? parseInt(req.query.maxPrice as string) : undefined,
         search: req.query.search as string,
+        courseCode: (req.query.courseCode as string)?.trim().toUpperCase() || undefined,
+        attributes: parseAttributeFilters(req.query.category as string, req.query.attributes),
+        giveaway: req.query.giveaway === "true" || undefined,
         status: req.query.status as string,
+        ...pagination,
       };
       
-      const items = await storage.getItems(filters);
-      res.json(items);
+      const page = await storage.getItems(filters);
+      res.json({ ...page, items: page.items.map(withPhotoUrls) });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch items" });
     }
   });
 
+  // Registered before /api/items/:id so "price-suggestion" isn't taken for an item id
+  app.get("/api/items/price-suggestion", requireAuth, async (req, res) => {
+    try {
+      const query = priceSuggestionQuerySchema.parse(req.query);
+      const suggestion = await storage.getPriceSuggestion({ ...query, excludeSellerId: req.user!.id });
+      res.json(suggestion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to suggest a price" });
+    }
+  });
+
   app.get("/api/items/:id", async (req, res) => {
     try {
-      const item = await storage.getItem(req.params.id);
+      const item = await storage.getItemWithSeller(req.params.id);
       if (!item) {
         return res.status(404).json({ message: "Item not found" });
       }
       
+      // Listings hidden by a moderator are only visible to their seller and admins
+      if (item.status === "hidden" && req.user?.id !== item.sellerId && req.user?.role !== "admin") {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (item.isDraft && req.user?.id !== item.sellerId) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
       // Increment view count
       await storage.incrementItemViews(req.params.id);
+      if (req.isAuthenticated() && req.user!.id !== item.sellerId) {
+        await storage.recordItemView(req.user!.id, item.id);
+      }
+      
+      const isWishlisted = req.isAuthenticated()
+        ? await storage.isInWishlist(req.user!.id, item.id)
+        : false;
       
-      res.json(item);
+      res.json({ ...withPhotoUrls(item), views: item.views + 1, isWishlisted });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch item" });
     }
   });
 
+  // Pre-fills book listings from the bundled textbook list
+  app.get("/api/books/isbn/:isbn", requireAuth, async (req, res) => {
+    const isbn = normalizeIsbn(req.params.isbn);
+    if (!isbn) {
+      return res.status(400).json({ message: "Enter a valid ISBN-10 or ISBN-13" });
+    }
+    
+    const book = lookupTextbook(isbn);
+    if (!book) {
+      return res.status(404).json({ message: "We don't have details for this ISBN yet", isbn });
+    }
+    res.json(book);
+  });
+
+  app.get("/api/feed", requireAuth, async (req, res) => {
+    try {
+      const feed = await buildHomeFeed(req.user!);
+      res.json(feed);
+    } catch (error) {
+      console.error("Failed to build home feed:", error);
+      res.status(500).json({ message: "Failed to load your feed" });
+    }
+  });
+
+  app.get("/api/items/:id/similar", async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item || item.isDraft) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      const limit = Math.min(parseInt(req.query.limit as string) || DEFAULT_SIMILAR_ITEMS, MAX_SIMILAR_ITEMS);
+      const similar = await storage.getSimilarItems(item, limit);
+      res.json(similar.map(withPhotoUrls));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch similar items" });
+    }
+  });
+
   app.post("/api/items", requireAuth, upload.array("photos", 5), async (req: any, res) => {
     try {
       console.log("Raw request body:", req.body);
@@ -83,221 +395,1578 @@ export function registerRoutes(app: Express): Promise<void> {
       
       // Parse and validate the form data
       const price = req.body.price ? parseInt(req.body.price, 10) : 0;
-      const isExchangeable = req.body.isExchangeable === "true" || req.body.isExchangeable === true;
+      const isGiveaway = req.body.isGiveaway === "true" || req.body.isGiveaway === true;
+      const isAuction = req.body.isAuction === "true" || req.body.isAuction === true;
+      const isExchangeable = !isGiveaway && !isAuction && (req.body.isExchangeable === "true" || req.body.isExchangeable === true);
       
       const formData = {
         title: req.body.title || "",
         description: req.body.description || "",
         category: req.body.category,
         condition: req.body.condition,
-        price: isNaN(price) ? 0 : price,
+        price: isNaN(price) || isGiveaway ? 0 : price,
         location: req.body.location,
         isExchangeable,
+        isGiveaway,
+        ...(req.body.giveawayAutoOffer !== undefined && {
+          giveawayAutoOffer: req.body.giveawayAutoOffer === "true" || req.body.giveawayAutoOffer === true,
+        }),
+        ...(isAuction && {
+          isAuction,
+          auctionMinIncrement: req.body.auctionMinIncrement ? parseInt(req.body.auctionMinIncrement, 10) : null,
+          auctionEndsAt: req.body.auctionEndsAt ? new Date(req.body.auctionEndsAt) : null,
+        }),
+        ...parseBookFields(req.body),
+        ...(req.body.attributes !== undefined && { attributes: parseAttributesField(req.body.attributes) }),
       };
       
       console.log("Processed form data:", formData);
       
-      const itemData = insertItemSchema.parse(formData);
+      const itemData = insertItemSchema.parse(formData);
+      const attributes = itemAttributesSchema(itemData.category).parse(itemData.attributes ?? {});
+      const locationIssue = await locationError(itemData.location);
+      if (locationIssue) {
+        return res.status(400).json({ message: locationIssue });
+      }
+      const auctionErrors = auctionIssues(itemData);
+      if (auctionErrors.length > 0) {
+        return res.status(400).json({ message: "Check the auction details", errors: auctionErrors });
+      }
+      
+      // Handle uploaded photos
+      const photos = await processUploads(req.files);
+      if ("error" in photos) {
+        return res.status(400).json({ message: photos.error });
+      }
+      
+      const item = await storage.createItem({
+        ...itemData,
+        attributes,
+        photos,
+        sellerId: req.user!.id,
+      } as any);
+      
+      res.status(201).json(withPhotoUrls(item));
+      
+      // Alerts run after responding so a slow mail server doesn't delay the seller
+      notifySavedSearchMatches(item).catch((err) => {
+        console.error("Failed to send saved search alerts:", err);
+      });
+      notifyWantedPostMatches(item).catch((err) => {
+        console.error("Failed to send wanted post alerts:", err);
+      });
+    } catch (error) {
+      console.error("Item creation error:", error);
+      if (error instanceof z.ZodError) {
+        console.error("Validation errors:", error.errors);
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create item" });
+    }
+  });
+    // Draft endpoint: save incomplete listings (allows partial fields)
+  app.post("/api/items/draft", requireAuth, upload.array("photos", 5), async (req, res) => {
+    try {
+      const parsed = parseDraftFields(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error (draft)",
+          errors: parsed.error.errors,
+        });
+      }
+      const locationIssue = await locationError(parsed.data.location);
+      if (locationIssue) {
+        return res.status(400).json({ message: locationIssue });
+      }
+
+      // Handle uploaded photos
+      const photos = await processUploads(req.files as Express.Multer.File[]);
+      if ("error" in photos) {
+        return res.status(400).json({ message: photos.error });
+      }
+
+      const draft = await storage.createDraft({
+        ...parsed.data,
+        photos,
+        sellerId: req.user!.id,
+        isDraft: true,
+      });
+
+      res.status(201).json(withPhotoUrls(draft));
+    } catch (err) {
+      console.error("Failed to create draft:", err);
+      res.status(500).json({ message: "Failed to create draft" });
+    }
+  });
+
+  app.get("/api/items/draft/:id", requireAuth, async (req, res) => {
+    try {
+      const draft = await getOwnDraft(req.params.id, req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      res.json(withPhotoUrls(draft));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch draft" });
+    }
+  });
+
+  // Autosave from the sell page; only the fields sent are changed
+  app.put("/api/items/draft/:id", requireAuth, async (req, res) => {
+    try {
+      const draft = await getOwnDraft(req.params.id, req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      
+      const parsed = parseDraftFields(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error (draft)",
+          errors: parsed.error.errors,
+        });
+      }
+      const locationIssue = await locationError(parsed.data.location);
+      if (locationIssue) {
+        return res.status(400).json({ message: locationIssue });
+      }
+      
+      const updated = await storage.updateItem(draft.id, parsed.data);
+      res.json(withPhotoUrls(updated!));
+    } catch (error) {
+      console.error("Failed to save draft:", error);
+      res.status(500).json({ message: "Failed to save draft" });
+    }
+  });
+
+  app.post("/api/items/draft/:id/photos", requireAuth, upload.array("photos", MAX_ITEM_PHOTOS), async (req, res) => {
+    try {
+      const files = (req.files as Express.Multer.File[]) || [];
+      const draft = await getOwnDraft(req.params.id, req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      const existing = draft.photos ?? [];
+      if (existing.length + files.length > MAX_ITEM_PHOTOS) {
+        return res.status(400).json({ message: `A listing can have at most ${MAX_ITEM_PHOTOS} photos` });
+      }
+      
+      const photos = await processUploads(files);
+      if ("error" in photos) {
+        return res.status(400).json({ message: photos.error });
+      }
+      
+      const updated = await storage.updateItem(draft.id, {
+        photos: [...existing, ...photos],
+      });
+      res.json(withPhotoUrls(updated!));
+    } catch (error) {
+      console.error("Failed to add draft photos:", error);
+      res.status(500).json({ message: "Failed to add photos" });
+    }
+  });
+
+  app.delete("/api/items/draft/:id/photos/:filename", requireAuth, async (req, res) => {
+    try {
+      const draft = await getOwnDraft(req.params.id, req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      if (!draft.photos?.includes(req.params.filename)) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      
+      const updated = await storage.updateItem(draft.id, {
+        photos: draft.photos.filter((photo) => photo !== req.params.filename),
+      });
+      await deletePhoto(req.params.filename);
+      res.json(withPhotoUrls(updated!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove photo" });
+    }
+  });
+
+  app.post("/api/items/draft/:id/publish", requireAuth, async (req, res) => {
+    try {
+      const draft = await getOwnDraft(req.params.id, req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      
+      const errors = await listingIssues(draft);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Fill in the missing details before publishing", errors });
+      }
+      
+      // A concurrent publish or delete can take the draft between the checks above and here
+      const [item] = await storage.publishDrafts(req.user!.id, [draft.id]);
+      if (!item) {
+        return res.status(409).json({ message: "This draft was already published or deleted" });
+      }
+      res.json(withPhotoUrls(item));
+      
+      notifySavedSearchMatches(item).catch((err) => {
+        console.error("Failed to send saved search alerts:", err);
+      });
+      notifyWantedPostMatches(item).catch((err) => {
+        console.error("Failed to send wanted post alerts:", err);
+      });
+    } catch (error) {
+      console.error("Failed to publish draft:", error);
+      res.status(500).json({ message: "Failed to publish draft" });
+    }
+  });
+
+  app.post("/api/items/import", requireAuth, importUpload.fields([{ name: "csv", maxCount: 1 }, { name: "photos", maxCount: 1 }]), async (req, res) => {
+    try {
+      const files = req.files as { [field: string]: Express.Multer.File[] } | undefined;
+      const csvFile = files?.csv?.[0];
+      if (!csvFile) {
+        return res.status(400).json({ message: "A CSV file is required" });
+      }
+      
+      const zipFile = files?.photos?.[0];
+      const archive = zipFile ? readPhotoArchive(zipFile.buffer) : new Map() as PhotoArchive;
+      if ("error" in archive) {
+        return res.status(400).json({ message: archive.error });
+      }
+      
+      const parsed = parseListingCsv(csvFile.buffer, archive, await storage.getLocations());
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      
+      const photos = inflateImportPhotos(archive, parsed.rows);
+      if ("error" in photos) {
+        return res.status(400).json({ message: photos.error });
+      }
+      
+      // Valid rows become drafts so the seller can review them before publishing
+      const drafts = [];
+      try {
+        for (const row of parsed.rows) {
+          drafts.push({ ...row.item, photos: await saveImportPhotos(row.photoNames, photos) });
+        }
+      } catch (error) {
+        await Promise.all(drafts.flatMap((draft) => draft.photos).map(deletePhoto));
+        throw error;
+      }
+      const created = await storage.createDrafts(req.user!.id, drafts);
+      
+      res.status(201).json({ created, errors: parsed.errors });
+    } catch (error) {
+      console.error("Bulk import error:", error);
+      res.status(500).json({ message: "Failed to import listings" });
+    }
+  });
+
+  app.post("/api/items/publish", requireAuth, async (req, res) => {
+    try {
+      const { itemIds } = z.object({ itemIds: z.array(z.string()).min(1).max(100) }).parse(req.body);
+      
+      const readyIds: string[] = [];
+      const errors = [];
+      for (const id of itemIds) {
+        const item = await storage.getItem(id);
+        if (!item || item.sellerId !== req.user!.id || !item.isDraft) {
+          errors.push({ id, title: item?.title ?? null, errors: ["Not one of your drafts"] });
+          continue;
+        }
+        
+        const issues = await listingIssues(item);
+        if (issues.length === 0) {
+          readyIds.push(id);
+        } else {
+          errors.push({ id, title: item.title, errors: issues });
+        }
+      }
+      
+      const published = await storage.publishDrafts(req.user!.id, readyIds);
+      const publishedIds = new Set(published.map((item) => item.id));
+      for (const id of readyIds.filter((id) => !publishedIds.has(id))) {
+        errors.push({ id, title: null, errors: ["This draft was already published or deleted"] });
+      }
+      res.json({ published: published.map(withPhotoUrls), errors });
+      
+      for (const item of published) {
+        notifySavedSearchMatches(item).catch((err) => {
+          console.error("Failed to send saved search alerts:", err);
+        });
+        notifyWantedPostMatches(item).catch((err) => {
+          console.error("Failed to send wanted post alerts:", err);
+        });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to publish drafts" });
+    }
+  });
+
+  app.put("/api/items/:id", requireAuth, upload.array("photos", MAX_ITEM_PHOTOS), async (req, res) => {
+    // New files aren't referenced by anything until the update lands, so a failure has to remove them
+    let uploadedPhotos: string[] = [];
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Not authorized to update this item" });
+      }
+      
+      // Drafts go live through the publish endpoint, which checks them and sends alerts
+      if (req.body.isDraft !== undefined && String(req.body.isDraft) !== String(item.isDraft)) {
+        return res.status(400).json({ message: "Publish drafts from the draft editor instead" });
+      }
+      
+      // Reservations and sales to a buyer only change through the reservation endpoints
+      // Auction settings are fixed once the listing is live
+      const body = itemEditSchema.parse(req.body);
+      const { photoOrder, isbn, author, edition, courseCodes, attributes, isGiveaway, giveawayAutoOffer } = req.body;
+      const bookDetails = bookDetailsSchema.parse(parseBookFields({ isbn, author, edition, courseCodes }));
+      // Attributes are re-checked whenever they or the category change; switching category drops the old ones
+      const categoryChanged = body.category !== undefined && body.category !== item.category;
+      const checkedAttributes = attributes !== undefined || categoryChanged
+        ? itemAttributesSchema(body.category ?? item.category).parse(
+            attributes !== undefined ? parseAttributesField(attributes) : {}
+          )
+        : undefined;
+      if (body.status === "reserved") {
+        return res.status(400).json({ message: "Reserve the item for a specific buyer instead" });
+      }
+      if (body.status === "sold" && item.status !== "sold") {
+        return res.status(400).json({ message: "Reserve the item for the buyer - it's marked sold once they confirm the handoff code" });
+      }
+      // A handed-off item keeps its buyer and sale date, so it can't be relisted
+      if (item.status === "sold" && body.status && body.status !== "sold") {
+        return res.status(400).json({ message: "Sold items can't be relisted - create a new listing instead" });
+      }
+      if (item.status === "reserved" && body.status) {
+        return res.status(400).json({ message: "This item is reserved - release the reservation or confirm the handoff first" });
+      }
+      // Editing a listing can keep a retired location, but not switch to one
+      if (body.location !== undefined && body.location !== item.location) {
+        const locationIssue = await locationError(body.location);
+        if (locationIssue) {
+          return res.status(400).json({ message: locationIssue });
+        }
+      }
+      if (item.isAuction && (isGiveaway === true || isGiveaway === "true")) {
+        return res.status(400).json({ message: "An auction can't be turned into a giveaway" });
+      }
+      if (item.isAuction && req.body.price && parseInt(req.body.price) !== item.price && await storage.countBids(item.id) > 0) {
+        return res.status(400).json({ message: "The starting price can't change once bidding has started" });
+      }
+      if (req.user!.role !== "admin" && (body.status === "hidden" || (item.status === "hidden" && body.status))) {
+        return res.status(403).json({ message: "This listing was hidden by a moderator" });
+      }
+      
+      const files = (req.files as Express.Multer.File[]) || [];
+      const photoPlan = photoOrder !== undefined || files.length > 0
+        ? planPhotoUpdate(item.photos ?? [], photoOrder, files.length)
+        : undefined;
+      if (photoPlan && "error" in photoPlan) {
+        return res.status(400).json({ message: photoPlan.error });
+      }
+      const uploaded = await processUploads(files);
+      if ("error" in uploaded) {
+        return res.status(400).json({ message: uploaded.error });
+      }
+      uploadedPhotos = uploaded;
+      
+      const giveaway = isGiveaway !== undefined ? isGiveaway === true || isGiveaway === "true" : item.isGiveaway;
+      const updates = {
+        ...body,
+        price: req.body.price ? parseInt(req.body.price) : undefined,
+        isExchangeable: req.body.isExchangeable !== undefined ? req.body.isExchangeable === "true" : undefined,
+        ...(isGiveaway !== undefined && { isGiveaway: giveaway }),
+        ...(giveawayAutoOffer !== undefined && { giveawayAutoOffer: giveawayAutoOffer === true || giveawayAutoOffer === "true" }),
+        ...(giveaway && { price: 0, isExchangeable: false }),
+        // Swaps would sell an auction out from under its bidders
+        ...(item.isAuction && { isExchangeable: false }),
+        ...bookDetails,
+        ...(checkedAttributes && { attributes: checkedAttributes }),
+        // Relisting starts a fresh expiry period
+        ...(body.status === "active" && item.status !== "active" && { expiresAt: listingExpiryDate(), expiryReminderSentAt: null }),
+        // Hiding cancels a running auction; the ending sweep only closes active listings
+        ...(body.status === "hidden" && { isAuction: false }),
+        ...(photoPlan && { photos: photoPlan.slots.map((slot) => ("existing" in slot ? slot.existing : uploaded[slot.upload])) }),
+      };
+      
+      const updatedItem = await storage.updateItem(req.params.id, updates);
+      if (!updatedItem) {
+        await Promise.all(uploadedPhotos.map(deletePhoto));
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json(withPhotoUrls(updatedItem));
+      
+      // Files are only removed once the listing no longer points at them
+      await Promise.all((photoPlan?.removed ?? []).map(deletePhoto));
+    } catch (error) {
+      await Promise.all(uploadedPhotos.map(deletePhoto));
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update item" });
+    }
+  });
+
+  app.post("/api/items/:id/renew", requireAuth, async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to renew this item" });
+      }
+      
+      const renewed = await storage.renewItem(item.id);
+      if (!renewed) {
+        return res.status(400).json({ message: "Only active or expired listings can be renewed" });
+      }
+      res.json(withPhotoUrls(renewed));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to renew item" });
+    }
+  });
+
+  app.delete("/api/items/:id", requireAuth, async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Not authorized to delete this item" });
+      }
+      
+      const deleted = await storage.deleteItem(req.params.id);
+      if (deleted) {
+        res.json({ message: "Item deleted successfully" });
+      } else {
+        res.status(500).json({ message: "Failed to delete item" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete item" });
+    }
+  });
+
+  app.get("/api/my-items", requireAuth, async (req, res) => {
+    try {
+      const pagination = parseItemPagination(req.query);
+      if ("error" in pagination) {
+        return res.status(400).json({ message: pagination.error });
+      }
+      if (req.query.status && !(itemStatusEnum.enumValues as readonly string[]).includes(req.query.status as string)) {
+        return res.status(400).json({ message: `Invalid status. Use one of: ${itemStatusEnum.enumValues.join(", ")}` });
+      }
+      
+      const page = await storage.getItems({
+        sellerId: req.user!.id,
+        status: req.query.status as string,
+        includeDrafts: req.query.status === "draft",
+        ...pagination,
+      });
+      res.json({ ...page, items: page.items.map(withPhotoUrls) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch your items" });
+    }
+  });
+
+  // Wishlist routes
+  app.get("/api/wishlist/?", requireAuth, async (req, res) => {
+    try {
+      const wishlistItems = await storage.getWishlistByUser(req.user!.id);
+      res.json(wishlistItems.map((entry) => ({ ...entry, item: withPhotoUrls(entry.item) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch wishlist" });
+    }
+  });
+
+  app.post("/api/wishlist/?", requireAuth, async (req, res) => {
+    try {
+      const wishlistData = insertWishlistSchema.parse({
+        userId: req.user!.id,
+        itemId: req.body.itemId,
+      });
+      
+      // Check if already in wishlist
+      const exists = await storage.isInWishlist(req.user!.id, req.body.itemId);
+      if (exists) {
+        return res.status(400).json({ message: "Item already in wishlist" });
+      }
+      
+      const wishlistItem = await storage.addToWishlist(wishlistData);
+      res.status(201).json(wishlistItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add to wishlist" });
+    }
+  });
+
+  app.delete("/api/wishlist/:itemId", requireAuth, async (req, res) => {
+    try {
+      const removed = await storage.removeFromWishlist(req.user!.id, req.params.itemId);
+      if (removed) {
+        res.json({ message: "Removed from wishlist" });
+      } else {
+        res.status(404).json({ message: "Item not found in wishlist" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove from wishlist" });
+    }
+  });
+
+  // Messages routes
+  app.get("/api/messages", requireAuth, async (req, res) => {
+    try {
+      const messages = await storage.getMessages(req.user!.id, req.query.itemId as string);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/messages", requireAuth, async (req, res) => {
+    try {
+      const messageData = insertMessageSchema.parse({
+        senderId: req.user!.id,
+        receiverId: req.body.receiverId,
+        itemId: req.body.itemId,
+        content: req.body.content,
+      });
+      
+      const message = await storage.createMessage(messageData);
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  app.put("/api/messages/:id/read", requireAuth, async (req, res) => {
+    try {
+      await storage.markMessageAsRead(req.params.id);
+      res.json({ message: "Message marked as read" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark message as read" });
+    }
+  });
+
+  // Offer routes
+  app.get("/api/offers", requireAuth, async (req, res) => {
+    try {
+      const offers = await storage.getOffers(req.user!.id, req.query.itemId as string);
+      res.json(offers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch offers" });
+    }
+  });
+
+  app.post("/api/items/:id/offers", requireAuth, async (req, res) => {
+    try {
+      const offerData = insertOfferSchema.parse(req.body);
+      
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      if (item.sellerId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot make an offer on your own item" });
+      }
+      
+      if (item.isGiveaway) {
+        return res.status(400).json({ message: "This item is free - join the queue instead" });
+      }
+      
+      if (item.isAuction) {
+        return res.status(400).json({ message: "This item is up for auction - place a bid instead" });
+      }
+      
+      if (item.status !== "active") {
+        return res.status(400).json({ message: "This item is no longer accepting offers" });
+      }
+      
+      const pending = await storage.getPendingOffer(item.id, req.user!.id);
+      if (pending) {
+        return res.status(400).json({ message: "You already have an open offer on this item" });
+      }
+      
+      const offer = await storage.createOffer({
+        ...offerData,
+        itemId: item.id,
+        buyerId: req.user!.id,
+        senderId: req.user!.id,
+      });
+      await notifyOfferUpdate("offer_received", offer, item, item.sellerId);
+      res.status(201).json(offer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to make offer" });
+    }
+  });
+
+  app.put("/api/offers/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const offer = await storage.getOffer(req.params.id);
+      const item = offer && await storage.getItem(offer.itemId);
+      if (!offer || !item) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      if (offerRecipientId(offer, item) !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to respond to this offer" });
+      }
+      
+      const result = await storage.acceptOffer(offer.id);
+      if (!result) {
+        return res.status(400).json({ message: "This offer can no longer be accepted" });
+      }
+      
+      await notifyOfferUpdate("offer_accepted", result.offer, item, offer.senderId);
+      for (const declined of result.declinedOffers) {
+        await notifyOfferUpdate("offer_declined", declined, item, declined.buyerId);
+      }
+      res.json(result.offer);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept offer" });
+    }
+  });
+
+  app.put("/api/offers/:id/decline", requireAuth, async (req, res) => {
+    try {
+      const offer = await storage.getOffer(req.params.id);
+      const item = offer && await storage.getItem(offer.itemId);
+      if (!offer || !item) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      if (offerRecipientId(offer, item) !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to respond to this offer" });
+      }
+      
+      const declined = await storage.closeOffer(offer.id, "declined");
+      if (!declined) {
+        return res.status(400).json({ message: "This offer is no longer open" });
+      }
+      
+      await notifyOfferUpdate("offer_declined", declined, item, offer.senderId);
+      res.json(declined);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to decline offer" });
+    }
+  });
+
+  app.put("/api/offers/:id/counter", requireAuth, async (req, res) => {
+    try {
+      const counterData = insertOfferSchema.parse(req.body);
+      
+      const offer = await storage.getOffer(req.params.id);
+      const item = offer && await storage.getItem(offer.itemId);
+      if (!offer || !item) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      if (offerRecipientId(offer, item) !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to respond to this offer" });
+      }
+      
+      if (item.status !== "active") {
+        return res.status(400).json({ message: "This item is no longer accepting offers" });
+      }
+      
+      const counter = await storage.counterOffer(offer.id, {
+        ...counterData,
+        senderId: req.user!.id,
+      });
+      if (!counter) {
+        return res.status(400).json({ message: "This offer is no longer open" });
+      }
+      
+      await notifyOfferUpdate("offer_countered", counter, item, offer.senderId);
+      res.status(201).json(counter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to counter offer" });
+    }
+  });
+
+  app.put("/api/offers/:id/withdraw", requireAuth, async (req, res) => {
+    try {
+      const offer = await storage.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      if (offer.senderId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to withdraw this offer" });
+      }
+      
+      const withdrawn = await storage.closeOffer(offer.id, "withdrawn");
+      if (!withdrawn) {
+        return res.status(400).json({ message: "This offer is no longer open" });
+      }
+      res.json(withdrawn);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to withdraw offer" });
+    }
+  });
+
+  // Swap proposal routes
+  app.get("/api/swaps", requireAuth, async (req, res) => {
+    try {
+      const proposals = await storage.getSwapProposals(req.user!.id);
+      res.json(proposals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch swap proposals" });
+    }
+  });
+
+  app.post("/api/items/:id/swaps", requireAuth, async (req, res) => {
+    try {
+      const proposalData = insertSwapProposalSchema.parse(req.body);
+      const offeredItemIds = Array.from(new Set(proposalData.offeredItemIds));
+      
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      if (item.sellerId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot propose a swap for your own item" });
+      }
+      
+      if (!item.isExchangeable || item.status !== "active") {
+        return res.status(400).json({ message: "This item is not open to swaps" });
+      }
+      
+      // Only the proposer's own live listings can be put up for exchange
+      for (const offeredItemId of offeredItemIds) {
+        const offeredItem = await storage.getItem(offeredItemId);
+        if (!offeredItem || offeredItem.sellerId !== req.user!.id || offeredItem.status !== "active") {
+          return res.status(400).json({ message: "You can only offer your own active listings" });
+        }
+      }
+      
+      const pending = await storage.getPendingSwapProposal(item.id, req.user!.id);
+      if (pending) {
+        return res.status(400).json({ message: "You already have an open swap proposal for this item" });
+      }
+      
+      const proposal = await storage.createSwapProposal({
+        ...proposalData,
+        offeredItemIds,
+        itemId: item.id,
+        proposerId: req.user!.id,
+      });
+      await notifySwapUpdate("swap_proposed", item, item.sellerId);
+      res.status(201).json(proposal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to propose swap" });
+    }
+  });
+
+  app.put("/api/swaps/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getSwapProposal(req.params.id);
+      const item = proposal && await storage.getItem(proposal.itemId);
+      if (!proposal || !item) {
+        return res.status(404).json({ message: "Swap proposal not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to respond to this proposal" });
+      }
+      
+      const result = await storage.acceptSwapProposal(proposal.id);
+      if (!result) {
+        return res.status(400).json({ message: "This swap can no longer go through - one of the items is unavailable" });
+      }
+      
+      await notifySwapUpdate("swap_accepted", item, proposal.proposerId);
+      for (const rejected of result.rejectedProposals) {
+        await notifySwapUpdate("swap_rejected", item, rejected.proposerId);
+      }
+      res.json(result.proposal);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept swap" });
+    }
+  });
+
+  app.put("/api/swaps/:id/reject", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getSwapProposal(req.params.id);
+      const item = proposal && await storage.getItem(proposal.itemId);
+      if (!proposal || !item) {
+        return res.status(404).json({ message: "Swap proposal not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to respond to this proposal" });
+      }
+      
+      const rejected = await storage.closeSwapProposal(proposal.id, "rejected");
+      if (!rejected) {
+        return res.status(400).json({ message: "This proposal is no longer open" });
+      }
+      
+      await notifySwapUpdate("swap_rejected", item, proposal.proposerId);
+      res.json(rejected);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject swap" });
+    }
+  });
+
+  app.put("/api/swaps/:id/withdraw", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getSwapProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Swap proposal not found" });
+      }
+      
+      if (proposal.proposerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to withdraw this proposal" });
+      }
+      
+      const withdrawn = await storage.closeSwapProposal(proposal.id, "withdrawn");
+      if (!withdrawn) {
+        return res.status(400).json({ message: "This proposal is no longer open" });
+      }
+      res.json(withdrawn);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to withdraw swap" });
+    }
+  });
+
+  // Reservation routes
+  app.get("/api/reservations", requireAuth, async (req, res) => {
+    try {
+      const reservations = await storage.getReservations(req.user!.id);
+      res.json(reservations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reservations" });
+    }
+  });
+
+  app.post("/api/items/:id/reserve", requireAuth, async (req, res) => {
+    try {
+      const buyerId = z.object({ buyerId: z.string().min(1) }).parse(req.body).buyerId;
+      
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to reserve this item" });
+      }
+      
+      if (buyerId === item.sellerId) {
+        return res.status(400).json({ message: "You cannot reserve an item for yourself" });
+      }
+      
+      if (item.isAuction) {
+        return res.status(400).json({ message: "Auctions are reserved for the highest bidder when they close" });
+      }
+      
+      // The buyer must already be talking to the seller about this item
+      const messages = await storage.getMessages(req.user!.id, item.id);
+      const offers = await storage.getOffers(req.user!.id, item.id);
+      const isInterested = messages.some((message) => message.senderId === buyerId)
+        || offers.some((offer) => offer.buyerId === buyerId);
+      if (!isInterested) {
+        return res.status(400).json({ message: "You can only reserve for someone who has contacted you about this item" });
+      }
+      
+      const reservation = await storage.reserveItem(item.id, buyerId);
+      if (!reservation) {
+        return res.status(400).json({ message: "Only active items can be reserved" });
+      }
+      
+      await notifyReservationUpdate("item_reserved", item, buyerId);
+      res.status(201).json(reservation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reserve item" });
+    }
+  });
+
+  app.post("/api/reservations/:id/release", requireAuth, async (req, res) => {
+    try {
+      const reservation = await storage.getReservation(req.params.id);
+      const item = reservation && await storage.getItem(reservation.itemId);
+      if (!reservation || !item) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+      
+      // Either side can call the deal off
+      if (item.sellerId !== req.user!.id && reservation.buyerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to release this reservation" });
+      }
+      
+      const released = await storage.releaseReservation(reservation.id, "released");
+      if (!released) {
+        return res.status(400).json({ message: "This reservation is no longer active" });
+      }
+      res.json(released);
+      
+      advanceGiveawayQueue(item).catch((err) => {
+        console.error("Failed to advance giveaway queue:", err);
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to release reservation" });
+    }
+  });
+
+  app.post("/api/reservations/:id/confirm", requireAuth, async (req, res) => {
+    try {
+      const code = z.object({ code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code") }).parse(req.body).code;
+      
+      const reservation = await storage.getReservation(req.params.id);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+      
+      if (reservation.buyerId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the buyer can confirm the handoff" });
+      }
+      
+      if (reservation.status !== "active") {
+        return res.status(400).json({ message: "This reservation is no longer active" });
+      }
+      
+      if (reservation.expiresAt <= new Date()) {
+        await storage.releaseReservation(reservation.id, "expired");
+        return res.status(400).json({ message: "This reservation has expired" });
+      }
+      
+      const attempts = await storage.recordHandoffAttempt(reservation.id, MAX_HANDOFF_ATTEMPTS);
+      if (attempts === undefined) {
+        return res.status(429).json({ message: "Too many incorrect codes. Ask the seller to reserve the item for you again." });
+      }
+      
+      if (code !== reservation.handoffCode) {
+        const remaining = MAX_HANDOFF_ATTEMPTS - attempts;
+        return res.status(400).json({ message: `Incorrect code. ${remaining} attempt${remaining !== 1 ? "s" : ""} left.` });
+      }
+      
+      const item = await storage.completeHandoff(reservation.id);
+      if (!item) {
+        return res.status(400).json({ message: "This reservation is no longer active" });
+      }
+      
+      await notifyReservationUpdate("handoff_completed", item, item.sellerId);
+      res.json(withPhotoUrls(item));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to confirm handoff" });
+    }
+  });
+
+  app.get("/api/purchases", requireAuth, async (req, res) => {
+    try {
+      const purchases = await storage.getPurchases(req.user!.id);
+      res.json(purchases.map(withPhotoUrls));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch purchases" });
+    }
+  });
+
+  // Giveaway routes
+  app.get("/api/items/:id/giveaway", async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item || !item.isGiveaway) {
+        return res.status(404).json({ message: "Giveaway not found" });
+      }
+      
+      const queue = await storage.getGiveawayQueue(item.id);
+      const myClaim = req.isAuthenticated() ? await storage.getGiveawayClaimForUser(item.id, req.user!.id) : undefined;
+      const position = myClaim ? queue.findIndex((claim) => claim.id === myClaim.id) : -1;
+      const result: GiveawayQueue = {
+        queueLength: queue.length,
+        myClaim: myClaim ?? null,
+        myPosition: position >= 0 ? position + 1 : null,
+        // Other students only see how long the queue is
+        ...(req.user?.id === item.sellerId && { queue }),
+      };
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch giveaway queue" });
+    }
+  });
+
+  app.post("/api/items/:id/giveaway/queue", requireAuth, async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item || !item.isGiveaway) {
+        return res.status(404).json({ message: "Giveaway not found" });
+      }
+      
+      if (item.sellerId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot queue for your own giveaway" });
+      }
+      
+      // Joining while it's reserved keeps a place in case the handoff falls through
+      if (item.status !== "active" && item.status !== "reserved") {
+        return res.status(400).json({ message: "This giveaway has ended" });
+      }
+      
+      const claim = await storage.joinGiveawayQueue(item.id, req.user!.id);
+      if (!claim) {
+        return res.status(400).json({ message: "You're already in this queue or have had your turn" });
+      }
+      res.status(201).json(claim);
+      
+      advanceGiveawayQueue(item).catch((err) => {
+        console.error("Failed to advance giveaway queue:", err);
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to join queue" });
+    }
+  });
+
+  app.delete("/api/items/:id/giveaway/queue", requireAuth, async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item || !item.isGiveaway) {
+        return res.status(404).json({ message: "Giveaway not found" });
+      }
+      
+      const removed = await storage.leaveGiveawayQueue(item.id, req.user!.id);
+      if (!removed) {
+        return res.status(404).json({ message: "You're not in this queue" });
+      }
+      res.json({ message: "Left the queue" });
+      
+      if (removed.status === "offered") {
+        advanceGiveawayQueue(item).catch((err) => {
+          console.error("Failed to advance giveaway queue:", err);
+        });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to leave queue" });
+    }
+  });
+
+  // The giver picks someone from the queue, not necessarily the first in line
+  app.post("/api/giveaway-claims/:id/offer", requireAuth, async (req, res) => {
+    try {
+      const claim = await storage.getGiveawayClaim(req.params.id);
+      const item = claim && await storage.getItem(claim.itemId);
+      if (!claim || !item) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+      
+      if (item.sellerId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the giver can pick who gets this item" });
+      }
+      
+      const offered = await storage.offerGiveaway(claim.id);
+      if (!offered) {
+        return res.status(400).json({ message: "The item can only be offered to one person in the queue at a time while it's available" });
+      }
+      
+      await notifyGiveawayOffered(item, offered);
+      res.json(offered);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to offer item" });
+    }
+  });
+
+  app.post("/api/giveaway-claims/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const claim = await storage.getGiveawayClaim(req.params.id);
+      const item = claim && await storage.getItem(claim.itemId);
+      if (!claim || !item) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+      
+      if (claim.userId !== req.user!.id) {
+        return res.status(403).json({ message: "This item wasn't offered to you" });
+      }
+      
+      const accepted = await storage.acceptGiveawayOffer(claim.id);
+      if (!accepted) {
+        return res.status(400).json({ message: "This offer is no longer open" });
+      }
+      
+      await notifyReservationUpdate("item_reserved", item, claim.userId);
+      await notifyGiveawayResponse(item, accepted.claim);
+      res.status(201).json(accepted.reservation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept giveaway" });
+    }
+  });
+
+  app.post("/api/giveaway-claims/:id/decline", requireAuth, async (req, res) => {
+    try {
+      const claim = await storage.getGiveawayClaim(req.params.id);
+      const item = claim && await storage.getItem(claim.itemId);
+      if (!claim || !item) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+      
+      if (claim.userId !== req.user!.id) {
+        return res.status(403).json({ message: "This item wasn't offered to you" });
+      }
+      
+      const declined = await storage.passGiveawayOffer(claim.id, "declined");
+      if (!declined) {
+        return res.status(400).json({ message: "This offer is no longer open" });
+      }
+      
+      await notifyGiveawayResponse(item, declined);
+      await advanceGiveawayQueue(item);
+      res.json(declined);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to decline giveaway" });
+    }
+  });
+
+  // Auction routes
+  app.get("/api/items/:id/bids", async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item || item.isDraft) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      // Same visibility as the listing itself
+      if (item.status === "hidden" && req.user?.id !== item.sellerId && req.user?.role !== "admin") {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      // Bid history stays visible after the auction closes
+      const bidCount = await storage.countBids(item.id);
+      if (!item.isAuction && bidCount === 0) {
+        return res.status(404).json({ message: "This item isn't an auction" });
+      }
+      
+      const bids = await storage.getBids(item.id, 20);
+      const highestBid = bids[0]?.amount ?? null;
+      const state: AuctionState = {
+        bids,
+        bidCount,
+        highestBid,
+        nextMinimumBid: nextMinimumBid(item, highestBid),
+        endsAt: item.auctionEndsAt,
+        isOpen: item.isAuction && item.status === "active" && !!item.auctionEndsAt && item.auctionEndsAt > new Date(),
+      };
+      res.json(state);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bids" });
+    }
+  });
+
+  app.post("/api/items/:id/bids", requireAuth, async (req, res) => {
+    try {
+      const { amount } = z.object({ amount: z.number().int().min(1) }).parse(req.body);
+      
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      const result = await storage.placeBid(item.id, req.user!.id, amount);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      
+      if (result.outbid) {
+        await notifyOutbid(item, result.outbid, amount);
+      }
+      res.status(201).json(result.bid);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to place bid" });
+    }
+  });
+
+  // Storefront routes
+  app.get("/api/users/:id", async (req, res) => {
+    try {
+      const profile = await storage.getPublicProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const activeItems = await storage.getSellerListings(profile.id, STOREFRONT_LISTINGS_LIMIT);
+      const soldItems = await storage.getRecentlySoldItems(profile.id, STOREFRONT_SOLD_LIMIT);
+      res.json({
+        profile,
+        activeItems: activeItems.map(withPhotoUrls),
+        soldItems: soldItems.map(withPhotoUrls),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch storefront" });
+    }
+  });
+
+  // Review routes
+  app.get("/api/users/:id/reviews", async (req, res) => {
+    try {
+      const rating = await storage.getUserRating(req.params.id);
+      const reviews = await storage.getReviewsForUser(req.params.id);
+      res.json({ rating, reviews });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.get("/api/reviews/pending", requireAuth, async (req, res) => {
+    try {
+      const items = await storage.getItemsAwaitingReview(req.user!.id);
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pending reviews" });
+    }
+  });
+
+  app.post("/api/items/:id/reviews", requireAuth, async (req, res) => {
+    try {
+      const reviewData = insertReviewSchema.parse(req.body);
+      
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      // Only the two people in a completed sale can review each other
+      if (item.status !== "sold" || !item.buyerId) {
+        return res.status(400).json({ message: "You can only review a completed sale" });
+      }
       
-      // Handle uploaded photos
-      const photos = (req.files as Express.Multer.File[])?.map(file => file.filename) || [];
+      const isSeller = item.sellerId === req.user!.id;
+      if (!isSeller && item.buyerId !== req.user!.id) {
+        return res.status(403).json({ message: "You were not part of this sale" });
+      }
       
-      const item = await storage.createItem({
-        ...itemData,
-        photos,
-        sellerId: req.user!.id,
-      } as any);
+      if (await storage.hasReviewed(item.id, req.user!.id)) {
+        return res.status(400).json({ message: "You have already reviewed this sale" });
+      }
       
-      res.status(201).json(item);
+      const review = await storage.createReview({
+        ...reviewData,
+        itemId: item.id,
+        reviewerId: req.user!.id,
+        revieweeId: isSeller ? item.buyerId : item.sellerId,
+      });
+      await notifyReviewReceived(review, item);
+      res.status(201).json(review);
     } catch (error) {
-      console.error("Item creation error:", error);
       if (error instanceof z.ZodError) {
-        console.error("Validation errors:", error.errors);
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create item" });
+      res.status(500).json({ message: "Failed to submit review" });
     }
   });
-    // Draft endpoint: save incomplete listings (allows partial fields)
-  app.post("/api/items/draft", requireAuth, upload.array("photos", 5), async (req, res) => {
-    try {
-      // Use partial() so all fields are optional
-      const parsed = insertItemSchema.partial().safeParse({
-        ...req.body,
-        price: req.body.price ? parseInt(req.body.price) : undefined,
-        isExchangeable:
-          req.body.isExchangeable === "true"
-            ? true
-            : req.body.isExchangeable === "false"
-            ? false
-            : undefined,
-      });
 
-      if (!parsed.success) {
-        return res.status(400).json({
-          message: "Validation error (draft)",
-          errors: parsed.error.errors,
-        });
+  // Report routes
+  app.post("/api/reports", requireAuth, async (req, res) => {
+    try {
+      const { targetId, ...reportData } = insertReportSchema.parse(req.body);
+      
+      // Resolve who is being reported so admins can act on the account
+      let reportedUserId: string;
+      let itemId: string | undefined;
+      let messageId: string | undefined;
+      
+      if (reportData.targetType === "item") {
+        const item = await storage.getItem(targetId);
+        if (!item) {
+          return res.status(404).json({ message: "Item not found" });
+        }
+        reportedUserId = item.sellerId;
+        itemId = item.id;
+      } else if (reportData.targetType === "message") {
+        const message = await storage.getMessage(targetId);
+        if (!message) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+        if (message.receiverId !== req.user!.id) {
+          return res.status(403).json({ message: "You can only report messages sent to you" });
+        }
+        reportedUserId = message.senderId;
+        messageId = message.id;
+        itemId = message.itemId ?? undefined;
+      } else {
+        const user = await storage.getUser(targetId);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        reportedUserId = user.id;
       }
-
-      // Handle uploaded photos
-      const photos =
-        (req.files as Express.Multer.File[])?.map((f) => f.filename) || [];
-
-      // Call storage.createDraft (to implement in storage.ts)
-      const draft = await storage.createDraft({
-        ...parsed.data,
-        photos,
-        sellerId: req.user!.id,
-        isDraft: true,
+      
+      if (reportedUserId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot report yourself" });
+      }
+      
+      if (await storage.hasPendingReport(req.user!.id, reportData.targetType, targetId)) {
+        return res.status(400).json({ message: "You have already reported this" });
+      }
+      
+      const report = await storage.createReport({
+        ...reportData,
+        reporterId: req.user!.id,
+        reportedUserId,
+        itemId,
+        messageId,
       });
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to submit report" });
+    }
+  });
 
-      res.status(201).json(draft);
-    } catch (err) {
-      console.error("Failed to create draft:", err);
-      res.status(500).json({ message: "Failed to create draft" });
+  // Saved search routes
+  app.get("/api/saved-searches", requireAuth, async (req, res) => {
+    try {
+      const savedSearches = await storage.getSavedSearches(req.user!.id);
+      res.json(savedSearches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved searches" });
     }
   });
 
-  app.put("/api/items/:id", requireAuth, async (req, res) => {
+  app.post("/api/saved-searches", requireAuth, async (req, res) => {
     try {
-      const item = await storage.getItem(req.params.id);
-      if (!item) {
-        return res.status(404).json({ message: "Item not found" });
+      const savedSearchData = insertSavedSearchSchema.parse(req.body);
+      const locationIssue = await locationError(savedSearchData.location);
+      if (locationIssue) {
+        return res.status(400).json({ message: locationIssue });
       }
       
-      if (item.sellerId !== req.user!.id && req.user!.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to update this item" });
+      const existing = await storage.getSavedSearches(req.user!.id);
+      if (existing.length >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({ message: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
       }
       
-      const updates = {
-        ...req.body,
-        price: req.body.price ? parseInt(req.body.price) : undefined,
-        isExchangeable: req.body.isExchangeable !== undefined ? req.body.isExchangeable === "true" : undefined,
-      };
-      
-      const updatedItem = await storage.updateItem(req.params.id, updates);
-      res.json(updatedItem);
+      const savedSearch = await storage.createSavedSearch({
+        ...savedSearchData,
+        userId: req.user!.id,
+      });
+      res.status(201).json(savedSearch);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update item" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save search" });
     }
   });
 
-  app.delete("/api/items/:id", requireAuth, async (req, res) => {
+  app.delete("/api/saved-searches/:id", requireAuth, async (req, res) => {
     try {
-      const item = await storage.getItem(req.params.id);
-      if (!item) {
-        return res.status(404).json({ message: "Item not found" });
-      }
-      
-      if (item.sellerId !== req.user!.id && req.user!.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to delete this item" });
-      }
-      
-      const deleted = await storage.deleteItem(req.params.id);
+      const deleted = await storage.deleteSavedSearch(req.params.id, req.user!.id);
       if (deleted) {
-        res.json({ message: "Item deleted successfully" });
+        res.json({ message: "Saved search deleted" });
       } else {
-        res.status(500).json({ message: "Failed to delete item" });
+        res.status(404).json({ message: "Saved search not found" });
       }
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete item" });
+      res.status(500).json({ message: "Failed to delete saved search" });
     }
   });
 
-  app.get("/api/my-items", requireAuth, async (req, res) => {
+  // Wanted post routes
+  app.get("/api/wanted", requireAuth, async (req, res) => {
     try {
-      const items = await storage.getItems({
-        sellerId: req.user!.id,
-        status: req.query.status as string,
+      const posts = await storage.getWantedPosts({
+        category: req.query.category as string,
+        location: req.query.location as string,
+        search: req.query.search as string,
       });
-      res.json(items);
+      res.json(posts);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch your items" });
+      res.status(500).json({ message: "Failed to fetch wanted posts" });
     }
   });
 
-  // Wishlist routes
-  app.get("/api/wishlist/?", requireAuth, async (req, res) => {
+  // Posters see the listings sellers linked; other students only see the count
+  app.get("/api/wanted/mine", requireAuth, async (req, res) => {
     try {
-      const wishlistItems = await storage.getWishlistByUser(req.user!.id);
-      res.json(wishlistItems);
+      const posts = await storage.getWantedPostsByUser(req.user!.id);
+      const withResponses = await Promise.all(posts.map(async (post) => {
+        const responses = await storage.getWantedPostResponses(post.id);
+        return {
+          ...post,
+          responses: responses.map((response) => ({ ...response, item: withPhotoUrls(response.item) })),
+        };
+      }));
+      res.json(withResponses);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch wishlist" });
+      res.status(500).json({ message: "Failed to fetch your wanted posts" });
     }
   });
 
-  app.post("/api/wishlist/?", requireAuth, async (req, res) => {
+  app.post("/api/wanted", requireAuth, async (req, res) => {
     try {
-      const wishlistData = insertWishlistSchema.parse({
-        userId: req.user!.id,
-        itemId: req.body.itemId,
-      });
+      const postData = insertWantedPostSchema.parse(req.body);
+      const locationIssue = await locationError(postData.preferredLocation);
+      if (locationIssue) {
+        return res.status(400).json({ message: locationIssue });
+      }
       
-      // Check if already in wishlist
-      const exists = await storage.isInWishlist(req.user!.id, req.body.itemId);
-      if (exists) {
-        return res.status(400).json({ message: "Item already in wishlist" });
+      const openPosts = await storage.countOpenWantedPosts(req.user!.id);
+      if (openPosts >= MAX_OPEN_WANTED_POSTS) {
+        return res.status(400).json({ message: `You can have up to ${MAX_OPEN_WANTED_POSTS} open wanted posts` });
       }
       
-      const wishlistItem = await storage.addToWishlist(wishlistData);
-      res.status(201).json(wishlistItem);
+      const post = await storage.createWantedPost({ ...postData, userId: req.user!.id });
+      res.status(201).json(post);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to add to wishlist" });
+      res.status(500).json({ message: "Failed to create wanted post" });
     }
   });
 
-  app.delete("/api/wishlist/:itemId", requireAuth, async (req, res) => {
+  app.patch("/api/wanted/:id", requireAuth, async (req, res) => {
     try {
-      const removed = await storage.removeFromWishlist(req.user!.id, req.params.itemId);
-      if (removed) {
-        res.json({ message: "Removed from wishlist" });
-      } else {
-        res.status(404).json({ message: "Item not found in wishlist" });
+      const { status } = z.object({ status: z.enum(wantedPostStatusEnum.enumValues) }).parse(req.body);
+      
+      const existing = await storage.getWantedPost(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Wanted post not found" });
       }
+      if (status === "open" && existing.status !== "open") {
+        const openPosts = await storage.countOpenWantedPosts(req.user!.id);
+        if (openPosts >= MAX_OPEN_WANTED_POSTS) {
+          return res.status(400).json({ message: `You can have up to ${MAX_OPEN_WANTED_POSTS} open wanted posts` });
+        }
+      }
+      
+      const post = await storage.updateWantedPostStatus(req.params.id, req.user!.id, status);
+      res.json(post);
     } catch (error) {
-      res.status(500).json({ message: "Failed to remove from wishlist" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update wanted post" });
     }
   });
 
-  // Messages routes
-  app.get("/api/messages", requireAuth, async (req, res) => {
+  app.delete("/api/wanted/:id", requireAuth, async (req, res) => {
     try {
-      const messages = await storage.getMessages(req.user!.id, req.query.itemId as string);
-      res.json(messages);
+      const deleted = await storage.deleteWantedPost(req.params.id, req.user!.id);
+      if (deleted) {
+        res.json({ message: "Wanted post deleted" });
+      } else {
+        res.status(404).json({ message: "Wanted post not found" });
+      }
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch messages" });
+      res.status(500).json({ message: "Failed to delete wanted post" });
     }
   });
 
-  app.post("/api/messages", requireAuth, async (req, res) => {
+  app.post("/api/wanted/:id/responses", requireAuth, async (req, res) => {
     try {
-      const messageData = insertMessageSchema.parse({
-        senderId: req.user!.id,
-        receiverId: req.body.receiverId,
-        itemId: req.body.itemId,
-        content: req.body.content,
+      const responseData = insertWantedPostResponseSchema.parse(req.body);
+      
+      const post = await storage.getWantedPost(req.params.id);
+      if (!post || post.status !== "open") {
+        return res.status(404).json({ message: "Wanted post not found" });
+      }
+      if (post.userId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot respond to your own wanted post" });
+      }
+      
+      const item = await storage.getItem(responseData.itemId);
+      if (!item || item.sellerId !== req.user!.id) {
+        return res.status(404).json({ message: "Listing not found" });
+      }
+      if (item.status !== "active" || item.isDraft) {
+        return res.status(400).json({ message: "Only active listings can be linked" });
+      }
+      if (await storage.hasWantedPostResponse(post.id, item.id)) {
+        return res.status(400).json({ message: "You already linked this listing" });
+      }
+      
+      const response = await storage.createWantedPostResponse({
+        ...responseData,
+        wantedPostId: post.id,
+        sellerId: req.user!.id,
       });
+      res.status(201).json(response);
       
-      const message = await storage.createMessage(messageData);
-      res.status(201).json(message);
+      notifyWantedPostResponse(post, item).catch((err) => {
+        console.error("Failed to send wanted post response notification:", err);
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to send message" });
+      res.status(500).json({ message: "Failed to respond to wanted post" });
     }
   });
 
-  app.put("/api/messages/:id/read", requireAuth, async (req, res) => {
+  // Notification routes
+  app.get("/api/notifications", requireAuth, async (req, res) => {
     try {
-      await storage.markMessageAsRead(req.params.id);
-      res.json({ message: "Message marked as read" });
+      const notifications = await storage.getNotifications(req.user!.id);
+      res.json(notifications);
     } catch (error) {
-      res.status(500).json({ message: "Failed to mark message as read" });
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.put("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      await storage.markAllNotificationsAsRead(req.user!.id);
+      res.json({ message: "All notifications marked as read" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  app.put("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const updated = await storage.markNotificationAsRead(req.params.id, req.user!.id);
+      if (updated) {
+        res.json({ message: "Notification marked as read" });
+      } else {
+        res.status(404).json({ message: "Notification not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  // Location routes
+  app.get("/api/locations", async (req, res) => {
+    try {
+      const locations = await storage.getLocations();
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch locations" });
     }
   });
 
@@ -320,6 +1989,71 @@ export function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  app.get("/api/admin/reviews", requireAdmin, async (req, res) => {
+    try {
+      const reviews = await storage.getAllReviews();
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.delete("/api/admin/reviews/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteReview(req.params.id);
+      if (deleted) {
+        res.json({ message: "Review removed" });
+      } else {
+        res.status(404).json({ message: "Review not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove review" });
+    }
+  });
+
+  app.get("/api/admin/reports", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status === "closed" ? "closed" : "pending";
+      const reports = await storage.getReports(status);
+      res.json(reports);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  app.post("/api/admin/reports/:id/decision", requireAdmin, async (req, res) => {
+    try {
+      const decisionData = insertModerationDecisionSchema.parse(req.body);
+      
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      if (report.status !== "pending") {
+        return res.status(400).json({ message: "This report has already been handled" });
+      }
+      
+      if (decisionData.action === "hide_listing" && report.targetType !== "item") {
+        return res.status(400).json({ message: "Only reported listings can be hidden" });
+      }
+      
+      const result = await storage.decideReport(report.id, req.user!.id, decisionData);
+      if (!result) {
+        return res.status(400).json({ message: "This report has already been handled" });
+      }
+      
+      const item = result.report.itemId ? await storage.getItem(result.report.itemId) : undefined;
+      await notifyModerationDecision(result.decision, result.report, item);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record decision" });
+    }
+  });
+
   app.put("/api/admin/users/:id", requireAdmin, async (req, res) => {
     try {
       const updates = req.body;
@@ -334,6 +2068,64 @@ export function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  app.post("/api/admin/locations", requireAdmin, async (req, res) => {
+    try {
+      const locationData = insertLocationSchema.parse(req.body);
+      const id = locationSlug(locationData.name);
+      if (!id) {
+        return res.status(400).json({ message: "The name needs at least one letter or number" });
+      }
+      
+      if (await storage.getLocation(id)) {
+        return res.status(400).json({ message: "A location with this name already exists" });
+      }
+      
+      const location = await storage.createLocation({ ...locationData, id });
+      res.status(201).json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add location" });
+    }
+  });
+
+  // Renaming keeps the id, so existing listings follow the new name
+  app.put("/api/admin/locations/:id", requireAdmin, async (req, res) => {
+    try {
+      const updates = insertLocationSchema.partial().parse(req.body);
+      const location = await storage.updateLocation(req.params.id, updates);
+      if (location) {
+        res.json(location);
+      } else {
+        res.status(404).json({ message: "Location not found" });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  app.delete("/api/admin/locations/:id", requireAdmin, async (req, res) => {
+    try {
+      const uses = await storage.countLocationUses(req.params.id);
+      if (uses > 0) {
+        return res.status(400).json({ message: `This location is still used in ${uses} place${uses !== 1 ? "s" : ""} - retire it instead` });
+      }
+      
+      const deleted = await storage.deleteLocation(req.params.id);
+      if (deleted) {
+        res.json({ message: "Location deleted" });
+      } else {
+        res.status(404).json({ message: "Location not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete location" });
+    }
+  });
+
   // Lost and Found routes
   app.get("/api/lost-found", async (req, res) => {
     try {
@@ -344,7 +2136,7 @@ export function registerRoutes(app: Express): Promise<void> {
       };
       
       const items = await storage.getLostFoundItems(filters);
-      res.json(items);
+      res.json(items.map(withPhotoUrls));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch lost and found items" });
     }
@@ -356,7 +2148,7 @@ export function registerRoutes(app: Express): Promise<void> {
       if (!item) {
         return res.status(404).json({ message: "Lost and found item not found" });
       }
-      res.json(item);
+      res.json(withPhotoUrls(item));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch lost and found item" });
     }
@@ -369,10 +2161,18 @@ export function registerRoutes(app: Express): Promise<void> {
         description: req.body.description,
         category: req.body.category,
         foundLocation: req.body.foundLocation,
+        foundLocationDetails: req.body.foundLocationDetails || undefined,
       });
+      const locationIssue = await locationError(itemData.foundLocation);
+      if (locationIssue) {
+        return res.status(400).json({ message: locationIssue });
+      }
       
       // Handle uploaded photos
-      const photos = (req.files as Express.Multer.File[])?.map(file => file.filename) || [];
+      const photos = await processUploads(req.files);
+      if ("error" in photos) {
+        return res.status(400).json({ message: photos.error });
+      }
       
       const item = await storage.createLostFoundItem({
         ...itemData,
@@ -380,7 +2180,7 @@ export function registerRoutes(app: Express): Promise<void> {
         postedBy: req.user!.id,
       });
       
-      res.status(201).json(item);
+      res.status(201).json(withPhotoUrls(item));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -397,12 +2197,16 @@ export function registerRoutes(app: Express): Promise<void> {
       }
       
       // Validate and whitelist allowed fields for updates
-      const allowedUpdates = {
-        title: req.body.title,
-        description: req.body.description,
-        category: req.body.category,
-        foundLocation: req.body.foundLocation,
-      };
+      const allowedUpdates = insertLostFoundItemSchema
+        .pick({ title: true, description: true, category: true, foundLocation: true, foundLocationDetails: true })
+        .partial()
+        .parse(req.body);
+      if (allowedUpdates.foundLocation !== undefined && allowedUpdates.foundLocation !== item.foundLocation) {
+        const locationIssue = await locationError(allowedUpdates.foundLocation);
+        if (locationIssue) {
+          return res.status(400).json({ message: locationIssue });
+        }
+      }
       
       // Remove undefined fields
       const updates = Object.fromEntries(
@@ -414,8 +2218,14 @@ export function registerRoutes(app: Express): Promise<void> {
       }
       
       const updatedItem = await storage.updateLostFoundItem(req.params.id, updates);
-      res.json(updatedItem);
+      if (!updatedItem) {
+        return res.status(404).json({ message: "Lost and found item not found" });
+      }
+      res.json(withPhotoUrls(updatedItem));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update lost and found item" });
     }
   });
@@ -443,7 +2253,7 @@ export function registerRoutes(app: Express): Promise<void> {
       };
       
       const claims = await storage.getLostFoundClaims(filters);
-      res.json(claims);
+      res.json(claims.map(withProofFileUrls));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch claims" });
     }
@@ -456,7 +2266,10 @@ export function registerRoutes(app: Express): Promise<void> {
       });
       
       // Handle uploaded proof files
-      const proofFiles = (req.files as Express.Multer.File[])?.map(file => file.filename) || [];
+      const proofFiles = await processUploads(req.files);
+      if ("error" in proofFiles) {
+        return res.status(400).json({ message: proofFiles.error });
+      }
       
       const claim = await storage.createLostFoundClaim({
         ...claimData,
@@ -465,7 +2278,7 @@ export function registerRoutes(app: Express): Promise<void> {
         proofFiles,
       });
       
-      res.status(201).json(claim);
+      res.status(201).json(withProofFileUrls(claim));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -519,8 +2332,10 @@ export function registerRoutes(app: Express): Promise<void> {
     });
   });
 
-  // Serve uploaded files
-  app.use("/uploads", express.static("uploads"));
+  // Serve uploaded files when they're on local disk; S3 uploads are linked to the bucket directly
+  if (fileStorage.localDirectory) {
+    app.use("/uploads", express.static(fileStorage.localDirectory));
+  }
 
   return Promise.resolve();
 }
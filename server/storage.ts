@@ -5,10 +5,32 @@ import {
   messages,
   lostFoundItems,
   lostFoundClaims,
+  savedSearches,
+  notifications,
+  offers,
+  swapProposals,
+  swapProposalItems,
+  reservations,
+  reviews,
+  reports,
+  moderationDecisions,
+  itemViews,
+  wantedPosts,
+  wantedPostResponses,
+  giveawayClaims,
+  bids,
+  locations,
   type User,
   type InsertUser,
   type Item,
   type InsertItem,
+  type DraftItem,
+  type ItemWithSeller,
+  type ItemSort,
+  type ItemPage,
+  type ItemSearchResult,
+  type PriceSuggestion,
+  type PublicProfile,
   type Wishlist,
   type InsertWishlist,
   type Message,
@@ -17,9 +39,45 @@ import {
   type InsertLostFoundItem,
   type LostFoundClaim,
   type InsertLostFoundClaim,
+  type SavedSearch,
+  type InsertSavedSearch,
+  type Notification,
+  type InsertNotification,
+  type Offer,
+  type InsertOffer,
+  type OfferWithDetails,
+  type SwapProposal,
+  type InsertSwapProposal,
+  type SwapProposalWithDetails,
+  type Reservation,
+  type ReservationWithDetails,
+  type Review,
+  type InsertReview,
+  type ReviewWithDetails,
+  type SellerRating,
+  type Report,
+  type InsertReport,
+  type ReportWithDetails,
+  type ModerationDecision,
+  type InsertModerationDecision,
+  type ItemSeller,
+  type WantedPost,
+  type InsertWantedPost,
+  type WantedPostResponse,
+  type InsertWantedPostResponse,
+  type WantedPostWithDetails,
+  type GiveawayClaim,
+  type GiveawayClaimWithUser,
+  type Bid,
+  type BidWithBidder,
+  type Location,
+  type InsertLocation,
+  nextMinimumBid,
 } from "../shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, ilike, sql, gte, lte } from "drizzle-orm";
+import { eq, desc, asc, and, or, ilike, sql, TransactionRollbackError, arrayContains, gte, lte, lt, isNull, isNotNull, ne, inArray, notInArray, notExists, type SQL, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { randomInt } from "crypto";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import MemoryStore from "memorystore";
@@ -28,6 +86,251 @@ import { pool } from "./db";
 const PostgresSessionStore = connectPg(session);
 const createMemoryStore = MemoryStore(session);
 
+export interface ItemCursor {
+  value: string;
+  id: string;
+}
+
+export interface ItemFilters {
+  category?: string;
+  location?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  search?: string;
+  courseCode?: string;
+  // Category attribute values to match, compared case-insensitively
+  attributes?: Record<string, string>;
+  giveaway?: boolean;
+  sellerId?: string;
+  status?: string;
+  includeDrafts?: boolean;
+  sort?: ItemSort;
+  limit?: number;
+  cursor?: ItemCursor;
+}
+
+export interface FeedItemFilters {
+  location?: string;
+  categories?: string[];
+  excludeSellerId?: string;
+  excludeItemIds?: string[];
+  limit: number;
+}
+
+export interface WantedPostFilters {
+  category?: string;
+  location?: string;
+  search?: string;
+}
+
+export interface PriceSuggestionQuery {
+  category: NonNullable<Item["category"]>;
+  condition: NonNullable<Item["condition"]>;
+  title?: string;
+  excludeSellerId?: string;
+}
+
+export const DEFAULT_ITEMS_PAGE_SIZE = 24;
+export const MAX_ITEMS_PAGE_SIZE = 100;
+export const RESERVATION_HOURS = 48;
+// How long the person at the front of a giveaway queue has to accept
+export const GIVEAWAY_OFFER_HOURS = 24;
+// Storefronts show what a seller sold over this window
+export const RECENTLY_SOLD_DAYS = 90;
+export const LISTING_EXPIRY_DAYS = Number(process.env.LISTING_EXPIRY_DAYS) || 30;
+// Sellers are reminded this many days before a listing expires
+export const EXPIRY_REMINDER_DAYS = 3;
+
+export function listingExpiryDate(): Date {
+  return new Date(Date.now() + LISTING_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Listings created before expiry was tracked count from their creation date
+const itemExpiresAt = sql`coalesce(${items.expiresAt}, ${items.createdAt} + make_interval(days => ${LISTING_EXPIRY_DAYS}))`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Profile fields that are safe to show other students (no email/phone)
+function publicUserColumns(table: typeof users | ReturnType<typeof alias<typeof users, string>>) {
+  return {
+    id: table.id,
+    firstName: table.firstName,
+    lastName: table.lastName,
+    branch: table.branch,
+    year: table.year,
+    hostelBlock: table.hostelBlock,
+    profilePicture: table.profilePicture,
+    isVerified: table.isVerified,
+    createdAt: table.createdAt,
+  };
+}
+
+// Average and number of ratings a user has received, as correlated subqueries
+function userRatingColumns(userId: AnyColumn) {
+  return {
+    ratingAverage: sql<number | null>`(select avg(${reviews.rating})::float from ${reviews} where ${reviews.revieweeId} = ${userId})`,
+    ratingCount: sql<number>`(select count(*) from ${reviews} where ${reviews.revieweeId} = ${userId})`,
+  };
+}
+
+function toSellerRating(row: { ratingAverage: number | null; ratingCount: number }): SellerRating {
+  const count = Number(row.ratingCount);
+  return { average: count > 0 ? Number(row.ratingAverage) : null, count };
+}
+
+const itemWishlistCount = sql`(select count(*) from ${wishlist} where ${wishlist.itemId} = ${items.id})`;
+
+// Weighted document for full-text search; mirrors the items_search_idx expression index
+const itemSearchVector = sql`(setweight(to_tsvector('english', coalesce(${items.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${items.description}, '')), 'B'))`;
+// Category is an enum, whose text cast isn't immutable, so it can't live in the index expression
+const itemCategoryVector = sql`setweight(to_tsvector('english', coalesce(${items.category}::text, '')), 'C')`;
+
+const SEARCH_HIGHLIGHT_OPTIONS = "StartSel=<mark>, StopSel=</mark>";
+
+// Rows matching a search term; term may be a literal or a column (e.g. saved_searches.search)
+function itemSearchMatch(term: string | SQL): SQL {
+  const query = sql`websearch_to_tsquery('english', ${term})`;
+  return or(
+    sql`${itemSearchVector} @@ ${query}`,
+    sql`${itemCategoryVector} @@ ${query}`,
+    sql`${term} <% coalesce(${items.title}, '')`
+  )!;
+}
+
+// Full-text rank plus a trigram bonus so misspelled queries ("calculater") still surface close titles
+function itemSearchRank(term: string): SQL {
+  return sql`(ts_rank(${itemSearchVector} || ${itemCategoryVector}, websearch_to_tsquery('english', ${term})) + 0.5 * word_similarity(${term}, coalesce(${items.title}, '')))`;
+}
+
+type SortKey = { expr: SQL; direction: "asc" | "desc" };
+
+// Sort key for each mode; items.id is always appended as a tiebreaker so the keyset is unique
+const itemSortKeys: Record<Exclude<ItemSort, "relevance">, SortKey> = {
+  newest: { expr: sql`${items.createdAt}`, direction: "desc" },
+  price_asc: { expr: sql`coalesce(${items.price}, 0)`, direction: "asc" },
+  price_desc: { expr: sql`coalesce(${items.price}, 0)`, direction: "desc" },
+  most_viewed: { expr: sql`${items.views}`, direction: "desc" },
+  most_wishlisted: { expr: itemWishlistCount, direction: "desc" },
+};
+
+// Keeps suspended sellers' listings out of browse, search and recommendations
+function sellerNotSuspended(): SQL {
+  return notExists(
+    db.select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, items.sellerId), eq(users.isSuspended, true)))
+  );
+}
+
+// Listings a buyer can act on right now
+function listedItemConditions(): SQL[] {
+  return [
+    eq(items.status, "active"),
+    eq(items.isDraft, false),
+    sql`${itemExpiresAt} > now()`,
+    sellerNotSuspended(),
+  ];
+}
+
+// Trending counts distinct viewers and new wishlist saves over this window
+export const TRENDING_DAYS = 7;
+
+// Fewer comparable listings than this and a suggested price would be a guess
+export const MIN_PRICE_SAMPLES = 3;
+const MAX_PRICE_SAMPLES = 30;
+
+// Linear interpolation between the closest ranks of an ascending list
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+// How much each signal counts towards a similar-item score; each signal is scaled to 0..1 first
+const SIMILARITY_WEIGHTS = { category: 3, title: 4, price: 2, condition: 1, location: 1 };
+
+// Short numeric code the seller reads out at meetup
+function generateHandoffCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Put an active item on hold for a buyer; undefined if it is no longer available
+async function reserveItemInTransaction(tx: Transaction, itemId: string, buyerId: string): Promise<Reservation | undefined> {
+  const [reserved] = await tx
+    .update(items)
+    .set({ status: "reserved", reservedFor: buyerId, updatedAt: new Date() })
+    .where(and(eq(items.id, itemId), eq(items.status, "active")))
+    .returning();
+  if (!reserved) {
+    return undefined;
+  }
+
+  const [reservation] = await tx
+    .insert(reservations)
+    .values({
+      itemId,
+      buyerId,
+      handoffCode: generateHandoffCode(),
+      expiresAt: new Date(Date.now() + RESERVATION_HOURS * 60 * 60 * 1000),
+    })
+    .returning();
+  return reservation;
+}
+
+async function selectReviewsWithDetails(condition: SQL | undefined, limit: number): Promise<ReviewWithDetails[]> {
+  const reviewers = alias(users, "reviewer");
+  const reviewees = alias(users, "reviewee");
+
+  const rows = await db
+    .select({
+      review: reviews,
+      reviewer: publicUserColumns(reviewers),
+      reviewee: publicUserColumns(reviewees),
+      item: { id: items.id, title: items.title },
+    })
+    .from(reviews)
+    .innerJoin(reviewers, eq(reviews.reviewerId, reviewers.id))
+    .innerJoin(reviewees, eq(reviews.revieweeId, reviewees.id))
+    .innerJoin(items, eq(reviews.itemId, items.id))
+    .where(condition)
+    .orderBy(desc(reviews.createdAt))
+    .limit(limit);
+
+  return rows.map((row) => ({ ...row.review, reviewer: row.reviewer, reviewee: row.reviewee, item: row.item }));
+}
+
+async function selectWantedPostsWithDetails(condition: SQL | undefined, limit: number): Promise<WantedPostWithDetails[]> {
+  const rows = await db
+    .select({
+      post: wantedPosts,
+      poster: publicUserColumns(users),
+      responseCount: sql<number>`(select count(*)::int from ${wantedPostResponses} where ${wantedPostResponses.wantedPostId} = ${wantedPosts.id})`,
+    })
+    .from(wantedPosts)
+    .innerJoin(users, eq(wantedPosts.userId, users.id))
+    .where(condition)
+    .orderBy(desc(wantedPosts.createdAt))
+    .limit(limit);
+
+  return rows.map((row) => ({ ...row.post, poster: row.poster, responseCount: row.responseCount }));
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON of the last row's sort key and id
+export function encodeItemCursor(cursor: ItemCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeItemCursor(raw: string): ItemCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof parsed?.value !== "string" || typeof parsed?.id !== "string") return null;
+    return { value: parsed.value, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -39,27 +342,34 @@ export interface IStorage {
   updateUserPassword(id: string, hashedPassword: string): Promise<User | undefined>;
   verifyUser(id: string): Promise<User | undefined>;
   clearUserOTP(id: string): Promise<User | undefined>;
+  getPublicProfile(id: string): Promise<PublicProfile | undefined>;
 
   // Item methods
   getItem(id: string): Promise<Item | undefined>;
-  getItems(filters?: {
-    category?: string;
-    location?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    search?: string;
-    sellerId?: string;
-    status?: string;
-    includeDrafts?: boolean;
-  }): Promise<Item[]>;
+  getItemWithSeller(id: string): Promise<ItemWithSeller | undefined>;
+  getItems(filters?: ItemFilters): Promise<ItemPage<ItemSearchResult>>;
+  getSimilarItems(item: Item, limit: number): Promise<ItemSearchResult[]>;
+  getPriceSuggestion(query: PriceSuggestionQuery): Promise<PriceSuggestion | null>;
   createItem(item: InsertItem): Promise<Item>;
   createDraft(
-    data: Partial<InsertItem & { sellerId: string; isDraft?: boolean }>
+    data: DraftItem & { sellerId: string; photos?: string[]; isDraft?: boolean }
   ): Promise<Item>;
   updateItem(id: string, updates: Partial<Item>): Promise<Item | undefined>;
   deleteItem(id: string): Promise<boolean>;
+  createDrafts(sellerId: string, drafts: (InsertItem & { photos: string[] })[]): Promise<Item[]>;
+  publishDrafts(sellerId: string, ids: string[]): Promise<Item[]>;
+  renewItem(id: string): Promise<Item | undefined>;
+  getItemsDueForExpiryReminder(): Promise<Item[]>;
+  markExpiryReminderSent(id: string): Promise<void>;
+  expireListings(): Promise<Item[]>;
   incrementItemViews(id: string): Promise<void>;
 
+  // Feed methods
+  recordItemView(userId: string, itemId: string): Promise<void>;
+  getFeedItems(filters: FeedItemFilters): Promise<ItemSearchResult[]>;
+  getRecentlyViewedItems(userId: string, limit: number): Promise<ItemSearchResult[]>;
+  getTrendingItems(limit: number, excludeSellerId?: string): Promise<ItemSearchResult[]>;
+
   // Wishlist methods
   getWishlistByUser(userId: string): Promise<(Wishlist & { item: Item })[]>;
   addToWishlist(wishlistItem: InsertWishlist): Promise<Wishlist>;
@@ -71,6 +381,7 @@ export interface IStorage {
     userId: string,
     itemId?: string
   ): Promise<(Message & { sender: User; receiver: User; item?: Item })[]>;
+  getMessage(id: string): Promise<Message | undefined>;
   createMessage(message: InsertMessage): Promise<Message>;
   markMessageAsRead(id: string): Promise<void>;
 
@@ -100,6 +411,105 @@ export interface IStorage {
   approveLostFoundClaim(claimId: string, reviewedBy: string, notes?: string): Promise<boolean>;
   rejectLostFoundClaim(claimId: string, reviewedBy: string, notes?: string): Promise<boolean>;
 
+  // Saved search methods
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  createSavedSearch(savedSearch: InsertSavedSearch & { userId: string }): Promise<SavedSearch>;
+  deleteSavedSearch(id: string, userId: string): Promise<boolean>;
+  getSavedSearchMatches(itemId: string): Promise<(SavedSearch & { user: User })[]>;
+
+  // Wanted post methods
+  getWantedPosts(filters?: WantedPostFilters): Promise<WantedPostWithDetails[]>;
+  getWantedPostsByUser(userId: string): Promise<WantedPostWithDetails[]>;
+  getWantedPost(id: string): Promise<WantedPost | undefined>;
+  countOpenWantedPosts(userId: string): Promise<number>;
+  createWantedPost(post: InsertWantedPost & { userId: string }): Promise<WantedPost>;
+  updateWantedPostStatus(id: string, userId: string, status: WantedPost["status"]): Promise<WantedPost | undefined>;
+  deleteWantedPost(id: string, userId: string): Promise<boolean>;
+  getWantedPostResponses(wantedPostId: string): Promise<(WantedPostResponse & { item: Item; seller: ItemSeller })[]>;
+  hasWantedPostResponse(wantedPostId: string, itemId: string): Promise<boolean>;
+  createWantedPostResponse(response: InsertWantedPostResponse & { wantedPostId: string; sellerId: string }): Promise<WantedPostResponse>;
+  getWantedPostMatches(itemId: string): Promise<(WantedPost & { user: User })[]>;
+
+  // Giveaway methods
+  getGiveawayQueue(itemId: string): Promise<GiveawayClaimWithUser[]>;
+  getGiveawayClaim(id: string): Promise<GiveawayClaim | undefined>;
+  getGiveawayClaimForUser(itemId: string, userId: string): Promise<GiveawayClaim | undefined>;
+  joinGiveawayQueue(itemId: string, userId: string): Promise<GiveawayClaim | undefined>;
+  leaveGiveawayQueue(itemId: string, userId: string): Promise<GiveawayClaim | undefined>;
+  offerGiveaway(claimId: string): Promise<GiveawayClaim | undefined>;
+  offerGiveawayToNext(itemId: string): Promise<GiveawayClaim | undefined>;
+  acceptGiveawayOffer(claimId: string): Promise<{ claim: GiveawayClaim; reservation: Reservation } | undefined>;
+  passGiveawayOffer(claimId: string, status: "declined" | "expired"): Promise<GiveawayClaim | undefined>;
+  getExpiredGiveawayOffers(): Promise<GiveawayClaim[]>;
+
+  // Auction methods
+  getBids(itemId: string, limit: number): Promise<BidWithBidder[]>;
+  getHighestBid(itemId: string): Promise<Bid | undefined>;
+  countBids(itemId: string): Promise<number>;
+  placeBid(itemId: string, bidderId: string, amount: number): Promise<{ bid: Bid; outbid?: Bid } | { error: string }>;
+  getEndedAuctions(): Promise<Item[]>;
+  closeAuction(itemId: string): Promise<{ item: Item; winningBid?: Bid } | undefined>;
+
+  // Notification methods
+  getNotifications(userId: string): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationAsRead(id: string, userId: string): Promise<boolean>;
+  markAllNotificationsAsRead(userId: string): Promise<void>;
+
+  // Offer methods
+  getOffer(id: string): Promise<Offer | undefined>;
+  getOffers(userId: string, itemId?: string): Promise<OfferWithDetails[]>;
+  getPendingOffer(itemId: string, buyerId: string): Promise<Offer | undefined>;
+  createOffer(offer: InsertOffer & { itemId: string; buyerId: string; senderId: string }): Promise<Offer>;
+  counterOffer(id: string, counter: InsertOffer & { senderId: string }): Promise<Offer | undefined>;
+  closeOffer(id: string, status: "declined" | "withdrawn"): Promise<Offer | undefined>;
+  acceptOffer(id: string): Promise<{ offer: Offer; declinedOffers: Offer[] } | undefined>;
+
+  // Swap proposal methods
+  getSwapProposal(id: string): Promise<SwapProposal | undefined>;
+  getSwapProposals(userId: string): Promise<SwapProposalWithDetails[]>;
+  getPendingSwapProposal(itemId: string, proposerId: string): Promise<SwapProposal | undefined>;
+  createSwapProposal(proposal: InsertSwapProposal & { itemId: string; proposerId: string }): Promise<SwapProposal>;
+  closeSwapProposal(id: string, status: "rejected" | "withdrawn"): Promise<SwapProposal | undefined>;
+  acceptSwapProposal(id: string): Promise<{ proposal: SwapProposal; rejectedProposals: SwapProposal[] } | undefined>;
+
+  // Reservation methods
+  getReservation(id: string): Promise<Reservation | undefined>;
+  getReservations(userId: string): Promise<ReservationWithDetails[]>;
+  reserveItem(itemId: string, buyerId: string): Promise<Reservation | undefined>;
+  releaseReservation(id: string, status: "released" | "expired"): Promise<Reservation | undefined>;
+  recordHandoffAttempt(id: string, maxAttempts: number): Promise<number | undefined>;
+  completeHandoff(id: string): Promise<Item | undefined>;
+  getExpiredReservations(): Promise<Reservation[]>;
+  getPurchases(userId: string): Promise<Item[]>;
+  getSellerListings(sellerId: string, limit: number): Promise<Item[]>;
+  getRecentlySoldItems(sellerId: string, limit: number): Promise<Item[]>;
+
+  // Review methods
+  getReview(id: string): Promise<Review | undefined>;
+  getUserRating(userId: string): Promise<SellerRating>;
+  getReviewsForUser(userId: string): Promise<ReviewWithDetails[]>;
+  getAllReviews(): Promise<ReviewWithDetails[]>;
+  hasReviewed(itemId: string, reviewerId: string): Promise<boolean>;
+  getItemsAwaitingReview(userId: string): Promise<Item[]>;
+  createReview(review: InsertReview & { itemId: string; reviewerId: string; revieweeId: string }): Promise<Review>;
+  deleteReview(id: string): Promise<boolean>;
+
+  // Report methods
+  getReport(id: string): Promise<Report | undefined>;
+  getReports(status: "pending" | "closed"): Promise<ReportWithDetails[]>;
+  hasPendingReport(reporterId: string, targetType: Report["targetType"], targetId: string): Promise<boolean>;
+  createReport(report: Omit<InsertReport, "targetId"> & { reporterId: string; reportedUserId: string; itemId?: string; messageId?: string }): Promise<Report>;
+  decideReport(id: string, adminId: string, decision: InsertModerationDecision): Promise<{ report: Report; decision: ModerationDecision } | undefined>;
+
+  // Location methods
+  getLocations(): Promise<Location[]>;
+  getLocation(id: string): Promise<Location | undefined>;
+  createLocation(location: InsertLocation & { id: string }): Promise<Location>;
+  updateLocation(id: string, updates: Partial<InsertLocation>): Promise<Location | undefined>;
+  countLocationUses(id: string): Promise<number>;
+  deleteLocation(id: string): Promise<boolean>;
+
   // Admin methods
   getAllUsers(): Promise<User[]>;
   getUserStats(): Promise<{
@@ -108,6 +518,7 @@ export interface IStorage {
     totalMessages: number;
     totalLostFoundItems: number;
     totalClaims: number;
+    pendingReports: number;
   }>;
 
   sessionStore: any;
@@ -228,23 +639,45 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Only the public columns are read, so contact details can't leak into a storefront
+  async getPublicProfile(id: string): Promise<PublicProfile | undefined> {
+    const [row] = await db
+      .select({ profile: publicUserColumns(users), ...userRatingColumns(users.id) })
+      .from(users)
+      // Suspended accounts have no storefront
+      .where(and(eq(users.id, id), eq(users.isSuspended, false)));
+    return row ? { ...row.profile, rating: toSellerRating(row) } : undefined;
+  }
+
   // ---------- Item Methods ----------
   async getItem(id: string): Promise<Item | undefined> {
     const [item] = await db.select().from(items).where(eq(items.id, id));
     return item || undefined;
   }
 
-  async getItems(filters?: {
-    category?: string;
-    location?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    search?: string;
-    sellerId?: string;
-    status?: string;
-    includeDrafts?: boolean;
-  }): Promise<Item[]> {
-    const conditions = [];
+  async getItemWithSeller(id: string): Promise<ItemWithSeller | undefined> {
+    const [row] = await db
+      .select({
+        item: items,
+        seller: publicUserColumns(users),
+        ...userRatingColumns(items.sellerId),
+        wishlistCount: sql<number>`(select count(*) from ${wishlist} where ${wishlist.itemId} = ${items.id})`,
+      })
+      .from(items)
+      .innerJoin(users, eq(items.sellerId, users.id))
+      .where(eq(items.id, id));
+
+    if (!row) return undefined;
+    return {
+      ...row.item,
+      seller: row.seller,
+      sellerRating: toSellerRating(row),
+      wishlistCount: Number(row.wishlistCount),
+    };
+  }
+
+  async getItems(filters?: ItemFilters): Promise<ItemPage<ItemSearchResult>> {
+    const conditions: (SQL | undefined)[] = [];
 
     if (filters?.category) {
       conditions.push(eq(items.category, filters.category as any));
@@ -254,6 +687,18 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(items.location, filters.location as any));
     }
 
+    if (filters?.courseCode) {
+      conditions.push(arrayContains(items.courseCodes, [filters.courseCode]));
+    }
+
+    if (filters?.giveaway) {
+      conditions.push(eq(items.isGiveaway, true));
+    }
+
+    for (const [key, value] of Object.entries(filters?.attributes ?? {})) {
+      conditions.push(sql`lower(${items.attributes} ->> ${key}) = lower(${value})`);
+    }
+
     if (filters?.minPrice !== undefined) {
       conditions.push(gte(items.price, filters.minPrice));
     }
@@ -262,23 +707,28 @@ export class DatabaseStorage implements IStorage {
       conditions.push(lte(items.price, filters.maxPrice));
     }
 
-    if (filters?.search) {
-      conditions.push(
-        or(
-          ilike(items.title, `%${filters.search}%`),
-          ilike(items.description, `%${filters.search}%`)
-        )
-      );
+    const searchTerm = filters?.search?.trim();
+    const searchQuery = searchTerm ? sql`websearch_to_tsquery('english', ${searchTerm})` : undefined;
+
+    if (searchTerm) {
+      conditions.push(itemSearchMatch(searchTerm));
     }
 
     if (filters?.sellerId) {
       conditions.push(eq(items.sellerId, filters.sellerId));
+    } else {
+      conditions.push(sellerNotSuspended());
     }
 
-    if (filters?.status) {
+    if (filters?.status === "draft") {
+      // Older drafts were saved with status "active", so go by the flag
+      conditions.push(eq(items.isDraft, true));
+    } else if (filters?.status) {
       conditions.push(eq(items.status, filters.status as any));
     } else {
       conditions.push(eq(items.status, "active"));
+      // Don't wait for the expiry sweep to drop lapsed listings
+      conditions.push(sql`${itemExpiresAt} > now()`);
     }
 
     // Hide drafts unless explicitly included
@@ -286,20 +736,154 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(items.isDraft, false));
     }
 
-    if (conditions.length > 0) {
-      return await db.select().from(items).where(and(...conditions)).orderBy(desc(items.createdAt));
+    const sort = filters?.sort ?? "newest";
+    // Relevance only makes sense with a search term; otherwise fall back to newest
+    const { expr, direction }: SortKey = sort === "relevance"
+      ? (searchTerm ? { expr: itemSearchRank(searchTerm), direction: "desc" } : itemSortKeys.newest)
+      : itemSortKeys[sort];
+
+    if (filters?.cursor) {
+      conditions.push(
+        direction === "desc"
+          ? sql`(${expr}, ${items.id}) < (${filters.cursor.value}, ${filters.cursor.id})`
+          : sql`(${expr}, ${items.id}) > (${filters.cursor.value}, ${filters.cursor.id})`
+      );
+    }
+
+    const limit = Math.min(filters?.limit ?? DEFAULT_ITEMS_PAGE_SIZE, MAX_ITEMS_PAGE_SIZE);
+    const order = direction === "desc" ? desc : asc;
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await db
+      .select({
+        item: items,
+        sortValue: sql<string>`(${expr})::text`,
+        ...userRatingColumns(items.sellerId),
+        titleHighlight: searchQuery
+          ? sql<string | null>`ts_headline('english', coalesce(${items.title}, ''), ${searchQuery}, ${SEARCH_HIGHLIGHT_OPTIONS + ", HighlightAll=true"})`
+          : sql<string | null>`null`,
+        descriptionHighlight: searchQuery
+          ? sql<string | null>`ts_headline('english', coalesce(${items.description}, ''), ${searchQuery}, ${SEARCH_HIGHLIGHT_OPTIONS + ", MaxWords=25, MinWords=10"})`
+          : sql<string | null>`null`,
+      })
+      .from(items)
+      .where(and(...conditions))
+      .orderBy(order(expr), order(items.id))
+      .limit(limit + 1);
+
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      items: pageRows.map((row) => ({
+        ...row.item,
+        sellerRating: toSellerRating(row),
+        ...(searchTerm && {
+          highlights: {
+            title: row.titleHighlight ?? "",
+            description: row.descriptionHighlight ?? "",
+          },
+        }),
+      })),
+      nextCursor: rows.length > limit && last
+        ? encodeItemCursor({ value: last.sortValue, id: last.item.id })
+        : null,
+    };
+  }
+
+  // Ranks live listings by how closely they match the given one; the source itself may be sold or expired
+  async getSimilarItems(item: Item, limit: number): Promise<ItemSearchResult[]> {
+    if (!item.category && !item.title) {
+      return [];
+    }
+
+    const title = item.title ?? "";
+    const w = SIMILARITY_WEIGHTS;
+    const score = sql`(
+      ${w.category} * coalesce((${items.category} = ${item.category})::int, 0)
+      + ${w.title} * similarity(coalesce(${items.title}, ''), ${title})
+      + ${w.price} * coalesce(1 - least(abs(${items.price} - ${item.price})::float / greatest(${item.price}, 1), 1), 0)
+      + ${w.condition} * coalesce(1 - abs(array_position(enum_range(null::item_condition), ${items.condition}) - array_position(enum_range(null::item_condition), ${item.condition}::item_condition))::float / 3, 0)
+      + ${w.location} * coalesce((${items.location} = ${item.location})::int, 0)
+    )`;
+
+    const rows = await db
+      .select({ item: items, ...userRatingColumns(items.sellerId) })
+      .from(items)
+      .where(and(
+        ...listedItemConditions(),
+        ne(items.id, item.id),
+        // Same category, or a title close enough to be the same kind of thing
+        or(
+          item.category ? eq(items.category, item.category) : undefined,
+          title ? sql`coalesce(${items.title}, '') % ${title}` : undefined
+        )
+      ))
+      .orderBy(desc(score), desc(items.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.item, sellerRating: toSellerRating(row) }));
+  }
+
+  // Prices of sold and live listings in the same category and condition, closest titles first
+  async getPriceSuggestion(query: PriceSuggestionQuery): Promise<PriceSuggestion | null> {
+    const conditions = [
+      eq(items.category, query.category),
+      eq(items.condition, query.condition),
+      eq(items.isDraft, false),
+      inArray(items.status, ["active", "sold"]),
+      // Free giveaways would drag the range down
+      sql`${items.price} > 0`,
+    ];
+    if (query.excludeSellerId) {
+      conditions.push(ne(items.sellerId, query.excludeSellerId));
+    }
+
+    const samplePrices = (extra: SQL[], order: SQL[]) =>
+      db
+        .select({ price: items.price, status: items.status })
+        .from(items)
+        .where(and(...conditions, ...extra))
+        .orderBy(...order)
+        .limit(MAX_PRICE_SAMPLES);
+
+    const recentFirst = desc(sql`coalesce(${items.soldAt}, ${items.createdAt})`);
+    const title = query.title?.trim();
+    let rows = title
+      ? await samplePrices(
+          [sql`coalesce(${items.title}, '') % ${title}`],
+          [desc(sql`similarity(coalesce(${items.title}, ''), ${title})`), recentFirst]
+        )
+      : [];
+    // Not enough look-alikes, so fall back to anything in the same category and condition
+    if (rows.length < MIN_PRICE_SAMPLES) {
+      rows = await samplePrices([], [recentFirst]);
+    }
+
+    // What things actually sold for beats asking prices when there's enough of it
+    const sold = rows.filter((row) => row.status === "sold");
+    const basis = sold.length >= MIN_PRICE_SAMPLES ? "sold" : "listed";
+    const prices = (basis === "sold" ? sold : rows).map((row) => row.price!).sort((a, b) => a - b);
+    if (prices.length < MIN_PRICE_SAMPLES) {
+      return null;
     }
 
-    return await db.select().from(items).orderBy(desc(items.createdAt));
+    return {
+      low: Math.round(quantile(prices, 0.25)),
+      median: Math.round(quantile(prices, 0.5)),
+      high: Math.round(quantile(prices, 0.75)),
+      sampleSize: prices.length,
+      basis,
+    };
   }
 
   async createItem(item: InsertItem): Promise<Item> {
-    const [newItem] = await db.insert(items).values([item] as any).returning();
+    const [newItem] = await db.insert(items).values([{ ...item, expiresAt: listingExpiryDate() }] as any).returning();
     return newItem;
   }
 
   async createDraft(
-    data: Partial<InsertItem & { sellerId: string; isDraft?: boolean }>
+    data: DraftItem & { sellerId: string; photos?: string[]; isDraft?: boolean }
   ): Promise<Item> {
     const insertObj: Record<string, any> = {};
 
@@ -310,11 +894,22 @@ export class DatabaseStorage implements IStorage {
     if (data.price !== undefined) insertObj.price = data.price;
     if (data.location !== undefined) insertObj.location = data.location;
     if (data.photos !== undefined) insertObj.photos = data.photos;
+    if (data.isbn !== undefined) insertObj.isbn = data.isbn;
+    if (data.author !== undefined) insertObj.author = data.author;
+    if (data.edition !== undefined) insertObj.edition = data.edition;
+    if (data.courseCodes !== undefined) insertObj.courseCodes = data.courseCodes;
+    if (data.attributes !== undefined) insertObj.attributes = data.attributes;
+    if (data.isGiveaway !== undefined) insertObj.isGiveaway = data.isGiveaway;
+    if (data.giveawayAutoOffer !== undefined) insertObj.giveawayAutoOffer = data.giveawayAutoOffer;
+    if (data.isAuction !== undefined) insertObj.isAuction = data.isAuction;
+    if (data.auctionMinIncrement !== undefined) insertObj.auctionMinIncrement = data.auctionMinIncrement;
+    if (data.auctionEndsAt !== undefined) insertObj.auctionEndsAt = data.auctionEndsAt;
     if (data.isExchangeable !== undefined)
       insertObj.isExchangeable = data.isExchangeable;
 
     insertObj.sellerId = data.sellerId;
     insertObj.isDraft = data.isDraft ?? true;
+    insertObj.status = insertObj.isDraft ? "draft" : "active";
     insertObj.createdAt = new Date();
     insertObj.updatedAt = new Date();
 
@@ -344,6 +939,62 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  async createDrafts(sellerId: string, drafts: (InsertItem & { photos: string[] })[]): Promise<Item[]> {
+    if (drafts.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(items)
+      .values(drafts.map((draft) => ({ ...draft, sellerId, status: "draft" as const, isDraft: true })))
+      .returning();
+  }
+
+  async publishDrafts(sellerId: string, ids: string[]): Promise<Item[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db
+      .update(items)
+      .set({ status: "active", isDraft: false, expiresAt: listingExpiryDate(), expiryReminderSentAt: null, updatedAt: new Date() })
+      .where(and(inArray(items.id, ids), eq(items.sellerId, sellerId), eq(items.isDraft, true)))
+      .returning();
+  }
+
+  async renewItem(id: string): Promise<Item | undefined> {
+    const [item] = await db
+      .update(items)
+      .set({ status: "active", expiresAt: listingExpiryDate(), expiryReminderSentAt: null, updatedAt: new Date() })
+      .where(and(eq(items.id, id), inArray(items.status, ["active", "expired"])))
+      .returning();
+    return item || undefined;
+  }
+
+  async getItemsDueForExpiryReminder(): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(and(
+        eq(items.status, "active"),
+        eq(items.isDraft, false),
+        isNull(items.expiryReminderSentAt),
+        sql`${itemExpiresAt} > now()`,
+        sql`${itemExpiresAt} <= now() + make_interval(days => ${EXPIRY_REMINDER_DAYS})`
+      ));
+  }
+
+  async markExpiryReminderSent(id: string): Promise<void> {
+    await db.update(items).set({ expiryReminderSentAt: new Date() }).where(eq(items.id, id));
+  }
+
+  async expireListings(): Promise<Item[]> {
+    // Reserved items are on hold for a buyer and only expire once released
+    return await db
+      .update(items)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(and(eq(items.status, "active"), eq(items.isDraft, false), sql`${itemExpiresAt} <= now()`))
+      .returning();
+  }
+
   async incrementItemViews(id: string): Promise<void> {
     await db
       .update(items)
@@ -351,6 +1002,79 @@ export class DatabaseStorage implements IStorage {
       .where(eq(items.id, id));
   }
 
+  // ---------- Feed Methods ----------
+  async recordItemView(userId: string, itemId: string): Promise<void> {
+    await db
+      .insert(itemViews)
+      .values({ userId, itemId })
+      .onConflictDoUpdate({
+        target: [itemViews.userId, itemViews.itemId],
+        set: { viewedAt: new Date() },
+      });
+  }
+
+  // Newest live listings, optionally narrowed to a block or a set of categories
+  async getFeedItems(filters: FeedItemFilters): Promise<ItemSearchResult[]> {
+    const conditions = listedItemConditions();
+    if (filters.location) {
+      conditions.push(eq(items.location, filters.location as any));
+    }
+    if (filters.categories?.length) {
+      conditions.push(inArray(items.category, filters.categories as any[]));
+    }
+    if (filters.excludeSellerId) {
+      conditions.push(ne(items.sellerId, filters.excludeSellerId));
+    }
+    if (filters.excludeItemIds?.length) {
+      conditions.push(notInArray(items.id, filters.excludeItemIds));
+    }
+
+    const rows = await db
+      .select({ item: items, ...userRatingColumns(items.sellerId) })
+      .from(items)
+      .where(and(...conditions))
+      .orderBy(desc(items.createdAt))
+      .limit(filters.limit);
+
+    return rows.map((row) => ({ ...row.item, sellerRating: toSellerRating(row) }));
+  }
+
+  // Only listings that are still for sale; sold or expired ones drop out
+  async getRecentlyViewedItems(userId: string, limit: number): Promise<ItemSearchResult[]> {
+    const rows = await db
+      .select({ item: items, ...userRatingColumns(items.sellerId) })
+      .from(itemViews)
+      .innerJoin(items, eq(itemViews.itemId, items.id))
+      .where(and(eq(itemViews.userId, userId), ne(items.sellerId, userId), ...listedItemConditions()))
+      .orderBy(desc(itemViews.viewedAt))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.item, sellerRating: toSellerRating(row) }));
+  }
+
+  async getTrendingItems(limit: number, excludeSellerId?: string): Promise<ItemSearchResult[]> {
+    const since = sql`now() - make_interval(days => ${TRENDING_DAYS})`;
+    // A wishlist save says more about interest than a look, so it counts double
+    const score = sql`(
+      (select count(*) from ${itemViews} where ${itemViews.itemId} = ${items.id} and ${itemViews.viewedAt} > ${since})
+      + 2 * (select count(*) from ${wishlist} where ${wishlist.itemId} = ${items.id} and ${wishlist.createdAt} > ${since})
+    )`;
+
+    const conditions = [...listedItemConditions(), sql`${score} > 0`];
+    if (excludeSellerId) {
+      conditions.push(ne(items.sellerId, excludeSellerId));
+    }
+
+    const rows = await db
+      .select({ item: items, ...userRatingColumns(items.sellerId) })
+      .from(items)
+      .where(and(...conditions))
+      .orderBy(desc(score), desc(items.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.item, sellerRating: toSellerRating(row) }));
+  }
+
   // ---------- Wishlist Methods ----------
   async getWishlistByUser(
     userId: string
@@ -431,6 +1155,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(messages.createdAt)) as any;
   }
 
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message || undefined;
+  }
+
   async createMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db.insert(messages).values(message).returning();
     return newMessage;
@@ -667,32 +1396,1082 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
-  // ---------- Admin Methods ----------
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+  // ---------- Saved Search Methods ----------
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt));
   }
 
-  async getUserStats(): Promise<{
-    totalUsers: number;
-    activeItems: number;
-    totalMessages: number;
-    totalLostFoundItems: number;
-    totalClaims: number;
-  }> {
-    const [userCount] = await db.select({ count: sql`count(*)` }).from(users);
-    const [itemCount] = await db
-      .select({ count: sql`count(*)` })
-      .from(items)
-      .where(eq(items.status, "active"));
-    const [messageCount] = await db
-      .select({ count: sql`count(*)` })
-      .from(messages);
-    const [lostFoundCount] = await db
-      .select({ count: sql`count(*)` })
-      .from(lostFoundItems);
-    const [claimsCount] = await db
-      .select({ count: sql`count(*)` })
-      .from(lostFoundClaims);
+  async createSavedSearch(savedSearch: InsertSavedSearch & { userId: string }): Promise<SavedSearch> {
+    const [newSavedSearch] = await db.insert(savedSearches).values(savedSearch).returning();
+    return newSavedSearch;
+  }
+
+  async deleteSavedSearch(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getSavedSearchMatches(itemId: string): Promise<(SavedSearch & { user: User })[]> {
+    // Evaluate every saved filter against the single new listing in one query
+    const rows = await db
+      .select({ savedSearch: savedSearches, user: users })
+      .from(savedSearches)
+      .innerJoin(users, eq(savedSearches.userId, users.id))
+      .innerJoin(items, eq(items.id, itemId))
+      .where(
+        and(
+          sql`${savedSearches.userId} <> ${items.sellerId}`,
+          or(isNull(savedSearches.category), eq(savedSearches.category, items.category)),
+          or(isNull(savedSearches.location), eq(savedSearches.location, items.location)),
+          or(isNull(savedSearches.minPrice), gte(items.price, savedSearches.minPrice)),
+          or(isNull(savedSearches.maxPrice), lte(items.price, savedSearches.maxPrice)),
+          or(isNull(savedSearches.search), itemSearchMatch(sql`${savedSearches.search}`))
+        )
+      );
+
+    return rows.map((row) => ({ ...row.savedSearch, user: row.user }));
+  }
+
+  // ---------- Wanted Post Methods ----------
+  async getWantedPosts(filters?: WantedPostFilters): Promise<WantedPostWithDetails[]> {
+    const conditions: SQL[] = [eq(wantedPosts.status, "open"), eq(users.isSuspended, false)];
+    if (filters?.category) {
+      conditions.push(eq(wantedPosts.category, filters.category as any));
+    }
+    if (filters?.location) {
+      // Posts without a preference are happy to meet anywhere
+      conditions.push(or(isNull(wantedPosts.preferredLocation), eq(wantedPosts.preferredLocation, filters.location as any))!);
+    }
+    const searchTerm = filters?.search?.trim();
+    if (searchTerm) {
+      conditions.push(or(
+        ilike(wantedPosts.title, `%${searchTerm}%`),
+        sql`${searchTerm} <% ${wantedPosts.title}`
+      )!);
+    }
+    return selectWantedPostsWithDetails(and(...conditions), 100);
+  }
+
+  async getWantedPostsByUser(userId: string): Promise<WantedPostWithDetails[]> {
+    return selectWantedPostsWithDetails(eq(wantedPosts.userId, userId), 50);
+  }
+
+  async getWantedPost(id: string): Promise<WantedPost | undefined> {
+    const [post] = await db.select().from(wantedPosts).where(eq(wantedPosts.id, id));
+    return post || undefined;
+  }
+
+  async countOpenWantedPosts(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(wantedPosts)
+      .where(and(eq(wantedPosts.userId, userId), eq(wantedPosts.status, "open")));
+    return row.count;
+  }
+
+  async createWantedPost(post: InsertWantedPost & { userId: string }): Promise<WantedPost> {
+    const [newPost] = await db.insert(wantedPosts).values(post).returning();
+    return newPost;
+  }
+
+  async updateWantedPostStatus(id: string, userId: string, status: WantedPost["status"]): Promise<WantedPost | undefined> {
+    const [post] = await db
+      .update(wantedPosts)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(wantedPosts.id, id), eq(wantedPosts.userId, userId)))
+      .returning();
+    return post || undefined;
+  }
+
+  async deleteWantedPost(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(wantedPosts)
+      .where(and(eq(wantedPosts.id, id), eq(wantedPosts.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getWantedPostResponses(wantedPostId: string): Promise<(WantedPostResponse & { item: Item; seller: ItemSeller })[]> {
+    const rows = await db
+      .select({ response: wantedPostResponses, item: items, seller: publicUserColumns(users) })
+      .from(wantedPostResponses)
+      .innerJoin(items, eq(wantedPostResponses.itemId, items.id))
+      .innerJoin(users, eq(wantedPostResponses.sellerId, users.id))
+      .where(eq(wantedPostResponses.wantedPostId, wantedPostId))
+      .orderBy(desc(wantedPostResponses.createdAt));
+
+    return rows.map((row) => ({ ...row.response, item: row.item, seller: row.seller }));
+  }
+
+  async hasWantedPostResponse(wantedPostId: string, itemId: string): Promise<boolean> {
+    const [response] = await db
+      .select({ id: wantedPostResponses.id })
+      .from(wantedPostResponses)
+      .where(and(eq(wantedPostResponses.wantedPostId, wantedPostId), eq(wantedPostResponses.itemId, itemId)));
+    return !!response;
+  }
+
+  async createWantedPostResponse(
+    response: InsertWantedPostResponse & { wantedPostId: string; sellerId: string }
+  ): Promise<WantedPostResponse> {
+    const [newResponse] = await db.insert(wantedPostResponses).values(response).returning();
+    return newResponse;
+  }
+
+  async getWantedPostMatches(itemId: string): Promise<(WantedPost & { user: User })[]> {
+    // Same idea as saved searches: the post title is the search term, and the budget caps the price
+    const rows = await db
+      .select({ wantedPost: wantedPosts, user: users })
+      .from(wantedPosts)
+      .innerJoin(users, eq(wantedPosts.userId, users.id))
+      .innerJoin(items, eq(items.id, itemId))
+      .where(
+        and(
+          eq(wantedPosts.status, "open"),
+          sql`${wantedPosts.userId} <> ${items.sellerId}`,
+          eq(wantedPosts.category, items.category),
+          or(isNull(wantedPosts.maxBudget), lte(items.price, wantedPosts.maxBudget)),
+          itemSearchMatch(sql`${wantedPosts.title}`)
+        )
+      );
+
+    return rows.map((row) => ({ ...row.wantedPost, user: row.user }));
+  }
+
+  // ---------- Giveaway Methods ----------
+  async getGiveawayQueue(itemId: string): Promise<GiveawayClaimWithUser[]> {
+    const rows = await db
+      .select({ claim: giveawayClaims, user: publicUserColumns(users) })
+      .from(giveawayClaims)
+      .innerJoin(users, eq(giveawayClaims.userId, users.id))
+      .where(and(eq(giveawayClaims.itemId, itemId), inArray(giveawayClaims.status, ["waiting", "offered"])))
+      .orderBy(asc(giveawayClaims.createdAt));
+
+    return rows.map((row) => ({ ...row.claim, user: row.user }));
+  }
+
+  async getGiveawayClaim(id: string): Promise<GiveawayClaim | undefined> {
+    const [claim] = await db.select().from(giveawayClaims).where(eq(giveawayClaims.id, id));
+    return claim || undefined;
+  }
+
+  async getGiveawayClaimForUser(itemId: string, userId: string): Promise<GiveawayClaim | undefined> {
+    const [claim] = await db
+      .select()
+      .from(giveawayClaims)
+      .where(and(eq(giveawayClaims.itemId, itemId), eq(giveawayClaims.userId, userId)));
+    return claim || undefined;
+  }
+
+  // undefined if the user already has (or had) a place in this queue
+  async joinGiveawayQueue(itemId: string, userId: string): Promise<GiveawayClaim | undefined> {
+    const [claim] = await db
+      .insert(giveawayClaims)
+      .values({ itemId, userId })
+      .onConflictDoNothing()
+      .returning();
+    return claim || undefined;
+  }
+
+  async leaveGiveawayQueue(itemId: string, userId: string): Promise<GiveawayClaim | undefined> {
+    const [claim] = await db
+      .delete(giveawayClaims)
+      .where(and(
+        eq(giveawayClaims.itemId, itemId),
+        eq(giveawayClaims.userId, userId),
+        inArray(giveawayClaims.status, ["waiting", "offered"])
+      ))
+      .returning();
+    return claim || undefined;
+  }
+
+  // Only a waiting claim on a live giveaway, with nobody else currently offered it, can be offered the item
+  async offerGiveaway(claimId: string): Promise<GiveawayClaim | undefined> {
+    const otherClaims = alias(giveawayClaims, "other_claims");
+    const [claim] = await db
+      .update(giveawayClaims)
+      .set({
+        status: "offered",
+        offerExpiresAt: new Date(Date.now() + GIVEAWAY_OFFER_HOURS * 60 * 60 * 1000),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(giveawayClaims.id, claimId),
+        eq(giveawayClaims.status, "waiting"),
+        notExists(
+          db.select({ id: otherClaims.id })
+            .from(otherClaims)
+            .where(and(eq(otherClaims.itemId, giveawayClaims.itemId), eq(otherClaims.status, "offered")))
+        ),
+        sql`exists (select 1 from ${items} where ${items.id} = ${giveawayClaims.itemId} and ${items.status} = 'active' and ${items.isGiveaway})`
+      ))
+      .returning();
+    return claim || undefined;
+  }
+
+  async offerGiveawayToNext(itemId: string): Promise<GiveawayClaim | undefined> {
+    const [next] = await db
+      .select({ id: giveawayClaims.id })
+      .from(giveawayClaims)
+      .where(and(eq(giveawayClaims.itemId, itemId), eq(giveawayClaims.status, "waiting")))
+      .orderBy(asc(giveawayClaims.createdAt))
+      .limit(1);
+    return next ? this.offerGiveaway(next.id) : undefined;
+  }
+
+  async acceptGiveawayOffer(claimId: string): Promise<{ claim: GiveawayClaim; reservation: Reservation } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so the expiry sweep or a pass can't move the queue on while this accept commits
+      const [offered] = await tx.select().from(giveawayClaims).where(eq(giveawayClaims.id, claimId)).for("update");
+      if (!offered || offered.status !== "offered" || !offered.offerExpiresAt || offered.offerExpiresAt <= new Date()) {
+        return undefined;
+      }
+
+      // From here the handoff works like any other reservation
+      const reservation = await reserveItemInTransaction(tx, offered.itemId, offered.userId);
+      if (!reservation) {
+        return undefined;
+      }
+
+      const [claim] = await tx
+        .update(giveawayClaims)
+        .set({ status: "accepted", offerExpiresAt: null, updatedAt: new Date() })
+        .where(eq(giveawayClaims.id, claimId))
+        .returning();
+      return { claim, reservation };
+    });
+  }
+
+  async passGiveawayOffer(claimId: string, status: "declined" | "expired"): Promise<GiveawayClaim | undefined> {
+    const [claim] = await db
+      .update(giveawayClaims)
+      .set({ status, offerExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(giveawayClaims.id, claimId), eq(giveawayClaims.status, "offered")))
+      .returning();
+    return claim || undefined;
+  }
+
+  async getExpiredGiveawayOffers(): Promise<GiveawayClaim[]> {
+    return await db
+      .select()
+      .from(giveawayClaims)
+      .where(and(eq(giveawayClaims.status, "offered"), lte(giveawayClaims.offerExpiresAt, new Date())));
+  }
+
+  // ---------- Auction Methods ----------
+  async getBids(itemId: string, limit: number): Promise<BidWithBidder[]> {
+    const rows = await db
+      .select({ bid: bids, bidder: publicUserColumns(users) })
+      .from(bids)
+      .innerJoin(users, eq(bids.bidderId, users.id))
+      .where(eq(bids.itemId, itemId))
+      .orderBy(desc(bids.amount))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.bid, bidder: row.bidder }));
+  }
+
+  async getHighestBid(itemId: string): Promise<Bid | undefined> {
+    // Ties can't happen through placeBid, but the earlier bid wins if they do
+    const [bid] = await db
+      .select()
+      .from(bids)
+      .where(eq(bids.itemId, itemId))
+      .orderBy(desc(bids.amount), asc(bids.createdAt))
+      .limit(1);
+    return bid || undefined;
+  }
+
+  async countBids(itemId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(bids)
+      .where(eq(bids.itemId, itemId));
+    return row.count;
+  }
+
+  async placeBid(itemId: string, bidderId: string, amount: number): Promise<{ bid: Bid; outbid?: Bid } | { error: string }> {
+    return await db.transaction(async (tx) => {
+      // Lock the listing so concurrent bids are checked against each other one at a time
+      const [item] = await tx.select().from(items).where(eq(items.id, itemId)).for("update");
+      if (!item || !item.isAuction || item.isDraft || item.status !== "active") {
+        return { error: "This item isn't open for bidding" };
+      }
+      if (!item.auctionEndsAt || item.auctionEndsAt <= new Date()) {
+        return { error: "This auction has ended" };
+      }
+      if (item.sellerId === bidderId) {
+        return { error: "You cannot bid on your own item" };
+      }
+
+      const [highest] = await tx
+        .select()
+        .from(bids)
+        .where(eq(bids.itemId, itemId))
+        .orderBy(desc(bids.amount), asc(bids.createdAt))
+        .limit(1);
+      if (highest?.bidderId === bidderId) {
+        return { error: "You're already the highest bidder" };
+      }
+      const minimum = nextMinimumBid(item, highest?.amount ?? null);
+      if (amount < minimum) {
+        return { error: `Bid at least ₹${minimum.toLocaleString()}` };
+      }
+
+      const [bid] = await tx.insert(bids).values({ itemId, bidderId, amount }).returning();
+      return { bid, outbid: highest };
+    });
+  }
+
+  async getEndedAuctions(): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(and(
+        eq(items.isAuction, true),
+        eq(items.isDraft, false),
+        eq(items.status, "active"),
+        lte(items.auctionEndsAt, new Date())
+      ));
+  }
+
+  // The winner gets a normal reservation at their bid; with no bids the item stays listed at its start price
+  async closeAuction(itemId: string): Promise<{ item: Item; winningBid?: Bid } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [ended] = await tx
+        .select()
+        .from(items)
+        .where(and(
+          eq(items.id, itemId),
+          eq(items.isAuction, true),
+          eq(items.status, "active"),
+          lte(items.auctionEndsAt, new Date())
+        ))
+        .for("update");
+      if (!ended) {
+        return undefined;
+      }
+
+      const [winningBid] = await tx
+        .select()
+        .from(bids)
+        .where(eq(bids.itemId, itemId))
+        .orderBy(desc(bids.amount), asc(bids.createdAt))
+        .limit(1);
+
+      await tx
+        .update(items)
+        .set({ isAuction: false, ...(winningBid && { price: winningBid.amount }), updatedAt: new Date() })
+        .where(eq(items.id, itemId));
+      if (winningBid) {
+        await reserveItemInTransaction(tx, itemId, winningBid.bidderId);
+      }
+
+      const [item] = await tx.select().from(items).where(eq(items.id, itemId));
+      return { item, winningBid };
+    });
+  }
+
+  // ---------- Notification Methods ----------
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(50);
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async markNotificationAsRead(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async markAllNotificationsAsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+  }
+
+  // ---------- Offer Methods ----------
+  async getOffer(id: string): Promise<Offer | undefined> {
+    const [offer] = await db.select().from(offers).where(eq(offers.id, id));
+    return offer || undefined;
+  }
+
+  async getOffers(userId: string, itemId?: string): Promise<OfferWithDetails[]> {
+    const buyers = alias(users, "buyer");
+    const sellers = alias(users, "seller");
+
+    // Offers the user made, or received on their own listings
+    const conditions = [or(eq(offers.buyerId, userId), eq(items.sellerId, userId))];
+
+    if (itemId) {
+      conditions.push(eq(offers.itemId, itemId));
+    }
+
+    const rows = await db
+      .select({
+        offer: offers,
+        item: items,
+        buyer: publicUserColumns(buyers),
+        seller: publicUserColumns(sellers),
+      })
+      .from(offers)
+      .innerJoin(items, eq(offers.itemId, items.id))
+      .innerJoin(buyers, eq(offers.buyerId, buyers.id))
+      .innerJoin(sellers, eq(items.sellerId, sellers.id))
+      .where(and(...conditions))
+      .orderBy(asc(offers.createdAt));
+
+    return rows.map((row) => ({ ...row.offer, item: row.item, buyer: row.buyer, seller: row.seller }));
+  }
+
+  async getPendingOffer(itemId: string, buyerId: string): Promise<Offer | undefined> {
+    const [offer] = await db
+      .select()
+      .from(offers)
+      .where(and(eq(offers.itemId, itemId), eq(offers.buyerId, buyerId), eq(offers.status, "pending")));
+    return offer || undefined;
+  }
+
+  async createOffer(offer: InsertOffer & { itemId: string; buyerId: string; senderId: string }): Promise<Offer> {
+    const [newOffer] = await db.insert(offers).values(offer).returning();
+    return newOffer;
+  }
+
+  async counterOffer(id: string, counter: InsertOffer & { senderId: string }): Promise<Offer | undefined> {
+    return await db.transaction(async (tx) => {
+      // Close the offer being countered; bail out if someone else already responded
+      const [previous] = await tx
+        .update(offers)
+        .set({ status: "countered", updatedAt: new Date() })
+        .where(and(eq(offers.id, id), eq(offers.status, "pending")))
+        .returning();
+      if (!previous) {
+        return undefined;
+      }
+
+      const [newOffer] = await tx
+        .insert(offers)
+        .values({
+          ...counter,
+          itemId: previous.itemId,
+          buyerId: previous.buyerId,
+        })
+        .returning();
+      return newOffer;
+    });
+  }
+
+  async closeOffer(id: string, status: "declined" | "withdrawn"): Promise<Offer | undefined> {
+    const [offer] = await db
+      .update(offers)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(offers.id, id), eq(offers.status, "pending")))
+      .returning();
+    return offer || undefined;
+  }
+
+  async acceptOffer(id: string): Promise<{ offer: Offer; declinedOffers: Offer[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so a withdraw or decline can't commit between this check and the accept below
+      const [offer] = await tx.select().from(offers).where(eq(offers.id, id)).for("update");
+      if (!offer || offer.status !== "pending") {
+        return undefined;
+      }
+
+      // Reserve the item for this buyer, only if nobody else got there first
+      const reservation = await reserveItemInTransaction(tx, offer.itemId, offer.buyerId);
+      if (!reservation) {
+        return undefined;
+      }
+
+      const [accepted] = await tx
+        .update(offers)
+        .set({ status: "accepted", updatedAt: new Date() })
+        .where(eq(offers.id, id))
+        .returning();
+
+      // Decline every other open offer on the item
+      const declinedOffers = await tx
+        .update(offers)
+        .set({ status: "declined", updatedAt: new Date() })
+        .where(
+          and(
+            eq(offers.itemId, offer.itemId),
+            eq(offers.status, "pending"),
+            ne(offers.id, id)
+          )
+        )
+        .returning();
+
+      return { offer: accepted, declinedOffers };
+    });
+  }
+
+  // ---------- Swap Proposal Methods ----------
+  async getSwapProposal(id: string): Promise<SwapProposal | undefined> {
+    const [proposal] = await db.select().from(swapProposals).where(eq(swapProposals.id, id));
+    return proposal || undefined;
+  }
+
+  async getSwapProposals(userId: string): Promise<SwapProposalWithDetails[]> {
+    const proposers = alias(users, "proposer");
+    const sellers = alias(users, "seller");
+
+    // Proposals the user sent, or received on their own listings
+    const rows = await db
+      .select({
+        proposal: swapProposals,
+        item: items,
+        proposer: publicUserColumns(proposers),
+        seller: publicUserColumns(sellers),
+      })
+      .from(swapProposals)
+      .innerJoin(items, eq(swapProposals.itemId, items.id))
+      .innerJoin(proposers, eq(swapProposals.proposerId, proposers.id))
+      .innerJoin(sellers, eq(items.sellerId, sellers.id))
+      .where(or(eq(swapProposals.proposerId, userId), eq(items.sellerId, userId)))
+      .orderBy(desc(swapProposals.createdAt));
+
+    if (rows.length === 0) return [];
+
+    const offeredRows = await db
+      .select({ proposalId: swapProposalItems.proposalId, item: items })
+      .from(swapProposalItems)
+      .innerJoin(items, eq(swapProposalItems.itemId, items.id))
+      .where(inArray(swapProposalItems.proposalId, rows.map((row) => row.proposal.id)));
+
+    return rows.map((row) => ({
+      ...row.proposal,
+      item: row.item,
+      offeredItems: offeredRows
+        .filter((offered) => offered.proposalId === row.proposal.id)
+        .map((offered) => offered.item),
+      proposer: row.proposer,
+      seller: row.seller,
+    }));
+  }
+
+  async getPendingSwapProposal(itemId: string, proposerId: string): Promise<SwapProposal | undefined> {
+    const [proposal] = await db
+      .select()
+      .from(swapProposals)
+      .where(and(
+        eq(swapProposals.itemId, itemId),
+        eq(swapProposals.proposerId, proposerId),
+        eq(swapProposals.status, "pending")
+      ));
+    return proposal || undefined;
+  }
+
+  async createSwapProposal(proposal: InsertSwapProposal & { itemId: string; proposerId: string }): Promise<SwapProposal> {
+    const { offeredItemIds, ...proposalData } = proposal;
+
+    return await db.transaction(async (tx) => {
+      const [newProposal] = await tx.insert(swapProposals).values(proposalData).returning();
+      await tx.insert(swapProposalItems).values(
+        offeredItemIds.map((itemId) => ({ proposalId: newProposal.id, itemId }))
+      );
+      return newProposal;
+    });
+  }
+
+  async closeSwapProposal(id: string, status: "rejected" | "withdrawn"): Promise<SwapProposal | undefined> {
+    const [proposal] = await db
+      .update(swapProposals)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(swapProposals.id, id), eq(swapProposals.status, "pending")))
+      .returning();
+    return proposal || undefined;
+  }
+
+  async acceptSwapProposal(id: string): Promise<{ proposal: SwapProposal; rejectedProposals: SwapProposal[] } | undefined> {
+    try {
+      return await this.acceptSwapProposalInTransaction(id);
+    } catch (error) {
+      // Thrown by tx.rollback() when an item was sold or reserved from under the swap
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async acceptSwapProposalInTransaction(id: string): Promise<{ proposal: SwapProposal; rejectedProposals: SwapProposal[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so a withdraw or reject can't commit while this accept goes through
+      const [proposal] = await tx.select().from(swapProposals).where(eq(swapProposals.id, id)).for("update");
+      if (!proposal || proposal.status !== "pending") {
+        return undefined;
+      }
+
+      const offered = await tx
+        .select({ itemId: swapProposalItems.itemId })
+        .from(swapProposalItems)
+        .where(eq(swapProposalItems.proposalId, id));
+      const swappedItemIds = [proposal.itemId, ...offered.map((row) => row.itemId)];
+
+      // Every item on both sides must still be available; the locks keep reservations,
+      // offer accepts and other swaps off them until this commits
+      const swapped = await tx
+        .select()
+        .from(items)
+        .where(inArray(items.id, swappedItemIds))
+        .for("update");
+      if (swapped.length !== swappedItemIds.length || swapped.some((item) => item.status !== "active")) {
+        return undefined;
+      }
+
+      // Each side becomes the buyer of the other's items
+      const target = swapped.find((item) => item.id === proposal.itemId)!;
+      const soldTarget = await tx
+        .update(items)
+        .set({ status: "sold", buyerId: proposal.proposerId, soldAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(items.id, proposal.itemId), eq(items.status, "active")))
+        .returning({ id: items.id });
+      const soldOffered = await tx
+        .update(items)
+        .set({ status: "sold", buyerId: target.sellerId, soldAt: new Date(), updatedAt: new Date() })
+        .where(and(inArray(items.id, offered.map((row) => row.itemId)), eq(items.status, "active")))
+        .returning({ id: items.id });
+      if (soldTarget.length + soldOffered.length !== swappedItemIds.length) {
+        tx.rollback();
+      }
+
+      const [accepted] = await tx
+        .update(swapProposals)
+        .set({ status: "accepted", updatedAt: new Date() })
+        .where(eq(swapProposals.id, id))
+        .returning();
+
+      // Other proposals for the same item can no longer go through
+      const rejectedProposals = await tx
+        .update(swapProposals)
+        .set({ status: "rejected", updatedAt: new Date() })
+        .where(
+          and(
+            eq(swapProposals.itemId, proposal.itemId),
+            eq(swapProposals.status, "pending"),
+            ne(swapProposals.id, id)
+          )
+        )
+        .returning();
+
+      // Nor can open price offers on anything that just changed hands
+      await tx
+        .update(offers)
+        .set({ status: "declined", updatedAt: new Date() })
+        .where(and(inArray(offers.itemId, swappedItemIds), eq(offers.status, "pending")));
+
+      return { proposal: accepted, rejectedProposals };
+    });
+  }
+
+  // ---------- Reservation Methods ----------
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    const [reservation] = await db.select().from(reservations).where(eq(reservations.id, id));
+    return reservation || undefined;
+  }
+
+  async getReservations(userId: string): Promise<ReservationWithDetails[]> {
+    const buyers = alias(users, "buyer");
+    const sellers = alias(users, "seller");
+
+    const rows = await db
+      .select({
+        reservation: reservations,
+        item: items,
+        buyer: publicUserColumns(buyers),
+        seller: publicUserColumns(sellers),
+      })
+      .from(reservations)
+      .innerJoin(items, eq(reservations.itemId, items.id))
+      .innerJoin(buyers, eq(reservations.buyerId, buyers.id))
+      .innerJoin(sellers, eq(items.sellerId, sellers.id))
+      .where(and(
+        eq(reservations.status, "active"),
+        or(eq(reservations.buyerId, userId), eq(items.sellerId, userId))
+      ))
+      .orderBy(asc(reservations.expiresAt));
+
+    // Only the seller may see the code, otherwise the buyer could confirm without meeting up
+    return rows.map(({ reservation: { handoffCode, ...reservation }, item, buyer, seller }) => ({
+      ...reservation,
+      handoffCode: item.sellerId === userId ? handoffCode : undefined,
+      item,
+      buyer,
+      seller,
+    }));
+  }
+
+  async reserveItem(itemId: string, buyerId: string): Promise<Reservation | undefined> {
+    return await db.transaction(async (tx) => reserveItemInTransaction(tx, itemId, buyerId));
+  }
+
+  async releaseReservation(id: string, status: "released" | "expired"): Promise<Reservation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reservation] = await tx
+        .update(reservations)
+        .set({ status, updatedAt: new Date() })
+        .where(and(eq(reservations.id, id), eq(reservations.status, "active")))
+        .returning();
+      if (!reservation) {
+        return undefined;
+      }
+
+      // Back on the market
+      await tx
+        .update(items)
+        .set({ status: "active", reservedFor: null, updatedAt: new Date() })
+        .where(and(eq(items.id, reservation.itemId), eq(items.status, "reserved")));
+
+      return reservation;
+    });
+  }
+
+  // Counts the attempt before the code is checked, so concurrent guesses can't get past maxAttempts.
+  // Returns undefined once the limit is used up.
+  async recordHandoffAttempt(id: string, maxAttempts: number): Promise<number | undefined> {
+    const [reservation] = await db
+      .update(reservations)
+      .set({ failedAttempts: sql`${reservations.failedAttempts} + 1`, updatedAt: new Date() })
+      .where(and(eq(reservations.id, id), lt(reservations.failedAttempts, maxAttempts)))
+      .returning();
+    return reservation?.failedAttempts;
+  }
+
+  async completeHandoff(id: string): Promise<Item | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reservation] = await tx
+        .update(reservations)
+        .set({ status: "completed", updatedAt: new Date() })
+        .where(and(eq(reservations.id, id), eq(reservations.status, "active")))
+        .returning();
+      if (!reservation) {
+        return undefined;
+      }
+
+      const [item] = await tx
+        .update(items)
+        .set({
+          status: "sold",
+          buyerId: reservation.buyerId,
+          soldAt: new Date(),
+          reservedFor: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(items.id, reservation.itemId))
+        .returning();
+      return item;
+    });
+  }
+
+  async getExpiredReservations(): Promise<Reservation[]> {
+    return await db
+      .select()
+      .from(reservations)
+      .where(and(eq(reservations.status, "active"), lte(reservations.expiresAt, new Date())));
+  }
+
+  async getPurchases(userId: string): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(eq(items.buyerId, userId))
+      .orderBy(desc(items.soldAt));
+  }
+
+  async getSellerListings(sellerId: string, limit: number): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(and(eq(items.sellerId, sellerId), ...listedItemConditions()))
+      .orderBy(desc(items.createdAt))
+      .limit(limit);
+  }
+
+  async getRecentlySoldItems(sellerId: string, limit: number): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(and(
+        eq(items.sellerId, sellerId),
+        eq(items.status, "sold"),
+        sql`${items.soldAt} > now() - make_interval(days => ${RECENTLY_SOLD_DAYS})`
+      ))
+      .orderBy(desc(items.soldAt))
+      .limit(limit);
+  }
+
+  // ---------- Review Methods ----------
+  async getReview(id: string): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review || undefined;
+  }
+
+  async getUserRating(userId: string): Promise<SellerRating> {
+    const [row] = await db
+      .select({
+        ratingAverage: sql<number | null>`avg(${reviews.rating})::float`,
+        ratingCount: sql<number>`count(*)`,
+      })
+      .from(reviews)
+      .where(eq(reviews.revieweeId, userId));
+    return toSellerRating(row);
+  }
+
+  async getReviewsForUser(userId: string): Promise<ReviewWithDetails[]> {
+    return selectReviewsWithDetails(eq(reviews.revieweeId, userId), 50);
+  }
+
+  async getAllReviews(): Promise<ReviewWithDetails[]> {
+    return selectReviewsWithDetails(undefined, 100);
+  }
+
+  async hasReviewed(itemId: string, reviewerId: string): Promise<boolean> {
+    const [review] = await db
+      .select({ id: reviews.id })
+      .from(reviews)
+      .where(and(eq(reviews.itemId, itemId), eq(reviews.reviewerId, reviewerId)));
+    return !!review;
+  }
+
+  async getItemsAwaitingReview(userId: string): Promise<Item[]> {
+    // Completed sales the user took part in (either side) that they haven't reviewed yet
+    return await db
+      .select()
+      .from(items)
+      .where(and(
+        eq(items.status, "sold"),
+        isNotNull(items.buyerId),
+        or(eq(items.sellerId, userId), eq(items.buyerId, userId)),
+        notExists(
+          db.select({ id: reviews.id })
+            .from(reviews)
+            .where(and(eq(reviews.itemId, items.id), eq(reviews.reviewerId, userId)))
+        )
+      ))
+      .orderBy(desc(items.soldAt));
+  }
+
+  async createReview(review: InsertReview & { itemId: string; reviewerId: string; revieweeId: string }): Promise<Review> {
+    const [newReview] = await db.insert(reviews).values(review).returning();
+    return newReview;
+  }
+
+  async deleteReview(id: string): Promise<boolean> {
+    const result = await db.delete(reviews).where(eq(reviews.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ---------- Report Methods ----------
+  async getReport(id: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    return report || undefined;
+  }
+
+  async getReports(status: "pending" | "closed"): Promise<ReportWithDetails[]> {
+    const reporters = alias(users, "reporter");
+    const reportedUsers = alias(users, "reported_user");
+
+    const rows = await db
+      .select({
+        report: reports,
+        reporter: publicUserColumns(reporters),
+        reportedUser: {
+          ...publicUserColumns(reportedUsers),
+          email: reportedUsers.email,
+          isSuspended: reportedUsers.isSuspended,
+          warningCount: reportedUsers.warningCount,
+        },
+        item: { id: items.id, title: items.title, status: items.status },
+        message: { id: messages.id, content: messages.content, createdAt: messages.createdAt },
+      })
+      .from(reports)
+      .innerJoin(reporters, eq(reports.reporterId, reporters.id))
+      .innerJoin(reportedUsers, eq(reports.reportedUserId, reportedUsers.id))
+      .leftJoin(items, eq(reports.itemId, items.id))
+      .leftJoin(messages, eq(reports.messageId, messages.id))
+      .where(status === "pending" ? eq(reports.status, "pending") : ne(reports.status, "pending"))
+      // Oldest first for the queue, most recently resolved first for the history
+      .orderBy(status === "pending" ? asc(reports.createdAt) : desc(reports.resolvedAt))
+      .limit(100);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const decisions = await db
+      .select()
+      .from(moderationDecisions)
+      .where(inArray(moderationDecisions.reportId, rows.map((row) => row.report.id)))
+      .orderBy(asc(moderationDecisions.createdAt));
+
+    return rows.map((row) => ({
+      ...row.report,
+      reporter: row.reporter,
+      reportedUser: row.reportedUser,
+      item: row.item,
+      message: row.message,
+      decisions: decisions.filter((decision) => decision.reportId === row.report.id),
+    }));
+  }
+
+  async hasPendingReport(reporterId: string, targetType: Report["targetType"], targetId: string): Promise<boolean> {
+    const targetColumn = targetType === "item" ? reports.itemId
+      : targetType === "message" ? reports.messageId
+      : reports.reportedUserId;
+
+    const [report] = await db
+      .select({ id: reports.id })
+      .from(reports)
+      .where(and(
+        eq(reports.reporterId, reporterId),
+        eq(reports.targetType, targetType),
+        eq(targetColumn, targetId),
+        eq(reports.status, "pending")
+      ));
+    return !!report;
+  }
+
+  async createReport(report: Omit<InsertReport, "targetId"> & { reporterId: string; reportedUserId: string; itemId?: string; messageId?: string }): Promise<Report> {
+    const [newReport] = await db.insert(reports).values(report).returning();
+    return newReport;
+  }
+
+  async decideReport(id: string, adminId: string, decision: InsertModerationDecision): Promise<{ report: Report; decision: ModerationDecision } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [report] = await tx
+        .update(reports)
+        .set({ status: decision.action === "dismiss" ? "dismissed" : "actioned", resolvedAt: new Date() })
+        .where(and(eq(reports.id, id), eq(reports.status, "pending")))
+        .returning();
+      if (!report) {
+        return undefined;
+      }
+
+      if (decision.action === "hide_listing" && report.itemId) {
+        // A hidden listing can't stay on hold for a buyer, and its auction is cancelled rather than won
+        await tx
+          .update(reservations)
+          .set({ status: "released", updatedAt: new Date() })
+          .where(and(eq(reservations.itemId, report.itemId), eq(reservations.status, "active")));
+        await tx
+          .update(items)
+          .set({ status: "hidden", reservedFor: null, isAuction: false, updatedAt: new Date() })
+          .where(eq(items.id, report.itemId));
+      } else if (decision.action === "warn") {
+        await tx
+          .update(users)
+          .set({ warningCount: sql`${users.warningCount} + 1` })
+          .where(eq(users.id, report.reportedUserId));
+      } else if (decision.action === "suspend") {
+        await tx
+          .update(users)
+          .set({ isSuspended: true })
+          .where(eq(users.id, report.reportedUserId));
+      }
+
+      const [newDecision] = await tx
+        .insert(moderationDecisions)
+        .values({ ...decision, reportId: id, adminId })
+        .returning();
+
+      return { report, decision: newDecision };
+    });
+  }
+
+  // ---------- Location Methods ----------
+  // Inactive locations are included so older listings can still show their name
+  async getLocations(): Promise<Location[]> {
+    return await db.select().from(locations).orderBy(asc(locations.displayOrder), asc(locations.name));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location || undefined;
+  }
+
+  async createLocation(location: InsertLocation & { id: string }): Promise<Location> {
+    const [newLocation] = await db.insert(locations).values(location).returning();
+    return newLocation;
+  }
+
+  async updateLocation(id: string, updates: Partial<InsertLocation>): Promise<Location | undefined> {
+    const [location] = await db
+      .update(locations)
+      .set(updates)
+      .where(eq(locations.id, id))
+      .returning();
+    return location || undefined;
+  }
+
+  // Everything with a foreign key to the location; these block deleting it
+  async countLocationUses(id: string): Promise<number> {
+    const [row] = await db.select({
+      count: sql<number>`(
+        (select count(*) from ${items} where ${items.location} = ${id})
+        + (select count(*) from ${users} where ${users.hostelBlock} = ${id})
+        + (select count(*) from ${savedSearches} where ${savedSearches.location} = ${id})
+        + (select count(*) from ${wantedPosts} where ${wantedPosts.preferredLocation} = ${id})
+        + (select count(*) from ${lostFoundItems} where ${lostFoundItems.foundLocation} = ${id})
+      )::int`,
+    }).from(locations).where(eq(locations.id, id));
+    return row?.count ?? 0;
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    const result = await db.delete(locations).where(eq(locations.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ---------- Admin Methods ----------
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(desc(users.createdAt));
+  }
+
+  async getUserStats(): Promise<{
+    totalUsers: number;
+    activeItems: number;
+    totalMessages: number;
+    totalLostFoundItems: number;
+    totalClaims: number;
+    pendingReports: number;
+  }> {
+    const [userCount] = await db.select({ count: sql`count(*)` }).from(users);
+    const [itemCount] = await db
+      .select({ count: sql`count(*)` })
+      .from(items)
+      .where(eq(items.status, "active"));
+    const [messageCount] = await db
+      .select({ count: sql`count(*)` })
+      .from(messages);
+    const [lostFoundCount] = await db
+      .select({ count: sql`count(*)` })
+      .from(lostFoundItems);
+    const [claimsCount] = await db
+      .select({ count: sql`count(*)` })
+      .from(lostFoundClaims);
+    const [reportCount] = await db
+      .select({ count: sql`count(*)` })
+      .from(reports)
+      .where(eq(reports.status, "pending"));
 
     return {
       totalUsers: Number(userCount.count),
@@ -700,6 +2479,7 @@ export class DatabaseStorage implements IStorage {
       totalMessages: Number(messageCount.count),
       totalLostFoundItems: Number(lostFoundCount.count),
       totalClaims: Number(claimsCount.count),
+      pendingReports: Number(reportCount.count),
     };
   }
 }
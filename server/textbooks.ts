@@ -0,0 +1,28 @@
+import type { TextbookMetadata } from "@shared/schema";
+
+// Textbooks prescribed in common VIT courses, keyed by ISBN-13; add rows as syllabi change
+const TEXTBOOKS: TextbookMetadata[] = [
+  { isbn: "9780134438986", title: "Thomas' Calculus", author: "Joel Hass, Christopher Heil, Maurice D. Weir", edition: "14th", courseCodes: ["MAT1011"] },
+  { isbn: "9780470458365", title: "Advanced Engineering Mathematics", author: "Erwin Kreyszig", edition: "10th", courseCodes: ["MAT1011", "MAT2002"] },
+  { isbn: "9780321629111", title: "Probability & Statistics for Engineers & Scientists", author: "Ronald E. Walpole, Raymond H. Myers, Sharon L. Myers, Keying Ye", edition: "9th", courseCodes: ["MAT2001"] },
+  { isbn: "9780073383095", title: "Discrete Mathematics and Its Applications", author: "Kenneth H. Rosen", edition: "7th", courseCodes: ["MAT1014"] },
+  { isbn: "9781118230725", title: "Fundamentals of Physics", author: "David Halliday, Robert Resnick, Jearl Walker", edition: "10th", courseCodes: ["PHY1701"] },
+  { isbn: "9780131103627", title: "The C Programming Language", author: "Brian W. Kernighan, Dennis M. Ritchie", edition: "2nd", courseCodes: ["CSE1001"] },
+  { isbn: "9780132774208", title: "Digital Design", author: "M. Morris Mano, Michael D. Ciletti", edition: "5th", courseCodes: ["CSE1003"] },
+  { isbn: "9780262033848", title: "Introduction to Algorithms", author: "Thomas H. Cormen, Charles E. Leiserson, Ronald L. Rivest, Clifford Stein", edition: "3rd", courseCodes: ["CSE2003", "CSE2012"] },
+  { isbn: "9780262046305", title: "Introduction to Algorithms", author: "Thomas H. Cormen, Charles E. Leiserson, Ronald L. Rivest, Clifford Stein", edition: "4th", courseCodes: ["CSE2003", "CSE2012"] },
+  { isbn: "9780321573513", title: "Algorithms", author: "Robert Sedgewick, Kevin Wayne", edition: "4th", courseCodes: ["CSE2003"] },
+  { isbn: "9780073523323", title: "Database System Concepts", author: "Abraham Silberschatz, Henry F. Korth, S. Sudarshan", edition: "6th", courseCodes: ["CSE2004"] },
+  { isbn: "9781118063330", title: "Operating System Concepts", author: "Abraham Silberschatz, Peter B. Galvin, Greg Gagne", edition: "9th", courseCodes: ["CSE2005"] },
+  { isbn: "9780132126953", title: "Computer Networks", author: "Andrew S. Tanenbaum, David J. Wetherall", edition: "5th", courseCodes: ["CSE1004"] },
+  { isbn: "9780133594140", title: "Computer Networking: A Top-Down Approach", author: "James F. Kurose, Keith W. Ross", edition: "7th", courseCodes: ["CSE1004"] },
+  { isbn: "9780136042594", title: "Artificial Intelligence: A Modern Approach", author: "Stuart Russell, Peter Norvig", edition: "3rd", courseCodes: ["CSE3013"] },
+  { isbn: "9780138147570", title: "Signals and Systems", author: "Alan V. Oppenheim, Alan S. Willsky, S. Hamid Nawab", edition: "2nd", courseCodes: ["ECE1004"] },
+];
+
+const textbooksByIsbn = new Map(TEXTBOOKS.map((book) => [book.isbn, book]));
+
+// isbn must already be normalized to ISBN-13
+export function lookupTextbook(isbn: string): TextbookMetadata | undefined {
+  return textbooksByIsbn.get(isbn);
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, pgEnum, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -8,9 +8,30 @@ export const userRoleEnum = pgEnum("user_role", ["student", "admin"]);
 export const authProviderEnum = pgEnum("auth_provider", ["local", "google"]);
 export const itemCategoryEnum = pgEnum("item_category", ["books", "gadgets", "uniforms", "accessories", "sports", "electronics", "stationery", "other"]);
 export const itemConditionEnum = pgEnum("item_condition", ["new", "excellent", "good", "fair"]);
-export const itemStatusEnum = pgEnum("item_status", ["active", "sold", "draft"]);
-export const hostelBlockEnum = pgEnum("hostel_block", ["a-block", "b-block", "c-block", "d-block", "e-block"]);
+export const itemStatusEnum = pgEnum("item_status", ["active", "reserved", "sold", "draft", "hidden", "expired"]);
 export const claimStatusEnum = pgEnum("claim_status", ["pending", "approved", "rejected"]);
+export const notificationTypeEnum = pgEnum("notification_type", ["saved_search_match", "offer_received", "offer_countered", "offer_accepted", "offer_declined", "swap_proposed", "swap_accepted", "swap_rejected", "item_reserved", "reservation_expired", "handoff_completed", "review_received", "account_warning", "listing_hidden", "listing_expiring", "listing_expired", "wanted_post_match", "wanted_post_response", "giveaway_offered", "giveaway_accepted", "giveaway_passed", "auction_outbid", "auction_won", "auction_ended"]);
+export const offerStatusEnum = pgEnum("offer_status", ["pending", "accepted", "declined", "countered", "withdrawn"]);
+export const swapStatusEnum = pgEnum("swap_status", ["pending", "accepted", "rejected", "withdrawn"]);
+export const reservationStatusEnum = pgEnum("reservation_status", ["active", "completed", "released", "expired"]);
+export const reportTargetEnum = pgEnum("report_target", ["item", "user", "message"]);
+export const reportReasonEnum = pgEnum("report_reason", ["spam", "scam", "prohibited_item", "harassment", "inappropriate", "other"]);
+export const reportStatusEnum = pgEnum("report_status", ["pending", "dismissed", "actioned"]);
+export const moderationActionEnum = pgEnum("moderation_action", ["dismiss", "hide_listing", "warn", "suspend"]);
+export const wantedPostStatusEnum = pgEnum("wanted_post_status", ["open", "fulfilled", "closed"]);
+export const giveawayClaimStatusEnum = pgEnum("giveaway_claim_status", ["waiting", "offered", "accepted", "declined", "expired"]);
+
+// Campus spots that listings, profiles and lost-found posts point at, managed from the admin panel.
+// The id is a slug of the name (e.g. "a-block", kept from the old hostel block enum) so URLs and CSV imports stay readable.
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  group: text("group_name").notNull(), // e.g. "Hostels", "Academic blocks"
+  displayOrder: integer("display_order").default(0).notNull(),
+  // Retired locations can't be picked any more but still show on older listings
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -21,7 +42,7 @@ export const users = pgTable("users", {
   registrationNumber: text("registration_number"),
   branch: text("branch"),
   year: text("year"),
-  hostelBlock: hostelBlockEnum("hostel_block"),
+  hostelBlock: varchar("hostel_block").references(() => locations.id),
   phoneNumber: text("phone_number"),
   bio: text("bio"),
   profilePicture: text("profile_picture"), // For Google OAuth profile pictures
@@ -29,6 +50,8 @@ export const users = pgTable("users", {
   googleId: text("google_id"), // Google OAuth ID
   role: userRoleEnum("role").default("student").notNull(),
   isVerified: boolean("is_verified").default(false).notNull(),
+  isSuspended: boolean("is_suspended").default(false).notNull(),
+  warningCount: integer("warning_count").default(0).notNull(),
   emailNotifications: boolean("email_notifications").default(true).notNull(),
   resetToken: text("reset_token"), // For password reset
   resetTokenExpiry: timestamp("reset_token_expiry"), // Reset token expiration
@@ -46,16 +69,47 @@ export const items = pgTable("items", {
   condition: itemConditionEnum("condition"),
   price: integer("price"),
   isExchangeable: boolean("is_exchangeable").default(false).notNull(),
+  // Free items handed out through a first-come queue; with auto-offer on, the next in line is offered the item when an offer lapses
+  isGiveaway: boolean("is_giveaway").default(false).notNull(),
+  giveawayAutoOffer: boolean("giveaway_auto_offer").default(true).notNull(),
+  // Auctions start at price; when one closes it becomes a normal listing at the winning bid, reserved for the winner
+  isAuction: boolean("is_auction").default(false).notNull(),
+  auctionMinIncrement: integer("auction_min_increment"),
+  auctionEndsAt: timestamp("auction_ends_at"),
   status: itemStatusEnum("status").default("active").notNull(),
-  location: hostelBlockEnum("location"),
+  location: varchar("location").references(() => locations.id),
   photos: text("photos").array().default([]),
+  // Book listings only; isbn is stored as the 13 digits without hyphens
+  isbn: text("isbn"),
+  author: text("author"),
+  edition: text("edition"),
+  courseCodes: text("course_codes").array().default([]),
+  // Category-specific details such as a uniform's size; the allowed keys are in CATEGORY_ATTRIBUTES
+  attributes: jsonb("attributes").$type<ItemAttributes>().default({}).notNull(),
   sellerId: varchar("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Buyer whose offer was accepted while the item is reserved
+  reservedFor: varchar("reserved_for").references(() => users.id, { onDelete: "set null" }),
+  // Recorded once the buyer confirms the handoff
+  buyerId: varchar("buyer_id").references(() => users.id, { onDelete: "set null" }),
+  soldAt: timestamp("sold_at"),
+  // Active listings move to "expired" after this unless the seller renews them
+  expiresAt: timestamp("expires_at"),
+  expiryReminderSentAt: timestamp("expiry_reminder_sent_at"),
   views: integer("views").default(0).notNull(),
   // draft flag (snake/camel mapping depends on your code; server/storage uses isDraft)
   isDraft: boolean("is_draft").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Must match itemSearchVector in server/storage.ts so full-text queries can use it
+  index("items_search_idx").using(
+    "gin",
+    sql`(setweight(to_tsvector('english', coalesce(${table.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${table.description}, '')), 'B'))`
+  ),
+  // Typo-tolerant title matching (requires the pg_trgm extension)
+  index("items_title_trgm_idx").using("gin", table.title.op("gin_trgm_ops")),
+  index("items_course_codes_idx").using("gin", table.courseCodes),
+]);
 
 export const wishlist = pgTable("wishlist", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -79,7 +133,9 @@ export const lostFoundItems = pgTable("lost_found_items", {
   title: text("title").notNull(),
   description: text("description").notNull(),
   category: itemCategoryEnum("category").notNull(),
-  foundLocation: text("found_location").notNull(), // Where the item was found
+  // Null only for posts from before locations were configurable that didn't match one
+  foundLocation: varchar("found_location").references(() => locations.id),
+  foundLocationDetails: text("found_location_details"), // e.g. "2nd floor, near the water cooler"
   photos: text("photos").array().default([]),
   postedBy: varchar("posted_by").notNull().references(() => users.id, { onDelete: "cascade" }), // Admin who posted
   isClaimed: boolean("is_claimed").default(false).notNull(),
@@ -112,6 +168,179 @@ export const lostFoundClaims = pgTable("lost_found_claims", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Same filters the browse page sends to GET /api/items; null means "any"
+  search: text("search"),
+  category: itemCategoryEnum("category"),
+  location: varchar("location").references(() => locations.id),
+  minPrice: integer("min_price"),
+  maxPrice: integer("max_price"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: notificationTypeEnum("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // Client route to open, e.g. /items/:id
+  isRead: boolean("is_read").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Each (item, buyer) pair is one negotiation thread; a counter closes the previous offer and adds a new row
+export const offers = pgTable("offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  buyerId: varchar("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  senderId: varchar("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Buyer, or seller when countering
+  amount: integer("amount").notNull(),
+  message: text("message"),
+  status: offerStatusEnum("status").default("pending").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A proposer offers some of their own listings in exchange for an exchangeable item
+export const swapProposals = pgTable("swap_proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  proposerId: varchar("proposer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  message: text("message"),
+  status: swapStatusEnum("status").default("pending").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const swapProposalItems = pgTable("swap_proposal_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").notNull().references(() => swapProposals.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+});
+
+// Hold on an item for one buyer; the seller shows the handoff code at meetup and the buyer enters it
+export const reservations = pgTable("reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  buyerId: varchar("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  handoffCode: text("handoff_code").notNull(),
+  failedAttempts: integer("failed_attempts").default(0).notNull(),
+  status: reservationStatusEnum("status").default("active").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Left by either side of a completed sale about the other; one review per person per sale
+export const reviews = pgTable("reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  reviewerId: varchar("reviewer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  revieweeId: varchar("reviewee_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  rating: integer("rating").notNull(), // 1-5
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("reviews_item_reviewer_idx").on(table.itemId, table.reviewerId),
+  index("reviews_reviewee_idx").on(table.revieweeId),
+]);
+
+// reportedUserId is always set (the seller for item reports, the sender for message reports) so admins can warn or suspend
+export const reports = pgTable("reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reporterId: varchar("reporter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  targetType: reportTargetEnum("target_type").notNull(),
+  reportedUserId: varchar("reported_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").references(() => items.id, { onDelete: "cascade" }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "cascade" }),
+  reason: reportReasonEnum("reason").notNull(),
+  details: text("details"),
+  status: reportStatusEnum("status").default("pending").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  index("reports_status_idx").on(table.status),
+]);
+
+// Audit trail of admin decisions taken on a report
+export const moderationDecisions = pgTable("moderation_decisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().references(() => reports.id, { onDelete: "cascade" }),
+  adminId: varchar("admin_id").references(() => users.id, { onDelete: "set null" }),
+  action: moderationActionEnum("action").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Last time each signed-in user opened an item; feeds "recently viewed" and trending
+export const itemViews = pgTable("item_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  viewedAt: timestamp("viewed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("item_views_user_item_idx").on(table.userId, table.itemId),
+  index("item_views_viewed_at_idx").on(table.viewedAt),
+]);
+
+// A student asking for something nobody has listed yet; new listings that match are sent to the poster
+export const wantedPosts = pgTable("wanted_posts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  category: itemCategoryEnum("category").notNull(),
+  maxBudget: integer("max_budget"), // null means "any price"
+  preferredLocation: varchar("preferred_location").references(() => locations.id),
+  status: wantedPostStatusEnum("status").default("open").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("wanted_posts_status_idx").on(table.status),
+]);
+
+// A seller pointing a wanted post at one of their listings
+export const wantedPostResponses = pgTable("wanted_post_responses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  wantedPostId: varchar("wanted_post_id").notNull().references(() => wantedPosts.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  sellerId: varchar("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("wanted_post_responses_post_item_idx").on(table.wantedPostId, table.itemId),
+]);
+
+export const bids = pgTable("bids", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  bidderId: varchar("bidder_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  amount: integer("amount").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("bids_item_amount_idx").on(table.itemId, table.amount),
+]);
+
+// A place in a giveaway's queue; queue order is join time
+export const giveawayClaims = pgTable("giveaway_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: giveawayClaimStatusEnum("status").default("waiting").notNull(),
+  // Set while the item is offered to this person; they must accept before it passes
+  offerExpiresAt: timestamp("offer_expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("giveaway_claims_item_user_idx").on(table.itemId, table.userId),
+  // Only one person can be offered an item at a time
+  uniqueIndex("giveaway_claims_one_offer_idx").on(table.itemId).where(sql`${table.status} = 'offered'`),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   items: many(items),
@@ -122,6 +351,21 @@ export const usersRelations = relations(users, ({ many }) => ({
   claimedLostFoundItems: many(lostFoundItems, { relationName: "claimedBy" }),
   lostFoundClaims: many(lostFoundClaims, { relationName: "claimant" }),
   reviewedClaims: many(lostFoundClaims, { relationName: "reviewer" }),
+  savedSearches: many(savedSearches),
+  notifications: many(notifications),
+  offersMade: many(offers, { relationName: "offerBuyer" }),
+  offersSent: many(offers, { relationName: "offerSender" }),
+  swapProposals: many(swapProposals),
+  reservations: many(reservations),
+  reviewsWritten: many(reviews, { relationName: "reviewer" }),
+  reviewsReceived: many(reviews, { relationName: "reviewee" }),
+  reportsFiled: many(reports, { relationName: "reporter" }),
+  reportsReceived: many(reports, { relationName: "reportedUser" }),
+  moderationDecisions: many(moderationDecisions),
+  itemViews: many(itemViews),
+  wantedPosts: many(wantedPosts),
+  giveawayClaims: many(giveawayClaims),
+  bids: many(bids),
 }));
 
 export const itemsRelations = relations(items, ({ one, many }) => ({
@@ -131,6 +375,13 @@ export const itemsRelations = relations(items, ({ one, many }) => ({
   }),
   wishlistedBy: many(wishlist),
   messages: many(messages),
+  offers: many(offers),
+  swapProposals: many(swapProposals),
+  reservations: many(reservations),
+  views: many(itemViews),
+  wantedPostResponses: many(wantedPostResponses),
+  giveawayClaims: many(giveawayClaims),
+  bids: many(bids),
 }));
 
 export const wishlistRelations = relations(wishlist, ({ one }) => ({
@@ -192,9 +443,182 @@ export const lostFoundClaimsRelations = relations(lostFoundClaims, ({ one }) =>
   }),
 }));
 
+export const savedSearchesRelations = relations(savedSearches, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const offersRelations = relations(offers, ({ one }) => ({
+  item: one(items, {
+    fields: [offers.itemId],
+    references: [items.id],
+  }),
+  buyer: one(users, {
+    fields: [offers.buyerId],
+    references: [users.id],
+    relationName: "offerBuyer",
+  }),
+  sender: one(users, {
+    fields: [offers.senderId],
+    references: [users.id],
+    relationName: "offerSender",
+  }),
+}));
+
+export const swapProposalsRelations = relations(swapProposals, ({ one, many }) => ({
+  item: one(items, {
+    fields: [swapProposals.itemId],
+    references: [items.id],
+  }),
+  proposer: one(users, {
+    fields: [swapProposals.proposerId],
+    references: [users.id],
+  }),
+  offeredItems: many(swapProposalItems),
+}));
+
+export const swapProposalItemsRelations = relations(swapProposalItems, ({ one }) => ({
+  proposal: one(swapProposals, {
+    fields: [swapProposalItems.proposalId],
+    references: [swapProposals.id],
+  }),
+  item: one(items, {
+    fields: [swapProposalItems.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const reservationsRelations = relations(reservations, ({ one }) => ({
+  item: one(items, {
+    fields: [reservations.itemId],
+    references: [items.id],
+  }),
+  buyer: one(users, {
+    fields: [reservations.buyerId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one }) => ({
+  item: one(items, {
+    fields: [reviews.itemId],
+    references: [items.id],
+  }),
+  reviewer: one(users, {
+    fields: [reviews.reviewerId],
+    references: [users.id],
+    relationName: "reviewer",
+  }),
+  reviewee: one(users, {
+    fields: [reviews.revieweeId],
+    references: [users.id],
+    relationName: "reviewee",
+  }),
+}));
+
+export const reportsRelations = relations(reports, ({ one, many }) => ({
+  reporter: one(users, {
+    fields: [reports.reporterId],
+    references: [users.id],
+    relationName: "reporter",
+  }),
+  reportedUser: one(users, {
+    fields: [reports.reportedUserId],
+    references: [users.id],
+    relationName: "reportedUser",
+  }),
+  item: one(items, {
+    fields: [reports.itemId],
+    references: [items.id],
+  }),
+  message: one(messages, {
+    fields: [reports.messageId],
+    references: [messages.id],
+  }),
+  decisions: many(moderationDecisions),
+}));
+
+export const moderationDecisionsRelations = relations(moderationDecisions, ({ one }) => ({
+  report: one(reports, {
+    fields: [moderationDecisions.reportId],
+    references: [reports.id],
+  }),
+  admin: one(users, {
+    fields: [moderationDecisions.adminId],
+    references: [users.id],
+  }),
+}));
+
+export const itemViewsRelations = relations(itemViews, ({ one }) => ({
+  user: one(users, {
+    fields: [itemViews.userId],
+    references: [users.id],
+  }),
+  item: one(items, {
+    fields: [itemViews.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const wantedPostsRelations = relations(wantedPosts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [wantedPosts.userId],
+    references: [users.id],
+  }),
+  responses: many(wantedPostResponses),
+}));
+
+export const wantedPostResponsesRelations = relations(wantedPostResponses, ({ one }) => ({
+  wantedPost: one(wantedPosts, {
+    fields: [wantedPostResponses.wantedPostId],
+    references: [wantedPosts.id],
+  }),
+  item: one(items, {
+    fields: [wantedPostResponses.itemId],
+    references: [items.id],
+  }),
+  seller: one(users, {
+    fields: [wantedPostResponses.sellerId],
+    references: [users.id],
+  }),
+}));
+
+export const bidsRelations = relations(bids, ({ one }) => ({
+  item: one(items, {
+    fields: [bids.itemId],
+    references: [items.id],
+  }),
+  bidder: one(users, {
+    fields: [bids.bidderId],
+    references: [users.id],
+  }),
+}));
+
+export const giveawayClaimsRelations = relations(giveawayClaims, ({ one }) => ({
+  item: one(items, {
+    fields: [giveawayClaims.itemId],
+    references: [items.id],
+  }),
+  user: one(users, {
+    fields: [giveawayClaims.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  isSuspended: true,
+  warningCount: true,
   createdAt: true,
   resetToken: true,
   resetTokenExpiry: true,
@@ -208,9 +632,154 @@ export const insertUserSchema = createInsertSchema(users).omit({
 });
 
 // Keep insertItemSchema as-is — use .partial() in routes for drafts
+function isbn13CheckDigit(first12: string): string {
+  const sum = first12.split("").reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Accepts ISBN-10 or ISBN-13, with or without hyphens; returns the ISBN-13, or null if the check digit is wrong
+export function normalizeIsbn(raw: string): string | null {
+  const compact = raw.replace(/[\s-]/g, "").toUpperCase();
+  if (/^\d{9}[\dX]$/.test(compact)) {
+    const sum = compact.split("").reduce((total, char, i) => total + (char === "X" ? 10 : Number(char)) * (10 - i), 0);
+    if (sum % 11 !== 0) return null;
+    const first12 = `978${compact.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  if (/^97[89]\d{10}$/.test(compact)) {
+    return isbn13CheckDigit(compact.slice(0, 12)) === compact[12] ? compact : null;
+  }
+  return null;
+}
+
+// VIT course codes, e.g. MAT1011 or CSE1001
+export const COURSE_CODE_PATTERN = /^[A-Z]{3,4}\d{3,4}[A-Z]?$/;
+export const MAX_COURSE_CODES = 5;
+
+export const bookDetailsSchema = z.object({
+  isbn: z.string().transform((value, ctx) => {
+    const isbn = normalizeIsbn(value);
+    if (!isbn) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a valid ISBN-10 or ISBN-13" });
+      return z.NEVER;
+    }
+    return isbn;
+  }).nullable(),
+  author: z.string().trim().max(100, "Author too long").nullable(),
+  edition: z.string().trim().max(50, "Edition too long").nullable(),
+  courseCodes: z.array(
+    z.string().trim().toUpperCase().regex(COURSE_CODE_PATTERN, "Course codes look like MAT1011")
+  ).max(MAX_COURSE_CODES, `Add up to ${MAX_COURSE_CODES} course codes`),
+}).partial();
+
+type AttributeOption = { value: string; label: string };
+export type ItemAttributeField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Offered as a filter on the browse page once the category is picked
+  filterable?: boolean;
+} & ({ type: "select"; options: AttributeOption[] } | { type: "text"; maxLength: number; placeholder?: string });
+
+const deviceAttributes: ItemAttributeField[] = [
+  { key: "brand", label: "Brand", type: "text", maxLength: 50, placeholder: "e.g., Casio", required: true, filterable: true },
+  { key: "model", label: "Model", type: "text", maxLength: 50, placeholder: "e.g., fx-991EX" },
+  {
+    key: "warranty",
+    label: "Warranty",
+    type: "select",
+    filterable: true,
+    options: [
+      { value: "none", label: "No warranty" },
+      { value: "under-6-months", label: "Under 6 months left" },
+      { value: "6-12-months", label: "6-12 months left" },
+      { value: "over-12-months", label: "Over a year left" },
+    ],
+  },
+];
+
+// Categories not listed here have no extra fields; book details have their own columns
+export const CATEGORY_ATTRIBUTES: Partial<Record<ItemCategory, ItemAttributeField[]>> = {
+  uniforms: [
+    {
+      key: "size",
+      label: "Size",
+      type: "select",
+      required: true,
+      filterable: true,
+      options: ["xs", "s", "m", "l", "xl", "xxl"].map((size) => ({ value: size, label: size.toUpperCase() })),
+    },
+    {
+      key: "uniformType",
+      label: "Type",
+      type: "select",
+      filterable: true,
+      options: [
+        { value: "lab-coat", label: "Lab coat" },
+        { value: "formal", label: "Formal wear" },
+        { value: "sportswear", label: "Sportswear" },
+        { value: "other", label: "Other" },
+      ],
+    },
+  ],
+  gadgets: deviceAttributes,
+  electronics: deviceAttributes,
+  sports: [
+    {
+      key: "sport",
+      label: "Sport",
+      type: "select",
+      required: true,
+      filterable: true,
+      options: [
+        { value: "cricket", label: "Cricket" },
+        { value: "football", label: "Football" },
+        { value: "basketball", label: "Basketball" },
+        { value: "badminton", label: "Badminton" },
+        { value: "tennis", label: "Tennis" },
+        { value: "table-tennis", label: "Table tennis" },
+        { value: "volleyball", label: "Volleyball" },
+        { value: "fitness", label: "Gym & fitness" },
+        { value: "other", label: "Other" },
+      ],
+    },
+  ],
+};
+
+export function attributeFieldsFor(category: string | null | undefined): ItemAttributeField[] {
+  return CATEGORY_ATTRIBUTES[category as ItemCategory] ?? [];
+}
+
+function attributeFieldSchema(field: ItemAttributeField) {
+  const schema = field.type === "select"
+    ? z.enum(field.options.map((option) => option.value) as [string, ...string[]], {
+        errorMap: () => ({ message: `Pick a ${field.label.toLowerCase()}` }),
+      })
+    : z.string().trim().min(1, `${field.label} is required`).max(field.maxLength, `${field.label} too long`);
+  return field.required ? schema : schema.optional();
+}
+
+// Validates a listing's attributes against its category; empty values are treated as not set
+export function itemAttributesSchema(category: string | null | undefined) {
+  const fields = attributeFieldsFor(category);
+  return z.preprocess(
+    (value) => (value === undefined || value === null
+      ? {}
+      : typeof value === "object"
+        ? Object.fromEntries(Object.entries(value).filter(([, v]) => v !== "" && v !== null && v !== undefined))
+        : value),
+    z.object(Object.fromEntries(fields.map((field) => [field.key, attributeFieldSchema(field)]))).strict()
+  ) as z.ZodType<ItemAttributes, z.ZodTypeDef, unknown>;
+}
+
 export const insertItemSchema = createInsertSchema(items).omit({
   id: true,
   sellerId: true,
+  reservedFor: true,
+  buyerId: true,
+  soldAt: true,
+  expiresAt: true,
+  expiryReminderSentAt: true,
   views: true,
   createdAt: true,
   updatedAt: true,
@@ -220,9 +789,66 @@ export const insertItemSchema = createInsertSchema(items).omit({
   category: z.enum(["books", "gadgets", "uniforms", "accessories", "sports", "electronics", "stationery", "other"]),
   condition: z.enum(["new", "excellent", "good", "fair"]),
   price: z.number().min(0, "Price must be 0 or greater"),
-  location: z.enum(["a-block", "b-block", "c-block", "d-block", "e-block"]),
+  // Checked against the locations table, which admins can change
+  location: z.string().min(1, "Location is required"),
+  // Checked against the category with itemAttributesSchema
+  attributes: z.record(z.string(), z.string()).optional(),
+  ...bookDetailsSchema.shape,
 });
 
+// Drafts can be saved with any subset of fields; publishing re-checks them against insertItemSchema
+export const draftItemSchema = z.object({
+  title: z.string().trim().nullable(),
+  description: z.string().nullable(),
+  category: insertItemSchema.shape.category.nullable(),
+  condition: insertItemSchema.shape.condition.nullable(),
+  price: z.number().int().min(0, "Price must be 0 or greater").nullable(),
+  location: insertItemSchema.shape.location.nullable(),
+  isExchangeable: z.boolean(),
+  isGiveaway: z.boolean(),
+  giveawayAutoOffer: z.boolean(),
+  isAuction: z.boolean(),
+  auctionMinIncrement: z.number().int().min(1, "Minimum increment must be at least ₹1").nullable(),
+  auctionEndsAt: z.coerce.date().nullable(),
+  // Not checked against the category until the draft is published
+  attributes: z.record(z.string(), z.string().max(100)),
+  ...bookDetailsSchema.shape,
+}).partial();
+
+export const MAX_ITEM_PHOTOS = 5;
+
+// Bounds for an auction's end time, counted from when it goes live
+export const MIN_AUCTION_HOURS = 1;
+export const MAX_AUCTION_DAYS = 14;
+
+// The start price until someone bids, then the highest bid plus the increment
+export function nextMinimumBid(item: Pick<Item, "price" | "auctionMinIncrement">, highestBid: number | null): number {
+  return highestBid === null ? item.price ?? 0 : highestBid + (item.auctionMinIncrement ?? 1);
+}
+
+// Checked when an auction goes live, since a draft's end time can pass while it sits unpublished
+export function auctionIssues(
+  item: Partial<Pick<Item, "isAuction" | "isGiveaway" | "auctionMinIncrement" | "auctionEndsAt">>,
+  now = new Date()
+): string[] {
+  if (!item.isAuction) return [];
+  const issues: string[] = [];
+  if (item.isGiveaway) {
+    issues.push("isAuction: A giveaway can't also be an auction");
+  }
+  if (!item.auctionMinIncrement || item.auctionMinIncrement < 1) {
+    issues.push("auctionMinIncrement: Set a minimum bid increment");
+  }
+  if (!item.auctionEndsAt) {
+    issues.push("auctionEndsAt: Pick when the auction ends");
+  } else if (item.auctionEndsAt.getTime() < now.getTime() + MIN_AUCTION_HOURS * 60 * 60 * 1000) {
+    issues.push(`auctionEndsAt: The auction must run for at least ${MIN_AUCTION_HOURS} hour${MIN_AUCTION_HOURS !== 1 ? "s" : ""}`);
+  } else if (item.auctionEndsAt.getTime() > now.getTime() + MAX_AUCTION_DAYS * 24 * 60 * 60 * 1000) {
+    issues.push(`auctionEndsAt: Auctions can run for at most ${MAX_AUCTION_DAYS} days`);
+  }
+  return issues;
+}
+
 export const insertWishlistSchema = createInsertSchema(wishlist).omit({
   id: true,
   createdAt: true,
@@ -246,6 +872,7 @@ export const insertLostFoundItemSchema = createInsertSchema(lostFoundItems).omit
   description: z.string().min(1, "Description is required"),
   category: z.enum(["books", "gadgets", "uniforms", "other"]),
   foundLocation: z.string().min(1, "Found location is required"),
+  foundLocationDetails: z.string().trim().max(200, "Details too long").optional(),
 });
 
 export const insertLostFoundClaimSchema = createInsertSchema(lostFoundClaims).omit({
@@ -269,11 +896,138 @@ export const insertLostFoundClaimSchema = createInsertSchema(lostFoundClaims).om
   contactPreference: z.enum(["email", "phone", "both"]).default("email"),
 });
 
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(60, "Name too long"),
+  group: z.string().trim().min(1, "Group is required").max(40, "Group too long"),
+  displayOrder: z.number().int().min(0).default(0),
+});
+
+// Ids are derived from the name when a location is added and never change afterwards
+export function locationSlug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(60, "Name too long"),
+  search: z.string().trim().max(100).optional(),
+  category: z.enum(["books", "gadgets", "uniforms", "accessories", "sports", "electronics", "stationery", "other"]).optional(),
+  location: z.string().min(1).optional(),
+  minPrice: z.number().int().min(0).optional(),
+  maxPrice: z.number().int().min(0).optional(),
+}).refine((data) => data.minPrice === undefined || data.maxPrice === undefined || data.minPrice <= data.maxPrice, {
+  message: "Minimum price cannot be above maximum price",
+  path: ["minPrice"],
+}).refine((data) => !!(data.search || data.category || data.location || data.minPrice !== undefined || data.maxPrice !== undefined), {
+  message: "Pick at least one filter to save",
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  isRead: true,
+  createdAt: true,
+});
+
+export const insertOfferSchema = createInsertSchema(offers).pick({
+  amount: true,
+  message: true,
+}).extend({
+  amount: z.number().int("Offer must be a whole number").min(1, "Offer must be at least ₹1"),
+  message: z.string().trim().max(500, "Message too long").optional(),
+});
+
+export const MAX_SWAP_ITEMS = 5;
+
+export const insertSwapProposalSchema = createInsertSchema(swapProposals).pick({
+  message: true,
+}).extend({
+  message: z.string().trim().max(500, "Message too long").optional(),
+  offeredItemIds: z.array(z.string())
+    .min(1, "Pick at least one of your items to offer")
+    .max(MAX_SWAP_ITEMS, `You can offer up to ${MAX_SWAP_ITEMS} items`),
+});
+
+export const insertReviewSchema = createInsertSchema(reviews).pick({
+  rating: true,
+  comment: true,
+}).extend({
+  rating: z.number().int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  comment: z.string().trim().max(500, "Review too long").optional(),
+});
+
+export const insertReportSchema = createInsertSchema(reports).pick({
+  targetType: true,
+  reason: true,
+  details: true,
+}).extend({
+  targetId: z.string().min(1),
+  details: z.string().trim().max(500, "Details too long").optional(),
+});
+
+export const insertWantedPostSchema = createInsertSchema(wantedPosts).pick({
+  title: true,
+  description: true,
+  category: true,
+  maxBudget: true,
+  preferredLocation: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required").max(100, "Title too long"),
+  description: z.string().trim().max(500, "Description too long").optional(),
+  maxBudget: z.number().int().min(1, "Budget must be at least ₹1").optional(),
+  preferredLocation: z.string().min(1).optional(),
+});
+
+export const insertWantedPostResponseSchema = createInsertSchema(wantedPostResponses).pick({
+  itemId: true,
+  message: true,
+}).extend({
+  message: z.string().trim().max(500, "Message too long").optional(),
+});
+
+export const insertModerationDecisionSchema = createInsertSchema(moderationDecisions).pick({
+  action: true,
+  note: true,
+}).extend({
+  note: z.string().trim().max(500, "Note too long").optional(),
+});
+
 // Types
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertItem = z.infer<typeof insertItemSchema>;
+export type DraftItem = z.infer<typeof draftItemSchema>;
 export type Item = typeof items.$inferSelect;
+export type ItemCategory = typeof itemCategoryEnum.enumValues[number];
+export type ItemAttributes = Record<string, string>;
+export const itemSortOptions = ["relevance", "newest", "price_asc", "price_desc", "most_viewed", "most_wishlisted"] as const;
+export type ItemSort = typeof itemSortOptions[number];
+// Search matches are wrapped in <mark>...</mark>; clients must render the rest as plain text
+export type ItemHighlights = { title: string; description: string };
+export type SellerRating = { average: number | null; count: number };
+export type ItemSearchResult = Item & { highlights?: ItemHighlights; sellerRating?: SellerRating };
+export type ItemPage<T = ItemSearchResult> = { items: T[]; nextCursor: string | null };
+export type ItemSeller = Pick<User, "id" | "firstName" | "lastName" | "branch" | "year" | "hostelBlock" | "profilePicture" | "isVerified" | "createdAt">;
+export type ItemWithSeller = Item & { seller: ItemSeller; sellerRating: SellerRating; wishlistCount: number };
+export type TextbookMetadata = { isbn: string; title: string; author: string; edition: string | null; courseCodes: string[] };
+export type PublicProfile = ItemSeller & { rating: SellerRating };
+export type Storefront = { profile: PublicProfile; activeItems: WithPhotoUrls<Item>[]; soldItems: WithPhotoUrls<Item>[] };
+// low/high are the middle half of comparable prices; basis says whether they come from sales or live listings
+export type PriceSuggestion = { low: number; median: number; high: number; sampleSize: number; basis: "sold" | "listed" };
+// Resized variants of an uploaded photo; legacy uploads use the original for every size
+export type PhotoUrls = { thumb: string; medium: string; full: string };
+export type WithPhotoUrls<T> = T & { photoUrls: PhotoUrls[] };
+// row is the spreadsheet row number; the CSV header is row 1
+export type ImportRowError = { row: number; title: string | null; errors: string[] };
+export type BulkImportResult = { created: Item[]; errors: ImportRowError[] };
+export type PublishDraftsResult = { published: Item[]; errors: { id: string; title: string | null; errors: string[] }[] };
 export type InsertWishlist = z.infer<typeof insertWishlistSchema>;
 export type Wishlist = typeof wishlist.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
@@ -282,3 +1036,51 @@ export type InsertLostFoundItem = z.infer<typeof insertLostFoundItemSchema>;
 export type LostFoundItem = typeof lostFoundItems.$inferSelect;
 export type InsertLostFoundClaim = z.infer<typeof insertLostFoundClaimSchema>;
 export type LostFoundClaim = typeof lostFoundClaims.$inferSelect;
+export type LostFoundClaimWithProofUrls = LostFoundClaim & { proofFileUrls: PhotoUrls[] };
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertOffer = z.infer<typeof insertOfferSchema>;
+export type Offer = typeof offers.$inferSelect;
+export type OfferWithDetails = Offer & { item: Item; buyer: ItemSeller; seller: ItemSeller };
+export type InsertSwapProposal = z.infer<typeof insertSwapProposalSchema>;
+export type SwapProposal = typeof swapProposals.$inferSelect;
+export type SwapProposalWithDetails = SwapProposal & { item: Item; offeredItems: Item[]; proposer: ItemSeller; seller: ItemSeller };
+export type Reservation = typeof reservations.$inferSelect;
+// handoffCode is only sent to the seller
+export type ReservationWithDetails = Omit<Reservation, "handoffCode"> & { handoffCode?: string; item: Item; buyer: ItemSeller; seller: ItemSeller };
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type Review = typeof reviews.$inferSelect;
+export type ReviewWithDetails = Review & { reviewer: ItemSeller; reviewee: ItemSeller; item: Pick<Item, "id" | "title"> };
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type Report = typeof reports.$inferSelect;
+export type InsertModerationDecision = z.infer<typeof insertModerationDecisionSchema>;
+export type ModerationDecision = typeof moderationDecisions.$inferSelect;
+export type ItemView = typeof itemViews.$inferSelect;
+export type InsertWantedPost = z.infer<typeof insertWantedPostSchema>;
+export type WantedPost = typeof wantedPosts.$inferSelect;
+export type InsertWantedPostResponse = z.infer<typeof insertWantedPostResponseSchema>;
+export type WantedPostResponse = typeof wantedPostResponses.$inferSelect;
+export type WantedPostResponseWithDetails = WantedPostResponse & { item: WithPhotoUrls<Item>; seller: ItemSeller };
+// Responses are only sent to the poster; everyone else sees how many there are
+export type WantedPostWithDetails = WantedPost & { poster: ItemSeller; responseCount: number; responses?: WantedPostResponseWithDetails[] };
+export type GiveawayClaim = typeof giveawayClaims.$inferSelect;
+export type GiveawayClaimWithUser = GiveawayClaim & { user: ItemSeller };
+// queue (waiting and offered claims, in order) is only sent to the giver
+export type GiveawayQueue = { queueLength: number; myClaim: GiveawayClaim | null; myPosition: number | null; queue?: GiveawayClaimWithUser[] };
+export type Bid = typeof bids.$inferSelect;
+export type BidWithBidder = Bid & { bidder: ItemSeller };
+// nextMinimumBid is the start price until someone bids
+export type AuctionState = { bids: BidWithBidder[]; bidCount: number; highestBid: number | null; nextMinimumBid: number; endsAt: Date | null; isOpen: boolean };
+export type FeedSectionKind = "near_you" | "because_you_saved" | "recently_viewed" | "trending" | "latest";
+export type FeedSection = { kind: FeedSectionKind; title: string; items: WithPhotoUrls<ItemSearchResult>[] };
+export type HomeFeed = { sections: FeedSection[] };
+// Admin-only view; reportedUser carries the moderation state needed to pick an action
+export type ReportWithDetails = Report & {
+  reporter: ItemSeller;
+  reportedUser: ItemSeller & Pick<User, "email" | "isSuspended" | "warningCount">;
+  item: Pick<Item, "id" | "title" | "status"> | null;
+  message: Pick<Message, "id" | "content" | "createdAt"> | null;
+  decisions: ModerationDecision[];
+};